@@ -1,5 +1,10 @@
 import { NextResponse } from 'next/server';
-import { recordSwapBatch, fetchHistoryByWallet } from '@/app/lib/firestore/history';
+import {
+  BatchOwnershipError,
+  recordSwapBatch,
+  updateSwapBatch,
+  fetchHistoryByWallet,
+} from '@/app/lib/firestore/history';
 import { SwapBatchRecord } from '@/app/types/history';
 
 const HISTORY_ENABLED =
@@ -61,6 +66,60 @@ export async function GET(request: Request) {
   }
 }
 
+type BatchPayloadResult =
+  | { payload: SwapBatchRecord; response?: undefined }
+  | { payload?: undefined; response: NextResponse };
+
+const readBatchPayload = async (request: Request): Promise<BatchPayloadResult> => {
+  const walletHeader = request.headers.get('x-wallet');
+  console.log('🔍 History API called with wallet header:', walletHeader);
+
+  if (!walletHeader) {
+    console.log('❌ Missing wallet header');
+    return {
+      response: NextResponse.json(
+        { error: 'missing wallet header' },
+        { status: 401 },
+      ),
+    };
+  }
+
+  const payload = (await request.json()) as SwapBatchRecord | null;
+  console.log('📦 Payload received:', payload ? 'valid' : 'invalid');
+
+  if (!payload) {
+    console.log('❌ Invalid payload');
+    return {
+      response: NextResponse.json(
+        { error: 'invalid payload' },
+        { status: 400 },
+      ),
+    };
+  }
+
+  if (payload.wallet !== walletHeader) {
+    console.log('❌ Wallet mismatch:', { payloadWallet: payload.wallet, headerWallet: walletHeader });
+    return {
+      response: NextResponse.json(
+        { error: 'wallet mismatch' },
+        { status: 403 },
+      ),
+    };
+  }
+
+  if (!payload.tokensIn || payload.tokensIn.length === 0) {
+    console.log('❌ No token data provided');
+    return {
+      response: NextResponse.json(
+        { error: 'no token data provided' },
+        { status: 400 },
+      ),
+    };
+  }
+
+  return { payload };
+};
+
 export async function POST(request: Request) {
   if (!HISTORY_ENABLED) {
     console.log('❌ History disabled - ignoring POST');
@@ -68,54 +127,70 @@ export async function POST(request: Request) {
   }
 
   try {
-    const walletHeader = request.headers.get('x-wallet');
-    console.log('🔍 History API POST called with wallet header:', walletHeader);
+    const { payload, response } = await readBatchPayload(request);
+    if (response) return response;
+
+    console.log('🔄 Recording swap batch...');
+    const recordId = await recordSwapBatch(payload);
     
-    if (!walletHeader) {
-      console.log('❌ Missing wallet header');
+    console.log('✅ Swap batch recorded with ID:', recordId);
+    return NextResponse.json({ id: recordId }, { status: 201 });
+  } catch (error) {
+    if (error instanceof BatchOwnershipError) {
+      console.log('❌ Batch owned by another wallet:', error.batchId);
       return NextResponse.json(
-        { error: 'missing wallet header' },
-        { status: 401 },
+        { error: 'wallet mismatch' },
+        { status: 403 },
       );
     }
 
-    const payload = (await request.json()) as SwapBatchRecord | null;
-    console.log('📦 Payload received:', payload ? 'valid' : 'invalid');
-    
-    if (!payload) {
-      console.log('❌ Invalid payload');
+    console.error('❌ History POST error:', error);
+    return NextResponse.json(
+      { 
+        error: 'failed to record swap history',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  if (!HISTORY_ENABLED) {
+    console.log('❌ History disabled - ignoring PUT');
+    return NextResponse.json({ disabled: true }, { status: 200 });
+  }
+
+  try {
+    const { payload, response } = await readBatchPayload(request);
+    if (response) return response;
+
+    if (!payload.batchId) {
+      console.log('❌ Missing batch id');
       return NextResponse.json(
-        { error: 'invalid payload' },
+        { error: 'batch id is required' },
         { status: 400 },
       );
     }
 
-    if (payload.wallet !== walletHeader) {
-      console.log('❌ Wallet mismatch:', { payloadWallet: payload.wallet, headerWallet: walletHeader });
+    console.log('🔄 Updating swap batch...');
+    const recordId = await updateSwapBatch(payload);
+
+    console.log('✅ Swap batch updated with ID:', recordId);
+    return NextResponse.json({ id: recordId }, { status: 200 });
+  } catch (error) {
+    if (error instanceof BatchOwnershipError) {
+      console.log('❌ Batch owned by another wallet:', error.batchId);
       return NextResponse.json(
         { error: 'wallet mismatch' },
         { status: 403 },
       );
     }
 
-    if (!payload.tokensIn || payload.tokensIn.length === 0) {
-      console.log('❌ No token data provided');
-      return NextResponse.json(
-        { error: 'no token data provided' },
-        { status: 400 },
-      );
-    }
-
-    console.log('🔄 Recording swap batch...');
-    const recordId = await recordSwapBatch(payload);
-    
-    console.log('✅ Swap batch recorded with ID:', recordId);
-    return NextResponse.json({ id: recordId }, { status: 201 });
-  } catch (error) {
-    console.error('❌ History POST error:', error);
+    console.error('❌ History PUT error:', error);
     return NextResponse.json(
-      { 
-        error: 'failed to record swap history',
+      {
+        error: 'failed to update swap history',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
       { status: 500 },
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { fetchOrdersByWallet, saveLiquidationOrder } from '@/app/lib/firestore/orders';
+import { LiquidationOrder } from '@/app/types/orders';
+
+// orders live next to swapHistory, so they follow the same switch
+const HISTORY_ENABLED =
+  process.env.NEXT_PUBLIC_ENABLE_HISTORY === 'true' ||
+  process.env.ENABLE_HISTORY === 'true';
+
+export async function GET(request: Request) {
+  if (!HISTORY_ENABLED) {
+    return NextResponse.json({ data: [] });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const wallet = searchParams.get('wallet');
+
+  if (!wallet) {
+    return NextResponse.json(
+      { error: 'wallet parameter is required' },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const data = await fetchOrdersByWallet(wallet);
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('orders GET error:', error);
+    return NextResponse.json(
+      {
+        error: 'failed to fetch orders',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  if (!HISTORY_ENABLED) {
+    return NextResponse.json({ disabled: true }, { status: 200 });
+  }
+
+  const walletHeader = request.headers.get('x-wallet');
+  if (!walletHeader) {
+    return NextResponse.json(
+      { error: 'missing wallet header' },
+      { status: 401 },
+    );
+  }
+
+  try {
+    const payload = (await request.json()) as LiquidationOrder | null;
+
+    if (!payload || !payload.orderId) {
+      return NextResponse.json(
+        { error: 'invalid payload' },
+        { status: 400 },
+      );
+    }
+
+    if (payload.wallet !== walletHeader) {
+      return NextResponse.json(
+        { error: 'wallet mismatch' },
+        { status: 403 },
+      );
+    }
+
+    const id = await saveLiquidationOrder(payload);
+    return NextResponse.json({ id }, { status: 200 });
+  } catch (error) {
+    console.error('orders PUT error:', error);
+    return NextResponse.json(
+      {
+        error: 'failed to save order',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { fetchSchedulesByWallet, saveSwapSchedule } from '@/app/lib/firestore/schedules';
+import { SwapSchedule } from '@/app/types/schedule';
+
+// schedules live next to swapHistory, so they follow the same switch
+const HISTORY_ENABLED =
+  process.env.NEXT_PUBLIC_ENABLE_HISTORY === 'true' ||
+  process.env.ENABLE_HISTORY === 'true';
+
+export async function GET(request: Request) {
+  if (!HISTORY_ENABLED) {
+    return NextResponse.json({ data: [] });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const wallet = searchParams.get('wallet');
+
+  if (!wallet) {
+    return NextResponse.json(
+      { error: 'wallet parameter is required' },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const data = await fetchSchedulesByWallet(wallet);
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('schedules GET error:', error);
+    return NextResponse.json(
+      {
+        error: 'failed to fetch schedules',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  if (!HISTORY_ENABLED) {
+    return NextResponse.json({ disabled: true }, { status: 200 });
+  }
+
+  const walletHeader = request.headers.get('x-wallet');
+  if (!walletHeader) {
+    return NextResponse.json(
+      { error: 'missing wallet header' },
+      { status: 401 },
+    );
+  }
+
+  try {
+    const payload = (await request.json()) as SwapSchedule | null;
+
+    if (!payload || !payload.scheduleId) {
+      return NextResponse.json(
+        { error: 'invalid payload' },
+        { status: 400 },
+      );
+    }
+
+    if (payload.wallet !== walletHeader) {
+      return NextResponse.json(
+        { error: 'wallet mismatch' },
+        { status: 403 },
+      );
+    }
+
+    const id = await saveSwapSchedule(payload);
+    return NextResponse.json({ id }, { status: 200 });
+  } catch (error) {
+    console.error('schedules PUT error:', error);
+    return NextResponse.json(
+      {
+        error: 'failed to save schedule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Target, X } from 'lucide-react';
+import { useLiquidationOrders } from '../contexts/ordersContext';
+import { LiquidationOrder, OrderStatus } from '../types/orders';
+import { describeOrder, isOrderOpen } from '../lib/swap/orders';
+
+const MAX_CLOSED = 5;
+
+const STATUS_COLORS: Record<OrderStatus, string> = {
+  active: 'text-green-400',
+  triggered: 'text-yellow-400',
+  executing: 'text-yellow-400',
+  executed: 'text-gray-300',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-500',
+  expired: 'text-gray-500',
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+export function LiquidationOrdersPanel() {
+  const { orders, quotes, cancelOrder, executeOrder } = useLiquidationOrders();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const open = orders.filter(isOrderOpen);
+  const closed = orders.filter(order => !isOrderOpen(order)).slice(0, MAX_CLOSED);
+  const visible = [...open, ...closed];
+
+  if (visible.length === 0) return null;
+
+  const renderOrder = (order: LiquidationOrder) => {
+    const quote = quotes[order.orderId];
+    const isExpanded = expanded === order.orderId;
+
+    return (
+      <div key={order.orderId} className="border border-gray-700 rounded-lg p-3 space-y-2">
+        <div className="flex justify-between items-start gap-2">
+          <div className="space-y-1">
+            <div className="lowercase">{describeOrder(order)}</div>
+            <div className="text-xs text-gray-400">
+              → {order.outputs.map(output => output.symbol).join(', ')}
+              {quote && ` · basket $${quote.valueUsd.toFixed(2)} at ${new Date(quote.checkedAt).toLocaleTimeString()}`}
+            </div>
+            <div className="text-xs text-gray-500">
+              {order.expiresAt ? `expires ${formatTime(order.expiresAt)}` : 'no expiry'}
+            </div>
+          </div>
+          <span className={`text-xs ${STATUS_COLORS[order.status]}`}>{order.status}</span>
+        </div>
+
+        <div className="flex items-center space-x-2 text-xs">
+          {order.status === 'triggered' && (
+            <button
+              onClick={() => executeOrder(order.orderId)}
+              className="bg-yellow-600 hover:bg-yellow-700 px-2 py-1 rounded mobile-optimized"
+            >
+              sign now
+            </button>
+          )}
+          {(order.status === 'active' || order.status === 'triggered') && (
+            <button
+              onClick={() => cancelOrder(order.orderId)}
+              className="bg-gray-600 hover:bg-red-700 px-2 py-1 rounded flex items-center space-x-1 mobile-optimized"
+            >
+              <X className="h-3 w-3" />
+              <span>cancel</span>
+            </button>
+          )}
+          <button
+            onClick={() => setExpanded(isExpanded ? null : order.orderId)}
+            className="text-gray-400 hover:text-gray-200 flex items-center space-x-1"
+          >
+            {isExpanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+            <span>history</span>
+          </button>
+        </div>
+
+        {isExpanded && (
+          <ul className="text-xs text-gray-400 space-y-1 border-t border-gray-700 pt-2">
+            {order.history.map((change, index) => (
+              <li key={`${change.status}-${index}`} className="flex justify-between gap-2">
+                <span>
+                  {change.status}
+                  {change.basketValueUsd !== undefined && ` at $${change.basketValueUsd.toFixed(2)}`}
+                  {change.note && ` · ${change.note}`}
+                </span>
+                <span className="text-gray-500">{formatTime(change.at)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-gray-900/40 border border-gray-700 rounded-none sm:rounded-2xl p-4 sm:p-6 space-y-4 sm:space-y-6 -mx-4 sm:mx-0">
+      <div className="ml-5 flex items-center space-x-3">
+        <div className="p-2 bg-gray-800/70 rounded-lg">
+          <Target className="h-5 w-5 text-gray-300" />
+        </div>
+        <h3 className="text-lg font-semibold">orders</h3>
+      </div>
+      <div className="space-y-3 text-sm">
+        {visible.map(renderOrder)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { TokenBalance } from '../types/token';
+import { RebalancePlan, RebalanceTarget, RebalanceTemplate } from '../types/rebalance';
+
+interface RebalanceEditorProps {
+  tokens: TokenBalance[];
+  targets: RebalanceTarget[];
+  onTargetsChange: (targets: RebalanceTarget[]) => void;
+  driftBandPct: number;
+  onDriftBandChange: (driftBandPct: number) => void;
+  plan: RebalancePlan;
+  templates: RebalanceTemplate[];
+  onSaveTemplate: (template: RebalanceTemplate) => void;
+  onDeleteTemplate: (id: string) => void;
+  // quoted loss once previewed, otherwise the worst case at the slippage limit
+  expectedCostUsd: number;
+  costIsQuoted: boolean;
+}
+
+export function RebalanceEditor({
+  tokens,
+  targets,
+  onTargetsChange,
+  driftBandPct,
+  onDriftBandChange,
+  plan,
+  templates,
+  onSaveTemplate,
+  onDeleteTemplate,
+  expectedCostUsd,
+  costIsQuoted,
+}: RebalanceEditorProps) {
+  const [templateName, setTemplateName] = useState('');
+  const [templateId, setTemplateId] = useState('');
+
+  // holdings worth showing plus anything a template targets
+  const rows = useMemo(() => tokens
+    .filter(token => token.value > 0.01 || targets.some(target => target.mint === token.mint))
+    .sort((a, b) => b.value - a.value), [tokens, targets]);
+
+  const totalWeight = targets.reduce((sum, target) => sum + target.weight, 0);
+
+  const setWeight = (token: TokenBalance, value: string) => {
+    const others = targets.filter(target => target.mint !== token.mint);
+    if (value === '') {
+      onTargetsChange(others);
+      return;
+    }
+    const weight = Math.max(0, Number(value) || 0);
+    onTargetsChange([...others, { mint: token.mint, symbol: token.symbol, weight }]);
+  };
+
+  const applyTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find(existing => existing.id === id);
+    if (!template) return;
+    setTemplateName(template.name);
+    onTargetsChange(template.targets);
+    onDriftBandChange(template.driftBandPct);
+  };
+
+  const saveTemplate = () => {
+    const name = templateName.trim();
+    if (!name || targets.length === 0) return;
+    const existing = templates.find(template => template.name === name);
+    const id = existing?.id
+      ?? (typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}`);
+    onSaveTemplate({ id, name, targets, driftBandPct, updatedAt: Date.now() });
+    setTemplateId(id);
+  };
+
+  return (
+    <div className="space-y-3 ml-3 mr-3 text-xs">
+      <div className="flex items-center space-x-2">
+        <select
+          value={templateId}
+          onChange={(e) => applyTemplate(e.target.value)}
+          className="flex-1 bg-black border border-gray-700 rounded px-2 py-1 mobile-optimized"
+        >
+          <option value="">load template...</option>
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>{template.name}</option>
+          ))}
+        </select>
+        {templateId && (
+          <button
+            onClick={() => {
+              onDeleteTemplate(templateId);
+              setTemplateId('');
+            }}
+            className="p-1 hover:bg-red-500/20 rounded mobile-optimized"
+            title="delete template"
+          >
+            <Trash2 className="h-3 w-3 text-red-400" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          placeholder="template name"
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          className="flex-1 bg-black border border-gray-700 rounded px-2 py-1 mobile-optimized"
+        />
+        <button
+          onClick={saveTemplate}
+          disabled={!templateName.trim() || targets.length === 0}
+          className="bg-gray-600 hover:bg-gray-700 disabled:opacity-50 px-2 py-1 rounded flex items-center space-x-1 mobile-optimized"
+        >
+          <Save className="h-3 w-3" />
+          <span>save</span>
+        </button>
+      </div>
+
+      <div className="space-y-1 max-h-48 overflow-y-auto mobile-scroll">
+        <div className="flex justify-between text-gray-500">
+          <span>token</span>
+          <span>current → target</span>
+        </div>
+        {rows.map(token => {
+          const target = targets.find(existing => existing.mint === token.mint);
+          const position = plan.positions.find(existing => existing.mint === token.mint);
+          const outOfBand = position !== undefined && Math.abs(position.driftPct) > driftBandPct;
+          return (
+            <div key={token.mint} className="flex items-center justify-between space-x-2">
+              <span className="flex-1 truncate lowercase">{token.symbol}</span>
+              <span className={outOfBand ? 'text-yellow-400' : 'text-gray-400'}>
+                {position ? `${position.currentWeight.toFixed(1)}%` : '—'}
+              </span>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                placeholder="—"
+                value={target?.weight ?? ''}
+                onChange={(e) => setWeight(token, e.target.value)}
+                className="w-16 bg-black border border-gray-700 rounded px-2 py-1 text-right mobile-optimized"
+              />
+              <span className="text-gray-400">%</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-gray-300">drift band</span>
+        <div className="flex items-center space-x-1">
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={driftBandPct}
+            onChange={(e) => onDriftBandChange(Math.max(0, Number(e.target.value) || 0))}
+            className="w-16 bg-black border border-gray-700 rounded px-2 py-1 text-right mobile-optimized"
+          />
+          <span className="text-gray-400">pts</span>
+        </div>
+      </div>
+
+      {totalWeight > 0 && Math.abs(totalWeight - 100) > 0.01 && (
+        <div className="text-gray-500">weights add up to {totalWeight.toFixed(1)}% and are scaled to 100%</div>
+      )}
+
+      {plan.unpriced.map(({ token, reason }) => (
+        <div key={token.mint} className="text-yellow-400">{reason}</div>
+      ))}
+
+      {plan.unheld.map(({ target, reason }) => (
+        <div key={target.mint} className="flex items-center justify-between space-x-2 text-yellow-400">
+          <span className="flex-1">{reason}</span>
+          <button
+            onClick={() => onTargetsChange(targets.filter(existing => existing.mint !== target.mint))}
+            className="p-1 hover:bg-red-500/20 rounded mobile-optimized"
+            title="remove target"
+          >
+            <Trash2 className="h-3 w-3 text-red-400" />
+          </button>
+        </div>
+      ))}
+
+      {targets.length > 0 && (
+        plan.legs.length === 0 ? (
+          <div className="text-gray-500">
+            {plan.withinBand ? 'all weights are within the drift band' : 'no trades large enough to rebalance'}
+          </div>
+        ) : (
+          <div className="space-y-1 text-gray-300">
+            <div className="flex justify-between">
+              <span>{plan.legs.length} trades</span>
+              <span>${plan.turnoverUsd.toFixed(2)} turnover</span>
+            </div>
+            <div className="flex justify-between">
+              <span>{costIsQuoted ? 'quoted cost' : 'max slippage cost'}</span>
+              <span>${expectedCostUsd.toFixed(2)}</span>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
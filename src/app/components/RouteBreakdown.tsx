@@ -0,0 +1,40 @@
+'use client';
+
+import { RouteSummary } from '../types/swap';
+import { getRouteVenues } from '../lib/swap/routing';
+
+interface RouteBreakdownProps {
+  route: RouteSummary;
+  symbolFor: (mint: string) => string;
+  // active routing limits, shown next to the provider
+  note?: string;
+}
+
+const formatAmount = (amount: number): string =>
+  amount >= 0.0001 ? amount.toFixed(4) : amount.toPrecision(2);
+
+export function RouteBreakdown({ route, symbolFor, note }: RouteBreakdownProps) {
+  return (
+    <div className="text-xs text-gray-500 space-y-0.5">
+      <div>
+        {route.provider ? `via ${route.provider}` : 'route'}
+        {route.hops.length > 0 && `: ${getRouteVenues(route).join(' → ')}`}
+        {` · ${route.priceImpactPct.toFixed(2)}% impact`}
+        {note && ` (${note})`}
+      </div>
+      {route.hops.map((hop, index) => (
+        <div key={`${hop.ammKey}-${index}`} className="pl-2">
+          {hop.percent < 100 && `${hop.percent}% `}
+          {hop.label}: {symbolFor(hop.inputMint)} → {symbolFor(hop.outputMint)}
+          {hop.feeAmount !== undefined && hop.feeAmount > 0 && ` · fee ${formatAmount(hop.feeAmount)} ${symbolFor(hop.feeMint)}`}
+        </div>
+      ))}
+      {route.platformFeeBps !== undefined && (
+        <div className="pl-2">
+          platform fee {(route.platformFeeBps / 100).toFixed(2)}%
+          {route.platformFeeAmount !== undefined && ` · ${formatAmount(route.platformFeeAmount)}`}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useState } from 'react';
+import { Activity, ChevronDown, ChevronUp } from 'lucide-react';
+import { useRpcHealth } from '../hooks/useRpcHealth';
+import { useRpcSettings } from '../hooks/useRpcSettings';
+import { isValidEndpoint } from '../lib/rpcManager';
+import { CircuitState, EndpointHealth } from '../types/rpc';
+
+const CIRCUIT_COLORS: Record<CircuitState, string> = {
+  closed: 'text-green-400',
+  'half-open': 'text-yellow-400',
+  open: 'text-red-400',
+};
+
+const renderEndpoint = (endpoint: EndpointHealth, index: number) => (
+  <div key={index} className="border border-gray-700 rounded-lg p-3 space-y-1">
+    <div className="flex justify-between">
+      <span>
+        {endpoint.name}
+        {endpoint.pool === 'das' && <span className="text-xs text-gray-500"> · das</span>}
+      </span>
+      <span className={CIRCUIT_COLORS[endpoint.circuit]}>
+        {endpoint.circuit === 'closed' ? 'healthy' : endpoint.circuit}
+      </span>
+    </div>
+    <div className="flex justify-between text-xs text-gray-400">
+      <span>
+        {endpoint.latencyMs === null ? 'no calls yet' : `${endpoint.latencyMs}ms`}
+        {endpoint.samples > 0 && ` · ${(endpoint.errorRate * 100).toFixed(0)}% errors over ${endpoint.samples} calls`}
+      </span>
+      <span>
+        {endpoint.slotLag === null ? 'slot unknown' : endpoint.slotLag === 0 ? 'at tip' : `${endpoint.slotLag} slots behind`}
+      </span>
+    </div>
+    {endpoint.retryAt && (
+      <div className="text-xs text-gray-500">
+        probing again at {new Date(endpoint.retryAt).toLocaleTimeString()}
+      </div>
+    )}
+    {endpoint.unsupportedMethods.length > 0 && (
+      <div className="text-xs text-gray-500">
+        not used for {endpoint.unsupportedMethods.join(', ')}
+      </div>
+    )}
+    {endpoint.lastError && endpoint.circuit !== 'closed' && (
+      <div className="text-xs text-red-300 truncate" title={endpoint.lastError}>
+        {endpoint.lastError}
+      </div>
+    )}
+  </div>
+);
+
+// mounted only while the panel is open, so slots are not probed otherwise
+function EndpointList() {
+  const { health } = useRpcHealth();
+
+  return (
+    <div className="space-y-3 text-sm">
+      {health.map(renderEndpoint)}
+    </div>
+  );
+}
+
+const parseEndpoints = (text: string): string[] =>
+  text.split('\n').map(line => line.trim()).filter(Boolean);
+
+// changes apply to every connection immediately and are kept on this device
+function RpcSettingsForm() {
+  const { settings, saveSettings, resetSettings } = useRpcSettings();
+  const [endpoints, setEndpoints] = useState(settings.endpoints.join('\n'));
+  const [dasEndpoints, setDasEndpoints] = useState(settings.dasEndpoints.join('\n'));
+  const [broadcastSends, setBroadcastSends] = useState(settings.broadcastSends);
+  const [error, setError] = useState('');
+
+  const handleSave = () => {
+    const next = {
+      endpoints: parseEndpoints(endpoints),
+      dasEndpoints: parseEndpoints(dasEndpoints),
+      broadcastSends,
+    };
+    const invalid = [...next.endpoints, ...next.dasEndpoints].filter(endpoint => !isValidEndpoint(endpoint));
+    if (invalid.length > 0) {
+      setError(`not a valid rpc url: ${invalid[0]}`);
+      return;
+    }
+    setError('');
+    saveSettings(next);
+  };
+
+  const handleReset = () => {
+    resetSettings();
+    setError('');
+  };
+
+  return (
+    <div className="space-y-3 text-sm border-t border-gray-700 pt-4">
+      <label className="block space-y-1">
+        <span className="text-xs text-gray-400">rpc endpoints, one per line (public mainnet if empty)</span>
+        <textarea
+          value={endpoints}
+          onChange={(e) => setEndpoints(e.target.value)}
+          rows={3}
+          className="w-full bg-gray-800 border border-gray-600 rounded p-2 text-xs mono"
+        />
+      </label>
+      <label className="block space-y-1">
+        <span className="text-xs text-gray-400">das endpoints for token metadata and prices</span>
+        <textarea
+          value={dasEndpoints}
+          onChange={(e) => setDasEndpoints(e.target.value)}
+          rows={2}
+          className="w-full bg-gray-800 border border-gray-600 rounded p-2 text-xs mono"
+        />
+      </label>
+      <label className="flex items-center space-x-2 text-xs text-gray-300">
+        <input
+          type="checkbox"
+          checked={broadcastSends}
+          onChange={(e) => setBroadcastSends(e.target.checked)}
+        />
+        <span>send transactions through every healthy endpoint</span>
+      </label>
+      {error && <div className="text-xs text-red-400">{error}</div>}
+      <div className="flex space-x-2">
+        <button
+          onClick={handleSave}
+          className="bg-gray-600 hover:bg-gray-700 px-3 py-1 rounded text-xs"
+        >
+          save
+        </button>
+        <button
+          onClick={handleReset}
+          className="bg-gray-800 hover:bg-gray-700 px-3 py-1 rounded text-xs"
+        >
+          reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function RpcStatusPanel() {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="bg-gray-900/40 border border-gray-700 rounded-none sm:rounded-2xl p-4 sm:p-6 space-y-4 sm:space-y-6 -mx-4 sm:mx-0">
+      <button
+        onClick={() => setOpen(!open)}
+        className="ml-5 flex items-center space-x-3 w-full text-left"
+      >
+        <div className="p-2 bg-gray-800/70 rounded-lg">
+          <Activity className="h-5 w-5 text-gray-300" />
+        </div>
+        <h3 className="text-lg font-semibold flex-1">rpc</h3>
+        {open ? <ChevronUp className="h-4 w-4 mr-5" /> : <ChevronDown className="h-4 w-4 mr-5" />}
+      </button>
+      {open && (
+        <>
+          <EndpointList />
+          <RpcSettingsForm />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { Clock, Pause, Play, X } from 'lucide-react';
+import { SwapSchedule } from '../types/schedule';
+import { getNextSlice } from '../lib/swap/schedule';
+
+interface SchedulePanelProps {
+  schedules: SwapSchedule[];
+  busy: boolean;
+  onPause: (scheduleId: string) => void;
+  onResume: (scheduleId: string) => void;
+  onCancel: (scheduleId: string) => void;
+  onReleaseNonces: (schedule: SwapSchedule) => void;
+}
+
+const formatWindow = (windowMs: number): string => {
+  const hours = windowMs / 3600000;
+  return hours >= 1 ? `${Number(hours.toFixed(1))}h` : `${Math.round(windowMs / 60000)}m`;
+};
+
+export function SchedulePanel({
+  schedules,
+  busy,
+  onPause,
+  onResume,
+  onCancel,
+  onReleaseNonces,
+}: SchedulePanelProps) {
+  // finished schedules stay listed only while their nonce rent is unclaimed
+  const visible = schedules.filter(schedule =>
+    schedule.status === 'active' ||
+    schedule.status === 'paused' ||
+    (schedule.execution === 'presigned' && schedule.nonceAccounts?.length && !schedule.noncesReleased),
+  );
+
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="ml-3 mr-3 mb-4 p-3 bg-gray-700/50 border border-gray-600 rounded-lg space-y-3 text-xs">
+      <div className="flex items-center space-x-2">
+        <Clock className="h-3 w-3 sm:h-4 sm:w-4" />
+        <h4 className="font-medium text-m sm:text-base">scheduled liquidations</h4>
+      </div>
+
+      {visible.map(schedule => {
+        const done = schedule.slices.filter(slice => slice.status === 'done').length;
+        const failed = schedule.slices.filter(slice => slice.status === 'failed').length;
+        const soldUsd = schedule.slices.reduce((sum, slice) => sum + (slice.valueUsd ?? 0), 0);
+        const next = getNextSlice(schedule);
+        const isOpen = schedule.status === 'active' || schedule.status === 'paused';
+
+        return (
+          <div key={schedule.scheduleId} className="space-y-1 border-t border-gray-600 pt-2 first-of-type:border-t-0 first-of-type:pt-0">
+            <div className="flex justify-between">
+              <span className="lowercase">
+                {schedule.liquidationPct}% of {schedule.tokens.length} tokens → {schedule.outputs.map(output => output.symbol).join(', ')}
+              </span>
+              <span className={schedule.status === 'active' ? 'text-green-400' : 'text-gray-400'}>
+                {schedule.status}
+              </span>
+            </div>
+            <div className="flex justify-between text-gray-400">
+              <span>
+                {done}/{schedule.slices.length} slices over {formatWindow(schedule.windowMs)}
+                {failed > 0 && `, ${failed} failed`}
+                {schedule.execution === 'presigned' && ', presigned'}
+              </span>
+              <span>${soldUsd.toFixed(2)} sold</span>
+            </div>
+            {isOpen && next && (
+              <div className="text-gray-500">
+                next slice {schedule.status === 'paused' ? 'when resumed' : new Date(next.scheduledAt).toLocaleString()}
+              </div>
+            )}
+            <div className="flex space-x-2 pt-1">
+              {schedule.status === 'active' && (
+                <button
+                  onClick={() => onPause(schedule.scheduleId)}
+                  className="bg-gray-600 hover:bg-gray-700 px-2 py-1 rounded flex items-center space-x-1 mobile-optimized"
+                >
+                  <Pause className="h-3 w-3" />
+                  <span>pause</span>
+                </button>
+              )}
+              {schedule.status === 'paused' && (
+                <button
+                  onClick={() => onResume(schedule.scheduleId)}
+                  className="bg-gray-600 hover:bg-gray-700 px-2 py-1 rounded flex items-center space-x-1 mobile-optimized"
+                >
+                  <Play className="h-3 w-3" />
+                  <span>resume</span>
+                </button>
+              )}
+              {isOpen && (
+                <button
+                  onClick={() => onCancel(schedule.scheduleId)}
+                  disabled={busy}
+                  className="bg-gray-600 hover:bg-red-700 disabled:opacity-50 px-2 py-1 rounded flex items-center space-x-1 mobile-optimized"
+                >
+                  <X className="h-3 w-3" />
+                  <span>cancel</span>
+                </button>
+              )}
+              {!isOpen && (
+                <button
+                  onClick={() => onReleaseNonces(schedule)}
+                  disabled={busy}
+                  className="bg-yellow-600 hover:bg-yellow-700 disabled:opacity-50 px-2 py-1 rounded mobile-optimized"
+                  title="closes the nonce accounts and returns their rent"
+                >
+                  release {schedule.nonceAccounts?.length} nonce accounts
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -11,7 +11,7 @@ import {
   Legend,
   ChartOptions,
 } from 'chart.js';
-import { HistorySummaryPoint } from '../types/history';
+import { HistorySummaryPoint, SwapBatchType } from '../types/history';
 import { Flame, DollarSign, Calendar, ArrowRightLeft, TrendingDown, Package, ChevronDown, Activity, Coins, RefreshCw } from 'lucide-react';
 
 ChartJS.register(
@@ -27,9 +27,70 @@ interface SellIndicator {
   valueUsd: number;
   token: string;
   outputToken?: string | { mint: string; symbol?: string };
-  type?: 'liquidation' | 'swap';
+  outputSymbol?: string;
+  outputValueUsd?: number;
+  type?: SwapBatchType;
 }
 
+const getMonochromeColors = (count: number) => {
+  const colorPalette = [
+    'rgba(255, 255, 255, 0.9)',
+    'rgba(229, 231, 235, 0.9)',
+    'rgba(209, 213, 219, 0.9)',
+    'rgba(156, 163, 175, 0.9)',
+    'rgba(107, 114, 128, 0.9)',
+    'rgba(75, 85, 99, 0.9)',
+    'rgba(55, 65, 81, 0.9)',
+    'rgba(31, 41, 55, 0.9)',
+  ];
+
+  return colorPalette.slice(0, count);
+};
+
+const createPieData = (tokensByValue: { token: string; totalValue: number; count: number }[]) => {
+  if (tokensByValue.length === 0) {
+    return {
+      labels: ['No Data'],
+      datasets: [
+        {
+          data: [1],
+          backgroundColor: ['rgba(156, 163, 175, 0.9)'],
+          borderColor: 'rgba(0, 0, 0, 0.8)',
+          borderWidth: 2,
+        },
+      ],
+    };
+  }
+
+  const topTokens = tokensByValue.slice(0, 6);
+  const others = tokensByValue.slice(6);
+  
+  const othersTotal = others.reduce((sum, token) => sum + token.totalValue, 0);
+
+  const labels = topTokens.map(token => token.token);
+  const data = topTokens.map(token => token.totalValue);
+
+  if (othersTotal > 0) {
+    labels.push('others');
+    data.push(othersTotal);
+  }
+
+  return {
+    labels,
+    datasets: [
+      {
+        data,
+        backgroundColor: getMonochromeColors(labels.length),
+        borderColor: 'rgba(0, 0, 0, 0.8)',
+        borderWidth: 2,
+        hoverBorderColor: 'rgba(255, 255, 255, 0.9)',
+        hoverBorderWidth: 3,
+        hoverOffset: 12,
+      },
+    ],
+  };
+};
+
 interface SwapHistoryChartProps {
   summary?: HistorySummaryPoint[];
   sellIndicators: SellIndicator[];
@@ -44,9 +105,9 @@ export function SwapHistoryChart({
   const [isExpanded, setIsExpanded] = useState(true);
   const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
 
-  const { liquidations, proRataSwaps } = useMemo(() => {
+  const { liquidations, proRataSwaps, rebalances } = useMemo(() => {
     if (!sellIndicators || !Array.isArray(sellIndicators)) {
-      return { liquidations: [], proRataSwaps: [] };
+      return { liquidations: [], proRataSwaps: [], rebalances: [] };
     }
 
     const validIndicators = sellIndicators.filter(indicator => 
@@ -56,7 +117,10 @@ export function SwapHistoryChart({
       indicator.token
     );
 
+    const rebalances = validIndicators.filter(indicator => indicator.type === 'rebalance');
+
     const liquidations = validIndicators.filter(indicator => {
+      if (indicator.type === 'rebalance') return false;
       let outputTokenMint: string | undefined;
       
       if (typeof indicator.outputToken === 'string') {
@@ -71,6 +135,7 @@ export function SwapHistoryChart({
     });
 
     const proRataSwaps = validIndicators.filter(indicator => {
+      if (indicator.type === 'rebalance') return false;
       let outputTokenMint: string | undefined;
       
       if (typeof indicator.outputToken === 'string') {
@@ -83,24 +148,27 @@ export function SwapHistoryChart({
              (outputTokenMint && outputTokenMint !== USDC_MINT);
     });
 
-    return { liquidations, proRataSwaps };
+    return { liquidations, proRataSwaps, rebalances };
   }, [sellIndicators]);
 
   const combinedStats = useMemo(() => {
     const totalLiquidated = liquidations.reduce((sum, indicator) => sum + indicator.valueUsd, 0);
     const totalSwapped = proRataSwaps.reduce((sum, indicator) => sum + indicator.valueUsd, 0);
-    const totalValue = totalLiquidated + totalSwapped;
-    const totalTransactions = liquidations.length + proRataSwaps.length;
+    const totalRebalanced = rebalances.reduce((sum, indicator) => sum + indicator.valueUsd, 0);
+    const totalValue = totalLiquidated + totalSwapped + totalRebalanced;
+    const totalTransactions = liquidations.length + proRataSwaps.length + rebalances.length;
 
     return {
       totalLiquidated,
       totalSwapped,
+      totalRebalanced,
       totalValue,
       totalTransactions,
       liquidationCount: liquidations.length,
       swapCount: proRataSwaps.length,
+      rebalanceCount: rebalances.length,
     };
-  }, [liquidations, proRataSwaps]);
+  }, [liquidations, proRataSwaps, rebalances]);
 
   const liquidationStats = useMemo(() => {
     const totalLiquidated = liquidations.reduce((sum, indicator) => sum + indicator.valueUsd, 0);
@@ -172,64 +240,33 @@ export function SwapHistoryChart({
     };
   }, [proRataSwaps]);
 
-  const getMonochromeColors = (count: number) => {
-    const colorPalette = [
-      'rgba(255, 255, 255, 0.9)',
-      'rgba(229, 231, 235, 0.9)',
-      'rgba(209, 213, 219, 0.9)',
-      'rgba(156, 163, 175, 0.9)',
-      'rgba(107, 114, 128, 0.9)',
-      'rgba(75, 85, 99, 0.9)',
-      'rgba(55, 65, 81, 0.9)',
-      'rgba(31, 41, 55, 0.9)',
-    ];
-
-    return colorPalette.slice(0, count);
-  };
-
-  const createPieData = (tokensByValue: { token: string; totalValue: number; count: number }[]) => {
-    if (tokensByValue.length === 0) {
-      return {
-        labels: ['No Data'],
-        datasets: [
-          {
-            data: [1],
-            backgroundColor: ['rgba(156, 163, 175, 0.9)'],
-            borderColor: 'rgba(0, 0, 0, 0.8)',
-            borderWidth: 2,
-          },
-        ],
-      };
-    }
-
-    const topTokens = tokensByValue.slice(0, 6);
-    const others = tokensByValue.slice(6);
-    
-    const othersTotal = others.reduce((sum, token) => sum + token.totalValue, 0);
-
-    const labels = topTokens.map(token => token.token);
-    const data = topTokens.map(token => token.totalValue);
-
-    if (othersTotal > 0) {
-      labels.push('others');
-      data.push(othersTotal);
-    }
+  // proceeds grouped by the token they were received in, so split batches
+  // show how much landed in each output
+  const outputStats = useMemo(() => {
+    const tokenStats = [...liquidations, ...proRataSwaps, ...rebalances].reduce((acc, indicator) => {
+      const outputMint = typeof indicator.outputToken === 'string'
+        ? indicator.outputToken
+        : indicator.outputToken?.mint;
+      const outputKey = indicator.outputSymbol
+        ?? (typeof indicator.outputToken === 'object' ? indicator.outputToken.symbol : undefined)
+        ?? (!outputMint || outputMint === USDC_MINT ? 'USDC' : `${outputMint.slice(0, 4)}...`);
+
+      if (!acc[outputKey]) {
+        acc[outputKey] = {
+          token: outputKey,
+          totalValue: 0,
+          count: 0,
+        };
+      }
+      acc[outputKey].totalValue += indicator.outputValueUsd ?? indicator.valueUsd;
+      acc[outputKey].count += 1;
+      return acc;
+    }, {} as Record<string, { token: string; totalValue: number; count: number }>);
 
     return {
-      labels,
-      datasets: [
-        {
-          data,
-          backgroundColor: getMonochromeColors(labels.length),
-          borderColor: 'rgba(0, 0, 0, 0.8)',
-          borderWidth: 2,
-          hoverBorderColor: 'rgba(255, 255, 255, 0.9)',
-          hoverBorderWidth: 3,
-          hoverOffset: 12,
-        },
-      ],
+      tokensByValue: Object.values(tokenStats).sort((a, b) => b.totalValue - a.totalValue),
     };
-  };
+  }, [liquidations, proRataSwaps, rebalances, USDC_MINT]);
 
   const liquidationPieData = useMemo(() => 
     createPieData(liquidationStats.tokensByValue), 
@@ -241,6 +278,11 @@ export function SwapHistoryChart({
     [swapStats.tokensByValue]
   );
 
+  const outputPieData = useMemo(() =>
+    createPieData(outputStats.tokensByValue),
+    [outputStats.tokensByValue]
+  );
+
   const pieChartOptions: ChartOptions<'pie'> = useMemo(
     () => ({
       responsive: true,
@@ -418,6 +460,11 @@ export function SwapHistoryChart({
               <div className="text-lg sm:text-xl font-bold text-white">
                 {combinedStats.totalTransactions}
               </div>
+              {combinedStats.rebalanceCount > 0 && (
+                <div className="text-xs text-gray-400 mt-1">
+                  {combinedStats.rebalanceCount} rebalance trade{combinedStats.rebalanceCount !== 1 ? 's' : ''} • ${combinedStats.totalRebalanced.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                </div>
+              )}
             </div>
 
             <div className="bg-gray-900 border border-gray-700 rounded-lg sm:rounded-xl p-3 sm:p-4 hover:border-gray-500 transition-colors">
@@ -473,6 +520,26 @@ export function SwapHistoryChart({
             )}
           </div>
 
+          {/* Proceeds by Output */}
+          {outputStats.tokensByValue.length > 1 && (
+            <div className="bg-gray-900 border border-gray-700 rounded-lg sm:rounded-xl p-4 sm:p-6 hover:border-gray-500 transition-colors">
+              <div className="flex items-center space-x-3 mb-4">
+                <div className="p-2 bg-white/10 rounded-lg border border-gray-600">
+                  <Package className="h-5 w-5 text-white" />
+                </div>
+                <h3 className="text-base font-bold text-white">proceeds by output</h3>
+              </div>
+              <div className="h-64">
+                <Pie data={outputPieData} options={pieChartOptions} />
+              </div>
+              <div className="mt-3 text-center">
+                <span className="text-xs font-medium text-gray-400 bg-gray-800 px-3 py-1 rounded-full border border-gray-600">
+                  received in {outputStats.tokensByValue.length} output tokens
+                </span>
+              </div>
+            </div>
+          )}
+
           {/* Recent Transactions */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
             {/* Recent Liquidations */}
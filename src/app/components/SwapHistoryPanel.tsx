@@ -177,13 +177,33 @@ export function SwapHistoryPanel() {
                     : 'bg-yellow-500/20 text-yellow-200'
                 }`}
               >
-                {record.status}
+                {record.type === 'rebalance' ? `rebalance • ${record.status}` : record.status}
               </span>
             </div>
             <div className="text-xs text-gray-400">
               {record.tokensIn.length} token
-              {record.tokensIn.length !== 1 ? 's' : ''} → {record.outputToken.symbol}
+              {record.tokensIn.length !== 1 ? 's' : ''} →{' '}
+              {record.outputTokens?.length
+                ? record.outputTokens
+                    .map(output => `${output.symbol} ${output.weight.toFixed(0)}%`)
+                    .join(', ')
+                : record.outputToken?.symbol}
             </div>
+            {(record.outputTokens?.length ?? 0) > 1 && (
+              <div className="space-y-1">
+                {record.outputTokens.map(output => (
+                  <div key={output.mint} className="flex items-center justify-between text-xs text-gray-300">
+                    <span>{output.amountOut.toFixed(4)} {output.symbol}</span>
+                    <span>
+                      ${output.valueUsdOut.toLocaleString(undefined, {
+                        minimumFractionDigits: 2,
+                        maximumFractionDigits: 2,
+                      })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="flex items-center justify-between text-sm text-white">
               <span>
                 ${record.totals.valueUsdIn.toLocaleString(undefined, {
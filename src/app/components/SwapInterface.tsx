@@ -2,11 +2,59 @@
 
 import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
-import { VersionedTransaction } from '@solana/web3.js';
-import { TokenBalance } from '../types/token';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { PriceCheck, TokenBalance } from '../types/token';
 import { TokenService } from '../lib/api';
-import { SwapBatchRecord, SwapTokenInput } from '../types/history';
+import { assessPriceConfidence, getConfirmedTokens } from '../lib/priceSources';
+import { SwapBatchOutput, SwapBatchRecord, SwapBundleRecord, SwapTokenInput } from '../types/history';
+import {
+  LegAssessment,
+  LegPreview,
+  OutputAllocation,
+  PersistedSwapBatch,
+  PersistedSwapLeg,
+  PresignedLeg,
+  PriorityFeeLevel,
+  PriorityFeeLevels,
+  PriorityFeeSettings,
+  ProRataToken,
+  SimulationReport,
+  SwapEngineEvent,
+  SwapGuardrails,
+  SwapResult,
+  TargetOutputPlan,
+} from '../types/swap';
+import { SwapEngine } from '../lib/swap/engine';
+import { planProRata } from '../lib/swap/planner';
+import { swapBatchStore } from '../lib/swap/batchStore';
+import { DEFAULT_GUARDRAILS } from '../lib/swap/guardrails';
+import { getBatchProgress, getBatchResults, getLegOutput, reconcileBatch } from '../lib/swap/recovery';
+import { getLegKey, groupByOutput, normalizeAllocations, routeToOutputs, splitLegAcross } from '../lib/swap/outputs';
+import { planRebalance } from '../lib/swap/rebalance';
+import { useRebalanceTemplates } from '../hooks/useRebalanceTemplates';
+import { useRouteConstraints } from '../hooks/useRouteConstraints';
+import { describeRouteConstraints, fetchDexLabels, hasRouteConstraints } from '../lib/swap/routing';
+import { DEFAULT_PRIORITY_FEES, PriorityFeeEstimator, estimatePriorityFeeLamports } from '../lib/swap/priorityFees';
+import { RebalanceTarget } from '../types/rebalance';
+import { RebalanceEditor } from './RebalanceEditor';
+import { RouteBreakdown } from './RouteBreakdown';
+import { SchedulePanel } from './SchedulePanel';
+import { useSwapSchedules } from '../hooks/useSwapSchedules';
+import { ScheduledSlice, SwapSchedule } from '../types/schedule';
+import {
+  SliceOutcome,
+  buildPresignedSlices,
+  buildSliceLegs,
+  createSchedule,
+  markNoncesReleased,
+} from '../lib/swap/schedule';
+import { buildCreateNonceTransactions, buildReleaseNonceTransactions, fetchDurableNonces } from '../lib/swap/durableNonce';
+import { presignedSliceStore } from '../lib/swap/presignedStore';
+import { createOrder, describeOrder } from '../lib/swap/orders';
+import { OrderExecutor, useLiquidationOrders } from '../contexts/ordersContext';
+import { OrderKind, OrderOutcome } from '../types/orders';
 import { encryptionService } from '../lib/encryption';
+import { getNetUiAmount, getTransferBlockReason } from '../lib/tokenExtensions';
 import { ArrowUpDown, Calculator, AlertCircle, ExternalLink, RefreshCw, DollarSign, ShoppingCart, Shield, ChevronDown, Search, X, ExternalLinkIcon, Copy } from 'lucide-react';
 
 interface SwapInterfaceProps {
@@ -21,51 +69,6 @@ const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
 const SOL_MINT = 'So11111111111111111111111111111111111111112';
 const HISTORY_ENABLED = process.env.NEXT_PUBLIC_ENABLE_HISTORY === 'true';
 
-interface SwapResult {
-  symbol: string;
-  mint: string;
-  decimals: number;
-  signature?: string;
-  amount: number;
-  error?: string;
-  inputAmount: number;
-  outputAmount?: number;
-  retryCount?: number;
-  priceUsd?: number;
-  outputUsd?: number;
-  quoteImprovementPct?: number;
-}
-
-interface ProRataToken extends TokenBalance {
-  swapAmount: number;
-  percentage: number;
-  liquidationAmount: number;
-  originalAmount: number;
-}
-
-interface JupiterQuoteResponse {
-  outAmount: string;
-  priceImpactPct?: string;
-  routePlan?: unknown[];
-  [key: string]: unknown;
-}
-
-interface QuoteComparison {
-  quote: JupiterQuoteResponse;
-  outAmount: number;
-  index: number;
-}
-
-interface QuoteSelectionResult {
-  quote: JupiterQuoteResponse;
-  improvementPct?: number;
-}
-
-interface JupiterSwapResponse {
-  swapTransaction: string;
-  [key: string]: unknown;
-}
-
 export function SwapInterface({ 
   selectedTokens, 
   totalSelectedValue,
@@ -74,11 +77,12 @@ export function SwapInterface({
   onOutputTokenChange
 }: SwapInterfaceProps) {
   const { connection } = useConnection();
-  const { publicKey, signTransaction, sendTransaction, wallet } = useWallet();
+  const { publicKey, signTransaction, signAllTransactions, sendTransaction, wallet } = useWallet();
 
   const [isClient, setIsClient] = useState(false);
   
   const [outputToken, setOutputToken] = useState(USDC_MINT);
+  const [extraOutputs, setExtraOutputs] = useState<OutputAllocation[]>([]);
   const [showTokenSelector, setShowTokenSelector] = useState(false);
   const tokenSelectorRef = useRef<HTMLDivElement>(null);
   const [searchQuery, setSearchQuery] = useState('');
@@ -177,11 +181,53 @@ export function SwapInterface({
 
   const [slippage, setSlippage] = useState(1.0);
   const [liquidationPercentage, setLiquidationPercentage] = useState<number>(100);
+  const [liquidationMode, setLiquidationMode] = useState<'percentage' | 'target' | 'rebalance'>('percentage');
+  const [rebalanceTargets, setRebalanceTargets] = useState<RebalanceTarget[]>([]);
+  const [driftBandPct, setDriftBandPct] = useState(2);
+  const { templates: rebalanceTemplates, saveTemplate, deleteTemplate } = useRebalanceTemplates();
+  const [targetOutput, setTargetOutput] = useState('');
+  const [targetPlan, setTargetPlan] = useState<{ key: string; plan: TargetOutputPlan } | null>(null);
+  const [planningTarget, setPlanningTarget] = useState(false);
   const [swapping, setSwapping] = useState(false);
   const [error, setError] = useState<string>('');
   const [currentStep, setCurrentStep] = useState<string>('');
   const [swapResults, setSwapResults] = useState<SwapResult[]>([]);
+  const [legSimulations, setLegSimulations] = useState<Record<string, SimulationReport>>({});
+  const [legStatus, setLegStatus] = useState<Record<string, string>>({});
+  const [batchSigning, setBatchSigning] = useState(true);
+  const [useJitoBundles, setUseJitoBundles] = useState(false);
+  const [jitoTipLamports, setJitoTipLamports] = useState(10000);
+  const [priorityFees, setPriorityFees] = useState<PriorityFeeSettings>(DEFAULT_PRIORITY_FEES);
+  const [feeLevels, setFeeLevels] = useState<PriorityFeeLevels | null>(null);
+  const [priceChecks, setPriceChecks] = useState<Record<string, PriceCheck>>({});
+  const [priceOverrides, setPriceOverrides] = useState<string[]>([]);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const batchRef = useRef<PersistedSwapBatch | null>(null);
+  const [interruptedBatch, setInterruptedBatch] = useState<PersistedSwapBatch | null>(null);
+  const [guardrails, setGuardrails] = useState<SwapGuardrails>(DEFAULT_GUARDRAILS);
+  const [legPreviews, setLegPreviews] = useState<{ key: string; previews: Record<string, LegPreview> } | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [pendingBreach, setPendingBreach] = useState<{ token: ProRataToken; assessment: LegAssessment } | null>(null);
+  const [liquidationTiming, setLiquidationTiming] = useState<'now' | 'schedule' | 'order'>('now');
+  const [sliceCount, setSliceCount] = useState(12);
+  const [windowHours, setWindowHours] = useState(48);
+  const [presignSlices, setPresignSlices] = useState(false);
+  const [orderKind, setOrderKind] = useState<OrderKind>('stop-loss');
+  const [orderThresholdUsd, setOrderThresholdUsd] = useState('');
+  const [orderExpiryHours, setOrderExpiryHours] = useState(24);
+  const { constraints: routeConstraints, updateConstraints: updateRouteConstraints, resetConstraints: resetRouteConstraints } = useRouteConstraints();
+  const [dexLabels, setDexLabels] = useState<string[]>([]);
+  const [dexQuery, setDexQuery] = useState('');
+
+  // the dex list is only needed once advanced settings are open
+  useEffect(() => {
+    if (!showAdvanced || dexLabels.length > 0) return;
+    fetchDexLabels()
+      .then(setDexLabels)
+      .catch(error => console.warn('failed to load dex labels:', error));
+  }, [showAdvanced, dexLabels.length]);
+  const breachResolverRef = useRef<((approved: boolean) => void) | null>(null);
+  const feeEstimator = useMemo(() => new PriorityFeeEstimator(connection), [connection]);
 
   const isLedgerConnected = useMemo(() => {
     return wallet?.adapter?.name?.toLowerCase().includes('ledger');
@@ -189,7 +235,6 @@ export function SwapInterface({
 
   const tokenService = TokenService.getInstance();
 
-  const liquidationValue = (totalSelectedValue * liquidationPercentage) / 100;
 
   const sortedOutputTokens = useMemo(() => {
     const stickyTokens: TokenBalance[] = [];
@@ -231,6 +276,143 @@ export function SwapInterface({
 
   const outputTokenSymbol = outputTokenInfo?.symbol || 'USDC';
 
+  const configuredOutputMints = useMemo(
+    () => [outputToken, ...extraOutputs.map(output => output.mint)],
+    [outputToken, extraOutputs],
+  );
+
+  // rebalancing sizes every targeted holding, the other modes the selection
+  // minus the tokens it is sold into
+  const checkedTokens = useMemo(
+    () => liquidationMode === 'rebalance'
+      ? allTokens.filter(token => rebalanceTargets.some(target => target.mint === token.mint))
+      : selectedTokens.filter(token => !configuredOutputMints.includes(token.mint)),
+    [liquidationMode, allTokens, rebalanceTargets, selectedTokens, configuredOutputMints],
+  );
+
+  // the parent hands over a new selection on every render, so the check is
+  // only rerun when the mints or their prices change
+  const checkKey = checkedTokens.map(token => `${token.mint}:${token.price ?? 0}`).sort().join(',');
+  const [checkRequest, setCheckRequest] = useState<{ key: string; tokens: TokenBalance[] }>({ key: '', tokens: [] });
+  if (checkRequest.key !== checkKey) {
+    setCheckRequest({ key: checkKey, tokens: checkedTokens });
+  }
+
+  const checkPrices = useCallback((tokens: TokenBalance[]) =>
+    tokenService.checkPriceConfidence(tokens).catch(error => {
+      console.warn('failed to check prices:', error);
+      // a price that could not be checked is treated as unverifiable
+      return tokens
+        .filter(token => (token.price ?? 0) > 0)
+        .map(token => assessPriceConfidence(token, []));
+    }),
+  [tokenService]);
+
+  // every selected price is cross-checked before it can size a leg
+  useEffect(() => {
+    const tokens = checkRequest.tokens;
+    if (tokens.length === 0) return;
+    let cancelled = false;
+    checkPrices(tokens).then(checks => {
+      if (cancelled) return;
+      setPriceChecks(prev => ({ ...prev, ...Object.fromEntries(checks.map(check => [check.mint, check])) }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [checkRequest, checkPrices]);
+
+  // a priced token waits out its check, and one made against an older price
+  // no longer applies
+  const uncheckedMints = useMemo(
+    () => checkedTokens
+      .filter(token => (token.price ?? 0) > 0 && priceChecks[token.mint]?.price !== token.price)
+      .map(token => token.mint),
+    [checkedTokens, priceChecks],
+  );
+
+  const flaggedPrices = useMemo(
+    () => checkedTokens
+      .map(token => priceChecks[token.mint])
+      .filter((check): check is PriceCheck => {
+        const token = check && checkedTokens.find(candidate => candidate.mint === check.mint);
+        return Boolean(check?.lowConfidence && token && token.price === check.price);
+      }),
+    [checkedTokens, priceChecks],
+  );
+
+  // unchecked and flagged tokens are left out of sizing, the flagged ones
+  // until the user accepts their price
+  const heldMints = useMemo(() => {
+    const confirmed = getConfirmedTokens(checkedTokens, Object.values(priceChecks), priceOverrides);
+    return checkedTokens.filter(token => !confirmed.includes(token)).map(token => token.mint);
+  }, [checkedTokens, priceChecks, priceOverrides]);
+
+  const sizableTokens = useMemo(
+    () => heldMints.length > 0 ? selectedTokens.filter(token => !heldMints.includes(token.mint)) : selectedTokens,
+    [selectedTokens, heldMints],
+  );
+
+  // rebalancing works on the whole wallet rather than the table selection
+  const rebalancePlan = useMemo(
+    () => planRebalance(allTokens, rebalanceTargets, { driftBandPct, unconfirmedMints: heldMints }),
+    [allTokens, rebalanceTargets, driftBandPct, heldMints],
+  );
+
+  // the selected output takes whatever weight the extra outputs leave over.
+  // target mode sizes a single exact amount, so it only uses that output
+  const outputAllocations = useMemo(() => {
+    if (liquidationMode === 'rebalance') return rebalancePlan.outputs;
+
+    const extras = extraOutputs.filter(output => output.mint !== outputToken);
+    const primary: OutputAllocation = {
+      mint: outputToken,
+      symbol: outputTokenSymbol,
+      decimals: outputTokenInfo?.decimals || (outputToken === SOL_MINT ? 9 : 6),
+      weight: Math.max(0, 100 - extras.reduce((sum, output) => sum + output.weight, 0)),
+    };
+    return liquidationMode === 'target'
+      ? [{ ...primary, weight: 100 }]
+      : normalizeAllocations([primary, ...extras]);
+  }, [extraOutputs, outputToken, outputTokenSymbol, outputTokenInfo, liquidationMode, rebalancePlan]);
+
+  const outputCandidates = useMemo(() => {
+    const seen = new Set(configuredOutputMints);
+    return [...sortedOutputTokens, ...popularTokens].filter(token => {
+      if (seen.has(token.mint)) return false;
+      seen.add(token.mint);
+      return true;
+    });
+  }, [sortedOutputTokens, popularTokens, configuredOutputMints]);
+
+  const getOutputSymbol = (mint?: string): string =>
+    [...outputAllocations, ...(interruptedBatch?.outputs ?? [])].find(output => output.mint === mint)?.symbol
+      ?? outputTokenSymbol;
+
+  const getMintSymbol = (mint: string): string =>
+    allTokens.find(token => token.mint === mint)?.symbol
+      ?? [...outputAllocations, ...(interruptedBatch?.outputs ?? [])].find(output => output.mint === mint)?.symbol
+      ?? `${mint.slice(0, 4)}…`;
+
+  const addExtraOutput = (mint: string) => {
+    const token = outputCandidates.find(candidate => candidate.mint === mint);
+    if (!token) return;
+    setExtraOutputs(prev => [
+      ...prev,
+      { mint: token.mint, symbol: token.symbol, decimals: token.decimals, weight: 0 },
+    ]);
+  };
+
+  const setExtraOutputWeight = (mint: string, weight: number) => {
+    setExtraOutputs(prev => {
+      const others = prev
+        .filter(output => output.mint !== mint)
+        .reduce((sum, output) => sum + output.weight, 0);
+      const clamped = Math.min(Math.max(weight, 0), 100 - others);
+      return prev.map(output => (output.mint === mint ? { ...output, weight: clamped } : output));
+    });
+  };
+
   const searchTokens = async (query: string) => {
     if (!query.trim()) {
       setSearchResults([]);
@@ -269,68 +451,147 @@ export function SwapInterface({
     }
   };
 
-  const signTransactionUniversal = useCallback(async (transaction: VersionedTransaction, tokenSymbol: string): Promise<VersionedTransaction> => {
+  const toSigningError = useCallback((error: unknown): Error => {
+    console.error('transaction signing failed:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'unknown error occurred';
+
+    if (isLedgerConnected) {
+      if (errorMessage.includes('denied') || errorMessage.includes('rejected')) {
+        return new Error('transaction was rejected on your ledger device.');
+      } else if (errorMessage.includes('timeout')) {
+        return new Error('ledger signing timeout. please try again.');
+      } else if (errorMessage.includes('disconnected') || errorMessage.includes('not found')) {
+        return new Error('ledger device not found. please ensure your device is connected and the solana app is open.');
+      } else {
+        return new Error('ledger signing failed. please check your device and try again.');
+      }
+    }
+    return new Error(`transaction signing failed: ${errorMessage}`);
+  }, [isLedgerConnected]);
+
+  const signTransactionUniversal = useCallback(async (transaction: VersionedTransaction): Promise<VersionedTransaction> => {
     if (!signTransaction) {
       throw new Error('no signtransaction function available');
     }
 
     try {
-      setCurrentStep(isLedgerConnected 
-        ? `please confirm ${tokenSymbol} transaction on your ledger device...` 
-        : `confirm ${tokenSymbol} swap...`
-      );
-      
       const signedTransaction = await signTransaction(transaction);
       return signedTransaction;
-      
     } catch (error: unknown) {
-      console.error('transaction signing failed:', error);
-      
-      const errorMessage = error instanceof Error ? error.message : 'unknown error occurred';
-      
-      if (isLedgerConnected) {
-        if (errorMessage.includes('denied') || errorMessage.includes('rejected')) {
-          throw new Error('transaction was rejected on your ledger device.');
-        } else if (errorMessage.includes('timeout')) {
-          throw new Error('ledger signing timeout. please try again.');
-        } else if (errorMessage.includes('disconnected') || errorMessage.includes('not found')) {
-          throw new Error('ledger device not found. please ensure your device is connected and the solana app is open.');
-        } else {
-          throw new Error('ledger signing failed. please check your device and try again.');
-        }
-      } else {
-        throw new Error(`transaction signing failed: ${errorMessage}`);
-      }
+      throw toSigningError(error);
     }
-  }, [signTransaction, isLedgerConnected]);
+  }, [signTransaction, toSigningError]);
 
-  const calculateProRataAmounts = (): ProRataToken[] => {
-    const tokensToLiquidate = selectedTokens.filter(token => token.mint !== outputToken);
-    
-    const totalValueExcludingOutput = tokensToLiquidate.reduce((sum, token) => sum + (token.value || 0), 0);
-    
-    return tokensToLiquidate.map(token => {
-      const tokenValue = token.value || 0;
-      const tokenPercentageOfTotal = totalValueExcludingOutput > 0 ? tokenValue / totalValueExcludingOutput : 0;
-      
-      const adjustedLiquidationValue = (totalValueExcludingOutput * liquidationPercentage) / 100;
-      const tokenLiquidationValue = adjustedLiquidationValue * tokenPercentageOfTotal;
-      
-      const tokenPrice = token.price || 1;
-      const tokenAmountToSwap = tokenPrice > 0 ? tokenLiquidationValue / tokenPrice : 0;
-      
-      const finalSwapAmount = Math.min(tokenAmountToSwap, token.uiAmount);
-
-      return {
-        ...token,
-        swapAmount: finalSwapAmount,
-        percentage: tokenPercentageOfTotal * 100,
-        liquidationAmount: tokenLiquidationValue,
-        originalAmount: token.uiAmount
-      };
-    });
+  const signAllTransactionsUniversal = useCallback(async (transactions: VersionedTransaction[]): Promise<VersionedTransaction[]> => {
+    if (!signAllTransactions) {
+      throw new Error('no signalltransactions function available');
+    }
+
+    try {
+      return await signAllTransactions(transactions);
+    } catch (error: unknown) {
+      throw toSigningError(error);
+    }
+  }, [signAllTransactions, toSigningError]);
+
+  const proRataPlan = useMemo(() => planProRata(sizableTokens, {
+    excludeMints: configuredOutputMints,
+    percentage: liquidationPercentage,
+  }), [sizableTokens, configuredOutputMints, liquidationPercentage]);
+
+  const isExecutableLeg = useCallback((token: ProRataToken) =>
+    !configuredOutputMints.includes(token.mint) &&
+    getTransferBlockReason(token) === null &&
+    token.swapAmount > 0.000001 && 
+    token.liquidationAmount > 0.01
+  , [configuredOutputMints]);
+
+  const targetOutputAmount = parseFloat(targetOutput) || 0;
+
+  // a target plan is tied to the selection, output and slippage it was quoted for
+  const targetKey = useMemo(() => JSON.stringify({
+    outputToken,
+    slippage,
+    targetOutputAmount,
+    selection: sizableTokens.map(token => `${token.mint}:${token.rawAmount ?? token.uiAmount}:${token.price ?? 0}`),
+  }), [outputToken, slippage, targetOutputAmount, sizableTokens]);
+
+  const currentTargetPlan = liquidationMode === 'target' && targetPlan?.key === targetKey
+    ? targetPlan.plan
+    : null;
+
+  const executableLegs = useMemo(() => {
+    if (liquidationMode === 'target') {
+      return currentTargetPlan
+        ? currentTargetPlan.legs.filter(isExecutableLeg).map(leg => ({ ...leg, outputMint: outputToken }))
+        : [];
+    }
+    if (liquidationMode === 'rebalance') {
+      return rebalancePlan.legs.filter(leg =>
+        getTransferBlockReason(leg) === null &&
+        leg.swapAmount > 0.000001 &&
+        leg.liquidationAmount > 0.01,
+      );
+    }
+    return routeToOutputs(proRataPlan.legs.filter(isExecutableLeg), outputAllocations);
+  }, [liquidationMode, currentTargetPlan, proRataPlan, rebalancePlan, isExecutableLeg, outputToken, outputAllocations]);
+
+  // only what the plan actually sells, so held and blocked tokens are not counted
+  const liquidationValue = executableLegs.reduce((sum, token) => sum + token.liquidationAmount, 0);
+
+  // previews are only shown while they still describe the current plan
+  const previewKey = useMemo(() => JSON.stringify({
+    outputAllocations,
+    slippage,
+    guardrails,
+    routeConstraints,
+    legs: executableLegs.map(token => `${getLegKey(token)}:${token.rawSwapAmount ?? token.swapAmount}`),
+  }), [outputAllocations, slippage, guardrails, routeConstraints, executableLegs]);
+
+  const currentPreviews = legPreviews?.key === previewKey ? legPreviews.previews : null;
+
+  // once quotes are previewed, fees are sampled on the pools they route through
+  const feeAccounts = useMemo(
+    () => Object.values(currentPreviews ?? {}).flatMap(preview => preview.route?.hops.map(hop => hop.ammKey) ?? []),
+    [currentPreviews],
+  );
+
+  useEffect(() => {
+    if (!showAdvanced) return;
+    feeEstimator.getFeeLevels(feeAccounts)
+      .then(setFeeLevels)
+      .catch(error => console.warn('failed to estimate priority fees:', error));
+  }, [showAdvanced, feeEstimator, feeAccounts]);
+
+  const solPriceUsd = allTokens.find(token => token.mint === SOL_MINT)?.price || undefined;
+  const describeBatchFee = (computeUnitPrice: number): string => {
+    const lamports = estimatePriorityFeeLamports(computeUnitPrice) * Math.max(1, executableLegs.length);
+    const sol = lamports / 1e9;
+    return solPriceUsd ? `≈ $${(sol * solPriceUsd).toFixed(4)}` : `≈ ${sol.toFixed(6)} SOL`;
   };
 
+  const previewTotals = useMemo(() => {
+    if (!currentPreviews) return null;
+    const assessments = Object.values(currentPreviews)
+      .map(preview => preview.assessment)
+      .filter((assessment): assessment is LegAssessment => Boolean(assessment));
+
+    return {
+      outputUsd: assessments.reduce((sum, assessment) => sum + (assessment.quotedOutputUsd ?? 0), 0),
+      lossUsd: assessments.reduce((sum, assessment) => sum + Math.max(assessment.lossUsd ?? 0, 0), 0),
+      breaches: assessments.filter(assessment => assessment.breaches.length > 0).length,
+      priced: assessments.every(assessment => assessment.quotedOutputUsd !== undefined),
+    };
+  }, [currentPreviews]);
+
+  const transferWarnings = useMemo(() => {
+    return selectedTokens
+      .filter(token => !configuredOutputMints.includes(token.mint))
+      .map(token => getTransferBlockReason(token))
+      .filter((reason): reason is string => reason !== null);
+  }, [selectedTokens, configuredOutputMints]);
+
   const TokenLogo = ({ token, size = 8 }: { token?: TokenBalance; size?: number }) => {
   if (!token) {
     const logoClasses = size === 6 
@@ -370,120 +631,17 @@ export function SwapInterface({
   );
 };
 
-  const getFreshBlockhash = async () => {
-    try {
-      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
-      return { blockhash, lastValidBlockHeight };
-    } catch (err) {
-      console.error('failed to get fresh blockhash:', err);
-      throw new Error('unable to get fresh blockhash');
-    }
-  };
-
-  const fetchSingleQuote = async (
-    token: ProRataToken, 
-    attemptNumber: number = 0
-  ): Promise<JupiterQuoteResponse | null> => {
-    try {
-      const slippageBps = Math.floor(slippage * 100);
-      const rawAmount = Math.floor(token.swapAmount * Math.pow(10, token.decimals));
-
-      if (rawAmount <= 0) {
-        return null;
-      }
-
-      if (attemptNumber > 0) {
-        await new Promise(resolve => setTimeout(resolve, 100 * attemptNumber));
-      }
-
-      const quoteUrl = `https://lite-api.jup.ag/swap/v1/quote?` + new URLSearchParams({
-        inputMint: token.mint,
-        outputMint: outputToken,
-        amount: rawAmount.toString(),
-        slippageBps: slippageBps.toString(),
-        swapMode: 'ExactIn'
-      });
-
-      const response = await fetch(quoteUrl);
-      
-      if (!response.ok) {
-        if (response.status === 429) {
-          return null;
-        } else if (response.status === 400) {
-          return null;
-        } else {
-          return null;
-        }
-      }
-
-      const quoteData: JupiterQuoteResponse = await response.json();
-      
-      if (!quoteData || !quoteData.outAmount) {
-        return null;
-      }
-
-      return quoteData;
-
-    } catch (err) {
-      return null;
-    }
-  };
-
-  const getBestSwapQuote = async (token: ProRataToken): Promise<QuoteSelectionResult> => {
-    try {
-      setCurrentStep(`fetching best quote for ${token.symbol}...`);
-      
-      const quotePromises = Array.from({ length: 3 }, (_, i) => 
-        fetchSingleQuote(token, i)
-      );
-
-      const quotes = await Promise.all(quotePromises);
-      
-      const validQuotes: QuoteComparison[] = quotes
-        .filter((quote): quote is JupiterQuoteResponse => quote !== null)
-        .map((quote, index) => ({
-          quote,
-          outAmount: parseInt(quote.outAmount),
-          index
-        }));
-
-      if (validQuotes.length === 0) {
-        throw new Error(`no valid quotes found for ${token.symbol}`);
-      }
-
-      validQuotes.sort((a, b) => b.outAmount - a.outAmount);
-      const bestQuote = validQuotes[0];
-      const worstQuote = validQuotes[validQuotes.length - 1];
-      const improvementPct =
-        validQuotes.length > 1 && worstQuote.outAmount > 0
-          ? ((bestQuote.outAmount - worstQuote.outAmount) / worstQuote.outAmount) * 100
-          : undefined;
-      
-      if (validQuotes.length > 1) {
-}
-
-      return { quote: bestQuote.quote, improvementPct };
-
-    } catch (err) {
-      console.error(`quote comparison failed for ${token.symbol}:`, err);
-      const fallbackQuote = await fetchSingleQuote(token, 0);
-      if (!fallbackQuote) {
-        throw new Error(`failed to fetch quote for ${token.symbol}: ${err instanceof Error ? err.message : 'unknown error'}`);
-      }
-      return { quote: fallbackQuote };
-    }
-  };
-
-  const buildHistoryRecord = (
+  const buildHistoryRecord = useCallback((
   successfulSwaps: SwapResult[],
   status: 'success' | 'partial',
+  batch: PersistedSwapBatch,
 ): SwapBatchRecord | null => {
   if (!publicKey || successfulSwaps.length === 0 || !HISTORY_ENABLED) {
     return null;
   }
 
   const wallet = publicKey.toBase58();
-  const timestamp = Date.now();
+  const { batchId, timestamp } = batch;
   const hashedWallet = encryptionService.anonymizePublicKey(wallet);
 
   const tokensIn: SwapTokenInput[] = successfulSwaps.map((swap) => {
@@ -502,6 +660,15 @@ export function SwapInterface({
       outputAmount: swap.outputAmount,
       outputUsd: swap.outputUsd ?? swap.amount,
       quoteImprovementPct: swap.quoteImprovementPct,
+      quoteProvider: swap.quoteProvider,
+      ...(swap.route ? { route: swap.route } : {}),
+      quotedOutputAmount: swap.fill?.quotedOutput,
+      realizedSlippagePct: swap.fill?.realizedSlippagePct,
+      networkFeeLamports: swap.fill?.networkFeeLamports,
+      priorityFeeLamports: swap.fill?.priorityFeeLamports,
+      ...(swap.computeUnitPriceMicroLamports !== undefined
+        ? { computeUnitPriceMicroLamports: swap.computeUnitPriceMicroLamports }
+        : {}),
     };
   });
 
@@ -509,9 +676,10 @@ export function SwapInterface({
     (acc, token) => {
       acc.valueUsdIn += token.valueUsd;
       acc.valueUsdOut += token.outputUsd ?? token.valueUsd;
+      acc.feesLamports += token.networkFeeLamports ?? 0;
       return acc;
     },
-    { valueUsdIn: 0, valueUsdOut: 0 },
+    { valueUsdIn: 0, valueUsdOut: 0, feesLamports: 0 },
   );
 
   const improvementValues = successfulSwaps
@@ -527,23 +695,47 @@ export function SwapInterface({
         improvementValues.length
       : undefined;
 
+  const bundles = successfulSwaps.reduce<SwapBundleRecord[]>((acc, swap) => {
+    if (!swap.bundleId || !swap.signature) return acc;
+    const existing = acc.find((bundle) => bundle.bundleId === swap.bundleId);
+    if (existing) {
+      existing.signatures.push(swap.signature);
+    } else {
+      acc.push({
+        bundleId: swap.bundleId,
+        tipLamports: swap.tipLamports ?? 0,
+        signatures: [swap.signature],
+      });
+    }
+    return acc;
+  }, []);
+
+  const outputOf = (swap: SwapResult) =>
+    batch.outputs.find((output) => output.mint === swap.outputMint) ?? batch.outputs[0];
+
+  const outputTokens: SwapBatchOutput[] = batch.outputs.map((output) => {
+    const swaps = successfulSwaps.filter((swap) => outputOf(swap).mint === output.mint);
+    return {
+      mint: output.mint,
+      symbol: output.symbol,
+      weight: output.weight,
+      amountOut: swaps.reduce((sum, swap) => sum + (swap.outputAmount ?? 0), 0),
+      valueUsdOut: swaps.reduce((sum, swap) => sum + (swap.outputUsd ?? swap.amount), 0),
+    };
+  });
+
   return {
-    batchId:
-      typeof crypto !== 'undefined' && crypto.randomUUID
-        ? crypto.randomUUID()
-        : `${timestamp}`,
+    batchId,
     wallet,
     hashedWallet,
     timestamp,
-    outputToken: {
-      mint: outputToken,
-      symbol: outputTokenInfo?.symbol || outputTokenSymbol,
-    },
-    liquidationPct: liquidationPercentage,
-    slippage,
+    outputTokens,
+    liquidationPct: batch.liquidationPct,
+    slippage: batch.slippage,
     totals,
     tokensIn,
     status,
+    ...(batch.type ? { type: batch.type } : {}),
     quoteImprovementPct: averageImprovement,
     chartIndicators: successfulSwaps
       .filter((swap) => Boolean(swap.signature))
@@ -554,241 +746,1052 @@ export function SwapInterface({
         valueUsd: swap.amount,
         timestamp,
         signature: swap.signature as string,
-        outputToken: outputToken,
-        type: isLiquidation ? 'liquidation' as const : 'swap' as const,
+        outputToken: outputOf(swap).mint,
+        outputSymbol: outputOf(swap).symbol,
+        outputValueUsd: swap.outputUsd,
+        type: batch.type === 'rebalance'
+          ? 'rebalance' as const
+          : outputOf(swap).mint === USDC_MINT ? 'liquidation' as const : 'swap' as const,
       })),
+    ...(bundles.length > 0 ? { bundles } : {}),
   } as SwapBatchRecord;
-};
+}, [publicKey]);
 
-  const submitSwapHistory = async (record: SwapBatchRecord | null) => {
-    if (!record || !HISTORY_ENABLED) return;
+  const submitSwapHistory = useCallback(async (
+    record: SwapBatchRecord | null,
+    method: 'POST' | 'PUT' = 'POST',
+  ): Promise<boolean> => {
+    if (!record || !HISTORY_ENABLED) return false;
 
     try {
-      await fetch('/api/history', {
-        method: 'POST',
+      const response = await fetch('/api/history', {
+        method,
         headers: {
           'Content-Type': 'application/json',
           'x-wallet': record.wallet,
         },
         body: JSON.stringify(record),
       });
+      if (!response.ok) {
+        console.error('swap history submission failed:', response.status);
+        return false;
+      }
+      return true;
     } catch (error) {
       console.error('swap history submission failed:', error);
+      return false;
+    }
+  }, []);
+
+  const persistBatch = useCallback(async (batch: PersistedSwapBatch) => {
+    try {
+      await swapBatchStore.save(batch);
+    } catch (error) {
+      console.warn('failed to persist swap batch:', error);
+    }
+  }, []);
+
+  const updateBatchLeg = (legKey: string, update: Partial<PersistedSwapLeg>) => {
+    const batch = batchRef.current;
+    if (!batch) return;
+
+    batch.legs = batch.legs.map(leg => (getLegKey(leg.token) === legKey ? { ...leg, ...update } : leg));
+    void persistBatch(batch);
+  };
+
+  const handleEngineEvent = (event: SwapEngineEvent) => {
+    const markLeg = (leg: { mint: string; outputMint?: string }, status: string) => {
+      setLegStatus(prev => ({ ...prev, [getLegKey(leg)]: status }));
+    };
+
+    switch (event.type) {
+      case 'leg-start':
+        markLeg(event.token, 'quoting');
+        setCurrentStep(`swapping ${event.token.symbol} (${event.token.swapAmount.toFixed(6)})...`);
+        break;
+      case 'quote':
+        setCurrentStep(`fetching best quote for ${event.token.symbol}...`);
+        break;
+      case 'simulate':
+        markLeg(event.token, 'simulating');
+        setCurrentStep(`simulating ${event.token.symbol} swap...`);
+        break;
+      case 'simulated':
+        setLegSimulations(prev => ({ ...prev, [getLegKey(event.token)]: event.report }));
+        setCurrentStep(event.report.ok
+          ? `simulated ${event.token.symbol}: ${event.report.outputChange?.toFixed(6)} ${getOutputSymbol(event.token.outputMint)} out, ${event.report.unitsConsumed ?? 0} cu`
+          : `simulation failed for ${event.token.symbol}, re-quoting...`
+        );
+        break;
+      case 'guardrail':
+        markLeg(event.token, 'guardrail');
+        setCurrentStep(`${event.token.symbol}: ${event.assessment.breaches.join(', ')}`);
+        break;
+      case 'sign':
+        markLeg(event.token, 'signing');
+        setCurrentStep(isLedgerConnected
+          ? `please confirm ${event.token.symbol} transaction on your ledger device...`
+          : `confirm ${event.token.symbol} swap...`
+        );
+        break;
+      case 'sign-all':
+        event.tokens.forEach(token => markLeg(token, 'signing'));
+        setCurrentStep(isLedgerConnected
+          ? `please confirm ${event.tokens.length} transactions on your ledger device...`
+          : `approve ${event.tokens.length} swaps in one signature...`
+        );
+        break;
+      case 'bundle-sent':
+        event.tokens.forEach(token => markLeg(token, 'bundled'));
+        setCurrentStep(`bundle ${event.bundleId.slice(0, 8)}... sent with ${event.tokens.length} swaps`);
+        break;
+      case 'bundle-status':
+        setCurrentStep(`bundle ${event.bundleId.slice(0, 8)}... ${event.status}`);
+        break;
+      case 'send':
+        markLeg(event.token, 'sending');
+        setCurrentStep(`sending ${event.token.symbol} transaction...`);
+        break;
+      case 'submitted':
+        updateBatchLeg(getLegKey(event.token), {
+          status: 'submitted',
+          signature: event.signature,
+          lastValidBlockHeight: event.lastValidBlockHeight,
+          quotedOutputRaw: event.quotedOutputRaw,
+        });
+        break;
+      case 'confirm':
+        markLeg(event.token, 'confirming');
+        setCurrentStep(`confirming ${event.token.symbol} transaction...`);
+        break;
+      case 'rebroadcast':
+        setCurrentStep(`rebroadcasting ${event.token.symbol} transaction (${event.attempt})...`);
+        break;
+      case 'retry':
+        markLeg(event.token, 'retrying');
+        setCurrentStep(`retrying ${event.token.symbol} (attempt ${event.attempt + 1})...`);
+        break;
+      case 'leg-complete':
+        // an unresolved leg keeps its submitted signature so the batch is
+        // reconciled later instead of the leg being sent again
+        if (event.result.unresolved) {
+          markLeg(event.result, 'unconfirmed');
+        } else {
+          markLeg(event.result, event.result.error ? 'failed' : 'landed');
+          updateBatchLeg(getLegKey(event.result), {
+            status: event.result.error ? 'failed' : 'landed',
+            result: event.result,
+          });
+        }
+        setSwapResults(prev => [...prev, event.result]);
+        break;
+    }
+  };
+
+  // popular and searched tokens usually arrive without a price, so look it up
+  // once before the batch instead of valuing fills at the input token's price
+  const resolveOutputPriceUsd = async (outputMint: string): Promise<number | undefined> => {
+    const info = [outputTokenInfo, ...searchResults, ...sortedOutputTokens, ...popularTokens]
+      .find(token => token?.mint === outputMint);
+    if (!info) return undefined;
+    if (info.price) return info.price;
+
+    try {
+      const [priced] = await tokenService.getTokenPrices([info]);
+      return priced?.price || undefined;
+    } catch (err) {
+      console.warn('failed to price output token:', err);
+      return undefined;
     }
   };
 
-  const executeSequentialSwaps = async (tokens: ProRataToken[]): Promise<SwapResult[]> => {
-    const results: SwapResult[] = [];
-    
-    for (const [index, token] of tokens.entries()) {
-      let retryCount = 0;
-      const maxRetries = 3;
-      let success = false;
+  // pauses the engine until the user decides on a leg that breached a guardrail
+  const confirmBreach = (token: ProRataToken, assessment: LegAssessment): Promise<boolean> =>
+    new Promise(resolve => {
+      breachResolverRef.current = resolve;
+      setPendingBreach({ token, assessment });
+    });
+
+  const resolveBreach = (approved: boolean) => {
+    breachResolverRef.current?.(approved);
+    breachResolverRef.current = null;
+    setPendingBreach(null);
+  };
+
+  const createEngine = async (
+    output: Pick<OutputAllocation, 'mint' | 'decimals'>,
+    engineSlippage: number,
+    options: { lossLedger?: Map<string, number>; guardrails?: SwapGuardrails } = {},
+  ): Promise<SwapEngine> => {
+    const outputPriceUsd = await resolveOutputPriceUsd(output.mint);
+    return new SwapEngine({
+      connection,
+      signer: {
+        publicKey: publicKey!,
+        signTransaction: signTransactionUniversal,
+        signAllTransactions: signAllTransactions ? signAllTransactionsUniversal : undefined,
+      },
+      outputMint: output.mint,
+      outputDecimals: output.decimals,
+      outputPriceUsd,
+      slippage: engineSlippage,
+      jito: useJitoBundles ? { tipLamports: jitoTipLamports } : undefined,
+      guardrails: options.guardrails ?? guardrails,
+      routeConstraints,
+      priorityFees,
+      feeEstimator,
+      lossLedger: options.lossLedger,
+      confirmBreach,
+      onEvent: handleEngineEvent,
+    });
+  };
+
+  const previewQuotes = async () => {
+    if (!publicKey || executableLegs.length === 0) return;
+
+    const key = previewKey;
+    setPreviewing(true);
+    setError('');
+
+    try {
+      const previews: LegPreview[] = [];
+      for (const group of groupByOutput(executableLegs, outputAllocations)) {
+        const engine = await createEngine(group.output, slippage);
+        previews.push(...await engine.previewLegs(group.legs));
+      }
+      setLegPreviews({
+        key,
+        previews: Object.fromEntries(previews.map(preview => [getLegKey(preview), preview])),
+      });
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'failed to preview quotes';
+      setError(errorMsg);
+      console.error('quote preview error:', err);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const planTarget = async () => {
+    if (!publicKey || targetOutputAmount <= 0) return;
+
+    const key = targetKey;
+    setPlanningTarget(true);
+    setError('');
+
+    try {
+      const outputDecimals = outputTokenInfo?.decimals || (outputToken === SOL_MINT ? 9 : 6);
+      const outputPriceUsd = outputToken === USDC_MINT ? 1 : await resolveOutputPriceUsd(outputToken);
+      if (!outputPriceUsd) {
+        throw new Error(`no price available for ${outputTokenSymbol}, cannot size a target`);
+      }
+
+      const initial = planProRata(sizableTokens, {
+        excludeMint: outputToken,
+        targetValueUsd: targetOutputAmount * outputPriceUsd,
+      });
+
+      const engine = await createEngine({ mint: outputToken, decimals: outputDecimals }, slippage);
+      const plan = await engine.planTargetOutput(
+        initial.legs.filter(isExecutableLeg),
+        targetOutputAmount,
+      );
+      setTargetPlan({ key, plan });
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'failed to plan target';
+      setError(errorMsg);
+      console.error('target planning error:', err);
+    } finally {
+      setPlanningTarget(false);
+    }
+  };
+
+  // runs one engine per output, sharing the accepted loss so the batch
+  // guardrail still sees every leg
+  const executeSequentialSwaps = async (
+    tokens: ProRataToken[],
+    batch: PersistedSwapBatch,
+    engineGuardrails?: SwapGuardrails,
+  ): Promise<SwapResult[]> => {
+    const lossLedger = new Map<string, number>();
+    const results: SwapResult[] = [];
+
+    for (const group of groupByOutput(tokens, batch.outputs)) {
+      const engine = await createEngine(group.output, batch.slippage, { lossLedger, guardrails: engineGuardrails });
+
+      if (useJitoBundles && signAllTransactions) {
+        results.push(...await engine.executeBundled(group.legs));
+      } else if (batchSigning && signAllTransactions) {
+        results.push(...await engine.executeBatch(group.legs));
+      } else {
+        results.push(...await engine.execute(group.legs));
+      }
+    }
+
+    return results;
+  };
+
+  // records the batch once and then updates the same record as retried or
+  // resumed legs land, so a partial batch can later flip to success. batches
+  // with nothing left in flight are dropped from local storage
+  const saveBatchOutcome = useCallback((batch: PersistedSwapBatch) => {
+    const results = getBatchResults(batch);
+    const { inFlight, remaining } = getBatchProgress(batch);
+    const successfulSwaps = results.filter(result => !result.error);
+    const failedSwaps = results.filter(result => result.error);
+
+    if (HISTORY_ENABLED && successfulSwaps.length > 0) {
+      const unfinished = failedSwaps.length + inFlight.length + remaining.length;
+      const statusLabel: 'success' | 'partial' = unfinished === 0 ? 'success' : 'partial';
+      const record = buildHistoryRecord(successfulSwaps, statusLabel, batch);
+      // only a write that went through marks the batch recorded, so a failed
+      // first write is posted again instead of updating nothing
+      void submitSwapHistory(record, batch.recorded ? 'PUT' : 'POST').then(saved => {
+        if (saved) batch.recorded = true;
+      });
+    }
+
+    if (inFlight.length === 0 && remaining.length === 0) {
+      if (batch.state === 'in-progress') batch.state = 'completed';
+      swapBatchStore.remove(batch.batchId).catch(error =>
+        console.warn('failed to clear swap batch:', error),
+      );
+    } else {
+      void persistBatch(batch);
+    }
+
+    return { successfulSwaps, failedSwaps };
+  }, [buildHistoryRecord, submitSwapHistory, persistBatch]);
+
+  const recordBatchOutcome = (batch: PersistedSwapBatch) => {
+    const { successfulSwaps, failedSwaps } = saveBatchOutcome(batch);
+
+    if (successfulSwaps.length > 0) {
+      const totalSwapped = successfulSwaps.reduce((sum, swap) => sum + (swap.amount || 0), 0);
+      const totalSwappedPercentage = totalSelectedValue > 0 ? (totalSwapped / totalSelectedValue * 100).toFixed(1) : '0';
+      
+      setCurrentStep(`successfully liquidated ${successfulSwaps.length} tokens (${totalSwappedPercentage}% of selection)`);
+      
+      setTimeout(() => setCurrentStep(''), 5000);
+      onSwapComplete();
+    }
+    
+    if (failedSwaps.length > 0) {
+      const errorMsg = `${failedSwaps.length} liquidations failed. ${successfulSwaps.length > 0 ? 'partial success.' : ''}`;
+      console.error('failed liquidations:', failedSwaps);
+      setError(errorMsg);
+    }
+  };
+
+  // balances and prices fetched when a retry, slice or order runs pass the
+  // same check as the table selection before they size anything
+  const fetchConfirmedTokens = async (wallet: string, mints: Set<string>): Promise<TokenBalance[]> => {
+    const balances = await tokenService.getTokenBalances(wallet);
+    const freshTokens = await tokenService.getTokenPrices(balances.filter(token => mints.has(token.mint)));
+    const confirmed = getConfirmedTokens(freshTokens, await checkPrices(freshTokens), priceOverrides);
+    const held = freshTokens.filter(token => !confirmed.includes(token));
+    if (held.length > 0) {
+      console.warn(`holding ${held.map(token => token.symbol).join(', ')} until their prices are confirmed`);
+    }
+    return confirmed;
+  };
+
+  // sizes legs to their original usd targets against freshly fetched
+  // balances and prices, skipping tokens that can no longer be moved or whose
+  // price is not confirmed. a token routed to several outputs is sized once
+  // and split in the same proportions
+  const replanLegs = async (
+    targets: Array<{ mint: string; outputMint: string; amount: number }>,
+    outputs: OutputAllocation[],
+  ): Promise<ProRataToken[]> => {
+    const mints = new Set(targets.map(target => target.mint));
+    const freshTokens = await fetchConfirmedTokens(publicKey!.toBase58(), mints);
+
+    return Array.from(mints).flatMap(mint => {
+      const fresh = freshTokens.find(token => token.mint === mint);
+      if (!fresh || getTransferBlockReason(fresh) !== null) return [];
+
+      const parts = targets.filter(target => target.mint === mint);
+      const amount = parts.reduce((sum, part) => sum + part.amount, 0);
+      const [leg] = planProRata([fresh], { targetValueUsd: amount }).legs
+        .filter(planned => planned.swapAmount > 0.000001);
+      if (!leg) return [];
+
+      return splitLegAcross(leg, parts.map(part => ({
+        allocation: outputs.find(output => output.mint === part.outputMint) ?? outputs[0],
+        share: part.amount,
+      })));
+    });
+  };
+
+  const runBatchLegs = async (
+    batch: PersistedSwapBatch,
+    tokens: ProRataToken[],
+    engineGuardrails?: SwapGuardrails,
+  ) => {
+    const byKey = new Map(tokens.map(token => [getLegKey(token), token]));
+    batch.legs = batch.legs.map(leg => {
+      const token = byKey.get(getLegKey(leg.token));
+      return token ? { token, status: 'pending' } : leg;
+    });
+    batchRef.current = batch;
+    await persistBatch(batch);
+
+    setSwapResults(getBatchResults(batch));
+    await executeSequentialSwaps(tokens, batch, engineGuardrails);
+    recordBatchOutcome(batch);
+  };
+
+  const executeLiquidation = async () => {
+    const isRebalance = liquidationMode === 'rebalance';
+
+    if (!publicKey || !signTransaction || !sendTransaction || (!isRebalance && selectedTokens.length === 0)) {
+      setError('please connect wallet and select tokens');
+      return;
+    }
+
+    if (liquidationMode === 'percentage' && liquidationPercentage === 0) {
+      setError('please select a liquidation percentage greater than 0%');
+      return;
+    }
+
+    if (liquidationMode === 'target' && !currentTargetPlan) {
+      setError('please plan the target amount before liquidating');
+      return;
+    }
+
+    setSwapping(true);
+    setError('');
+    setCurrentStep('starting liquidation...');
+    setSwapResults([]);
+    setLegSimulations({});
+    setLegStatus({});
+
+    try {
+      const validTokens = executableLegs;
+
+      if (validTokens.length === 0) {
+        throw new Error(isRebalance
+          ? 'no trades needed, weights are within the drift band'
+          : 'no valid tokens with sufficient balance to liquidate');
+      }
+
+      const plannedValue = validTokens.reduce((sum, token) => sum + token.liquidationAmount, 0);
+
+      const timestamp = Date.now();
+      const batch: PersistedSwapBatch = {
+        batchId:
+          typeof crypto !== 'undefined' && crypto.randomUUID
+            ? crypto.randomUUID()
+            : `${timestamp}`,
+        wallet: publicKey.toBase58(),
+        timestamp,
+        updatedAt: timestamp,
+        outputs: outputAllocations,
+        liquidationPct: isRebalance
+          ? (rebalancePlan.totalValueUsd > 0 ? (plannedValue / rebalancePlan.totalValueUsd) * 100 : 0)
+          : liquidationMode === 'target' && totalSelectedValue > 0
+            ? (plannedValue / totalSelectedValue) * 100
+            : liquidationPercentage,
+        type: isRebalance
+          ? 'rebalance'
+          : outputAllocations.every(output => output.mint === USDC_MINT) ? 'liquidation' : 'swap',
+        slippage,
+        state: 'in-progress',
+        recorded: false,
+        legs: validTokens.map(token => ({ token, status: 'pending' })),
+      };
+
+      await runBatchLegs(batch, validTokens);
+
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'liquidation failed';
+      setError(errorMsg);
+      console.error('liquidation execution error:', err);
+    } finally {
+      setSwapping(false);
+    }
+  };
+
+  const sendSignedTransactions = async (
+    transactions: VersionedTransaction[],
+    latestBlockhash: { blockhash: string; lastValidBlockHeight: number },
+  ) => {
+    const signed = await signAllTransactionsUniversal(transactions);
+    for (const transaction of signed) {
+      const signature = await connection.sendRawTransaction(transaction.serialize());
+      const confirmation = await connection.confirmTransaction({ signature, ...latestBlockhash }, 'confirmed');
+      if (confirmation.value.err) {
+        throw new Error(`transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+      }
+    }
+  };
+
+  // closing the nonce accounts returns their rent and voids any presigned
+  // slice that was never sent
+  const closeNonceAccounts = async (addresses: string[]) => {
+    setCurrentStep(`releasing ${addresses.length} nonce accounts...`);
+    const latestBlockhash = await connection.getLatestBlockhash('confirmed');
+    const transactions = await buildReleaseNonceTransactions(
+      connection,
+      publicKey!,
+      addresses.map(address => new PublicKey(address)),
+      latestBlockhash.blockhash,
+    );
+    if (transactions.length > 0) {
+      await sendSignedTransactions(transactions, latestBlockhash);
+    }
+  };
+
+  const releaseScheduleNonces = async (schedule: SwapSchedule) => {
+    if (!publicKey || !schedule.nonceAccounts?.length || schedule.noncesReleased) return;
+
+    await closeNonceAccounts(schedule.nonceAccounts);
+    await presignedSliceStore.remove(schedule.scheduleId).catch(error =>
+      console.warn('failed to clear presigned slices:', error),
+    );
+    await updateSchedule(markNoncesReleased(schedule));
+  };
+
+  // funds one nonce account per leg and signs every slice up front, one
+  // approval per output. the signed transactions stay on this device
+  const presignSchedule = async (schedule: SwapSchedule): Promise<SwapSchedule> => {
+    const slices = buildPresignedSlices(schedule, sizableTokens).map(legs => legs.filter(isExecutableLeg));
+    const legCount = slices.reduce((sum, legs) => sum + legs.length, 0);
+    if (legCount === 0) {
+      throw new Error('slices are too small to presign');
+    }
+
+    setCurrentStep(`creating ${legCount} nonce accounts...`);
+    const latestBlockhash = await connection.getLatestBlockhash('confirmed');
+    const { transactions, addresses } = await buildCreateNonceTransactions(
+      connection,
+      publicKey!,
+      legCount,
+      latestBlockhash.blockhash,
+    );
+    await sendSignedTransactions(transactions, latestBlockhash);
+
+    const nonceAccounts = addresses.map(address => address.toBase58());
+
+    try {
+      const nonces = await fetchDurableNonces(connection, addresses);
+      const entries = slices.flatMap((legs, index) => legs.map(token => ({ index, token })));
+      const presigned = new Map<ProRataToken, PresignedLeg>();
+      let offset = 0;
+
+      for (const group of groupByOutput(entries.map(entry => entry.token), schedule.outputs)) {
+        setCurrentStep(`presigning ${group.legs.length} swaps to ${group.output.symbol}...`);
+        const engine = await createEngine(group.output, schedule.slippage);
+        const signed = await engine.presignLegs(group.legs, nonces.slice(offset, offset + group.legs.length));
+        offset += group.legs.length;
+        group.legs.forEach((token, index) => presigned.set(token, signed[index]));
+      }
+
+      await presignedSliceStore.save({
+        scheduleId: schedule.scheduleId,
+        slices: slices.map((legs, index) => ({
+          index,
+          legs: legs.map(token => presigned.get(token) as PresignedLeg),
+        })),
+      });
+      return { ...schedule, nonceAccounts, noncesReleased: false };
+    } catch (err) {
+      await closeNonceAccounts(nonceAccounts).catch(error =>
+        console.error('failed to release nonce accounts:', error),
+      );
+      throw err;
+    }
+  };
+
+  const scheduleLiquidation = async () => {
+    if (!publicKey || selectedTokens.length === 0) {
+      setError('please connect wallet and select tokens');
+      return;
+    }
+
+    if (liquidationPercentage === 0) {
+      setError('please select a liquidation percentage greater than 0%');
+      return;
+    }
+
+    setSwapping(true);
+    setError('');
+    setCurrentStep('planning schedule...');
+
+    try {
+      const legs = proRataPlan.legs.filter(isExecutableLeg);
+      if (legs.length === 0) {
+        throw new Error('no valid tokens with sufficient balance to liquidate');
+      }
+
+      const wallet = publicKey.toBase58();
+      let schedule = createSchedule({
+        wallet,
+        hashedWallet: encryptionService.anonymizePublicKey(wallet),
+        legs,
+        outputs: outputAllocations,
+        liquidationPct: liquidationPercentage,
+        slippage,
+        guardrails,
+      }, {
+        sliceCount,
+        windowMs: windowHours * 60 * 60 * 1000,
+        execution: presignSlices ? 'presigned' : 'live',
+      });
+
+      if (schedule.execution === 'presigned') {
+        schedule = await presignSchedule(schedule);
+      }
+
+      await addSchedule(schedule);
+      setCurrentStep(`scheduled ${schedule.slices.length} slices, the first runs shortly`);
+      setTimeout(() => setCurrentStep(''), 5000);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'failed to schedule liquidation';
+      setError(errorMsg);
+      console.error('schedule error:', err);
+    } finally {
+      setSwapping(false);
+    }
+  };
+
+  // every slice is a batch of its own, so it is persisted, recorded and
+  // charted like any other. nobody may be watching, so a slice that breaches
+  // a guardrail is skipped instead of waiting for confirmation
+  const runScheduledSlice = async (
+    schedule: SwapSchedule,
+    slice: ScheduledSlice,
+    batchId: string,
+  ): Promise<SliceOutcome> => {
+    if (publicKey?.toBase58() !== schedule.wallet) {
+      return { results: [], error: 'schedule wallet is not connected' };
+    }
+
+    const sliceGuardrails: SwapGuardrails = { ...schedule.guardrails, breachAction: 'skip' };
+    const timestamp = Date.now();
+    const batch: PersistedSwapBatch = {
+      batchId,
+      wallet: schedule.wallet,
+      timestamp,
+      updatedAt: timestamp,
+      outputs: schedule.outputs,
+      liquidationPct: schedule.liquidationPct / schedule.slices.length,
+      type: schedule.outputs.every(output => output.mint === USDC_MINT) ? 'liquidation' : 'swap',
+      slippage: schedule.slippage,
+      state: 'in-progress',
+      recorded: false,
+      legs: [],
+      scheduleId: schedule.scheduleId,
+    };
+
+    setSwapping(true);
+    setError('');
+    setSwapResults([]);
+    setLegSimulations({});
+    setLegStatus({});
+    setCurrentStep(`running slice ${slice.index + 1} of ${schedule.slices.length}...`);
+
+    try {
+      if (schedule.execution === 'presigned') {
+        const legs = await presignedSliceStore.getSlice(schedule.scheduleId, slice.index);
+        if (!legs) {
+          return { results: [], error: 'presigned transactions for this slice are not on this device' };
+        }
+
+        batch.legs = legs.map(leg => ({ token: leg.token, status: 'pending' }));
+        batchRef.current = batch;
+        await persistBatch(batch);
+
+        const lossLedger = new Map<string, number>();
+        for (const group of groupByOutput(legs.map(leg => leg.token), batch.outputs)) {
+          const engine = await createEngine(group.output, batch.slippage, { lossLedger, guardrails: sliceGuardrails });
+          await engine.executePresigned(legs.filter(leg => group.legs.includes(leg.token)));
+        }
+        recordBatchOutcome(batch);
+      } else {
+        const mints = new Set(schedule.tokens.map(token => token.mint));
+        const freshTokens = await fetchConfirmedTokens(schedule.wallet, mints);
+        const legs = buildSliceLegs(schedule, slice, freshTokens).filter(leg =>
+          getTransferBlockReason(leg) === null &&
+          leg.swapAmount > 0.000001 &&
+          leg.liquidationAmount > 0.01,
+        );
+        if (legs.length === 0) {
+          return { results: [], error: 'nothing left to sell in this slice' };
+        }
+
+        batch.legs = legs.map(token => ({ token, status: 'pending' }));
+        await runBatchLegs(batch, legs, sliceGuardrails);
+      }
+
+      return { batchId: batch.batchId, results: getBatchResults(batch) };
+    } finally {
+      setSwapping(false);
+    }
+  };
+
+  // legs of an interrupted slice that were never sent are closed out rather
+  // than resumed, since the schedule's later slices sell what this one did not
+  const reconcileScheduledSlice = async (slice: ScheduledSlice): Promise<SliceOutcome | null> => {
+    const stored = slice.batchId ? await swapBatchStore.get(slice.batchId) : null;
+    if (!stored) return { results: [] };
+
+    const batch = await reconcileBatch(connection, stored);
+    if (getBatchProgress(batch).inFlight.length > 0) {
+      await persistBatch(batch);
+      return null;
+    }
+
+    batch.legs = batch.legs.map(leg =>
+      leg.status === 'pending'
+        ? {
+            ...leg,
+            status: 'failed',
+            result: {
+              symbol: leg.token.symbol,
+              mint: leg.token.mint,
+              decimals: leg.token.decimals,
+              amount: leg.token.liquidationAmount,
+              inputAmount: leg.token.swapAmount,
+              error: 'slice interrupted before this leg was sent',
+              outputMint: leg.token.outputMint,
+            },
+          }
+        : leg,
+    );
+    saveBatchOutcome(batch);
+    return { batchId: batch.batchId, results: getBatchResults(batch) };
+  };
+
+  const {
+    schedules,
+    addSchedule,
+    updateSchedule,
+    pause: pauseScheduledPlan,
+    resume: resumeScheduledPlan,
+    cancel: cancelScheduledPlan,
+  } = useSwapSchedules(publicKey?.toBase58(), {
+    runSlice: runScheduledSlice,
+    reconcileSlice: reconcileScheduledSlice,
+    busy: swapping || previewing || planningTarget,
+  });
+
+  const withScheduleErrors = async (action: () => Promise<void>) => {
+    setSwapping(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'schedule update failed';
+      setError(errorMsg);
+      console.error('schedule update error:', err);
+    } finally {
+      setSwapping(false);
+    }
+  };
+
+  const cancelSchedule = (scheduleId: string) => {
+    const cancelled = cancelScheduledPlan(scheduleId);
+    if (cancelled?.execution === 'presigned') {
+      void withScheduleErrors(() => releaseScheduleNonces(cancelled));
+    }
+  };
+
+  const { addOrder, setExecutor: setOrderExecutor } = useLiquidationOrders();
+
+  const placeLiquidationOrder = async () => {
+    if (!publicKey || selectedTokens.length === 0) {
+      setError('please connect wallet and select tokens');
+      return;
+    }
+
+    if (liquidationPercentage === 0) {
+      setError('please select a liquidation percentage greater than 0%');
+      return;
+    }
+
+    const thresholdUsd = Number(orderThresholdUsd);
+    if (!(thresholdUsd > 0)) {
+      setError('please enter a trigger value greater than $0');
+      return;
+    }
+
+    // an order that is already past its trigger would fire on the first check
+    if (orderKind === 'stop-loss' ? thresholdUsd >= orderBasketValue : thresholdUsd <= orderBasketValue) {
+      setError(`the basket is worth $${orderBasketValue.toFixed(2)} now, pick a trigger ${orderKind === 'stop-loss' ? 'below' : 'above'} it`);
+      return;
+    }
+
+    setError('');
+
+    try {
+      const wallet = publicKey.toBase58();
+      const order = createOrder({
+        wallet,
+        hashedWallet: encryptionService.anonymizePublicKey(wallet),
+        kind: orderKind,
+        thresholdUsd,
+        percentage: liquidationPercentage,
+        tokens: sizableTokens.filter(token => !configuredOutputMints.includes(token.mint)),
+        outputs: outputAllocations,
+        slippage,
+        guardrails,
+        expiresInMs: orderExpiryHours > 0 ? orderExpiryHours * 60 * 60 * 1000 : null,
+      });
+
+      await addOrder(order);
+      if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+        void Notification.requestPermission();
+      }
+      setCurrentStep(`order placed, ${describeOrder(order)}`);
+      setTimeout(() => setCurrentStep(''), 5000);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'failed to place order';
+      setError(errorMsg);
+      console.error('order error:', err);
+    }
+  };
+
+  // a triggered order is planned against fresh balances, so it sells its
+  // percentage of what the wallet holds when it fires
+  const runLiquidationOrder: OrderExecutor = (order) => {
+    if (swapping || previewing || planningTarget || publicKey?.toBase58() !== order.wallet) {
+      return null;
+    }
+
+    const run = async (): Promise<OrderOutcome> => {
+      setSwapping(true);
+      setError('');
+      setSwapResults([]);
+      setLegSimulations({});
+      setLegStatus({});
+      setCurrentStep(`order triggered, ${describeOrder(order)}`);
+
+      try {
+        const mints = new Set(order.tokens.map(token => token.mint));
+        const freshTokens = await fetchConfirmedTokens(order.wallet, mints);
+        const plan = planProRata(freshTokens, {
+          excludeMints: order.outputs.map(output => output.mint),
+          percentage: order.percentage,
+        });
+        const legs = routeToOutputs(plan.legs.filter(leg =>
+          getTransferBlockReason(leg) === null &&
+          leg.swapAmount > 0.000001 &&
+          leg.liquidationAmount > 0.01,
+        ), order.outputs);
+        if (legs.length === 0) {
+          return { error: 'nothing left to sell for this order' };
+        }
 
-      if (index > 0) {
-        await new Promise(resolve => setTimeout(resolve, 2000));
+        const timestamp = Date.now();
+        const batch: PersistedSwapBatch = {
+          batchId:
+            typeof crypto !== 'undefined' && crypto.randomUUID
+              ? crypto.randomUUID()
+              : `${timestamp}`,
+          wallet: order.wallet,
+          timestamp,
+          updatedAt: timestamp,
+          outputs: order.outputs,
+          liquidationPct: order.percentage,
+          type: order.outputs.every(output => output.mint === USDC_MINT) ? 'liquidation' : 'swap',
+          slippage: order.slippage,
+          state: 'in-progress',
+          recorded: false,
+          legs: legs.map(token => ({ token, status: 'pending' })),
+        };
+
+        await runBatchLegs(batch, legs, order.guardrails);
+
+        const results = getBatchResults(batch);
+        const landed = results.some(result => !result.error);
+        return landed
+          ? { batchId: batch.batchId }
+          : { batchId: batch.batchId, error: results.find(result => result.error)?.error ?? 'no swaps landed' };
+      } finally {
+        setSwapping(false);
       }
+    };
 
-      while (retryCount <= maxRetries && !success) {
-        try {
-          setCurrentStep(`swapping ${token.symbol} (${token.swapAmount.toFixed(6)})...`);
-
-          if (retryCount > 0) {
-            const backoffDelay = Math.min(1000 * Math.pow(2, retryCount), 10000);
-            await new Promise(resolve => setTimeout(resolve, backoffDelay));
-          }
+    return run();
+  };
 
-          const quoteSelection = await getBestSwapQuote(token);
-          const quoteData = quoteSelection.quote;
-          const { blockhash, lastValidBlockHeight } = await getFreshBlockhash();
+  useEffect(() => {
+    setOrderExecutor(runLiquidationOrder);
+  });
 
-          const swapResponse = await fetch('https://lite-api.jup.ag/swap/v1/swap', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              quoteResponse: quoteData,
-              userPublicKey: publicKey!.toString(),
-              dynamicComputeUnitLimit: true,
-              dynamicSlippage: true,
-              prioritizationFeeLamports: {
-                priorityLevelWithMaxLamports: {
-                  maxLamports: 1000000,
-                  priorityLevel: "veryHigh"
-                }
-              },
-              wrapAndUnwrapSol: true,
-              asLegacyTransaction: false,
-              useSharedAccounts: true,
-              configs: {
-                recentBlockhash: blockhash
-              }
-            })
-          });
+  useEffect(() => () => setOrderExecutor(null), [setOrderExecutor]);
 
-          if (!swapResponse.ok) {
-            const errorData = await swapResponse.json().catch(() => ({}));
-            throw new Error(`swap build failed: ${errorData.error || swapResponse.statusText}`);
-          }
+  // re-plans only the legs that errored and runs them inside the same batch
+  const retryFailedSwaps = async () => {
+    const batch = batchRef.current;
+    if (!publicKey || !batch) return;
 
-          const swapData: JupiterSwapResponse = await swapResponse.json();
+    const failedLegs = batch.legs.filter(leg => leg.status === 'failed');
+    if (failedLegs.length === 0) return;
 
-          if (!swapData.swapTransaction) {
-            throw new Error('no swap transaction returned from jupiter');
-          }
+    setSwapping(true);
+    setError('');
+    setCurrentStep(`refreshing balances for ${failedLegs.length} failed swaps...`);
 
-          const transaction = VersionedTransaction.deserialize(
-            Buffer.from(swapData.swapTransaction, 'base64')
-          );
-
-          const signedTransaction = await signTransactionUniversal(transaction, token.symbol);
-          
-          setCurrentStep(`sending ${token.symbol} transaction...`);
-          
-          const signature = await connection.sendRawTransaction(
-            signedTransaction.serialize(),
-            {
-              skipPreflight: true,
-              preflightCommitment: 'confirmed',
-              maxRetries: 3
-            }
-          );
+    try {
+      const retryLegs = await replanLegs(failedLegs.map(leg => ({
+        mint: leg.token.mint,
+        outputMint: getLegOutput(batch, leg).mint,
+        amount: leg.result?.amount ?? leg.token.liquidationAmount,
+      })), batch.outputs);
+
+      if (retryLegs.length === 0) {
+        throw new Error('failed tokens no longer have a swappable balance');
+      }
 
-          if (!signature) {
-            throw new Error('failed to send transaction - no signature returned');
-          }
+      await runBatchLegs(batch, retryLegs);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'retry failed';
+      setError(errorMsg);
+      console.error('retry execution error:', err);
+    } finally {
+      setSwapping(false);
+    }
+  };
 
-          setCurrentStep(`confirming ${token.symbol} transaction...`);
-          const confirmation = await connection.confirmTransaction({
-            signature,
-            blockhash: blockhash,
-            lastValidBlockHeight: lastValidBlockHeight
-          }, 'confirmed');
+  // settles whatever an interrupted batch left in flight and finalizes the
+  // batches that need nothing else, returning the first one that still does
+  const checkInterruptedBatches = useCallback(async (wallet: string): Promise<PersistedSwapBatch | null> => {
+    const batches = await swapBatchStore.listUnfinished(wallet);
 
-          if (confirmation.value.err) {
-            throw new Error(`transaction failed: ${confirmation.value.err}`);
-          }
+    for (const stored of batches) {
+      // a slice's batch is settled by its schedule instead of resumed here
+      if (stored.batchId === batchRef.current?.batchId || stored.scheduleId) continue;
 
-          const outputDecimals = outputTokenInfo?.decimals || (outputToken === SOL_MINT ? 9 : 6);
-          
-          const outputAmount =
-            parseInt(quoteData.outAmount) / Math.pow(10, outputDecimals);
-          const outputUsd =
-            outputAmount *
-            (outputTokenInfo?.price || (outputToken === USDC_MINT ? 1 : token.price || 0));
+      const batch = await reconcileBatch(connection, stored);
+      const { inFlight, remaining } = getBatchProgress(batch);
+      if (inFlight.length === 0 && remaining.length === 0) {
+        saveBatchOutcome(batch);
+        continue;
+      }
 
-          const result: SwapResult = {
-            symbol: token.symbol,
-            mint: token.mint,
-            decimals: token.decimals,
-            signature,
-            amount: token.liquidationAmount,
-            inputAmount: token.swapAmount,
-            outputAmount,
-            outputUsd,
-            retryCount,
-            priceUsd: token.price,
-            quoteImprovementPct: quoteSelection.improvementPct,
-          };
+      await persistBatch(batch);
+      return batch;
+    }
 
-          results.push(result);
-          success = true;
-          setSwapResults(prev => [...prev, result]);
+    return null;
+  }, [connection, saveBatchOutcome, persistBatch]);
 
-        } catch (err) {
-          retryCount++;
-          
-          if (retryCount > maxRetries) {
-          console.error(`failed to swap ${token.symbol} after ${maxRetries} attempts:`, err);
-          const errorResult: SwapResult = {
-            symbol: token.symbol,
-            mint: token.mint,
-            decimals: token.decimals,
-            amount: token.liquidationAmount,
-            inputAmount: token.swapAmount,
-            error: err instanceof Error ? err.message : 'unknown error',
-            retryCount
-          };
-          results.push(errorResult);
-          setSwapResults(prev => [...prev, errorResult]);
-        }
-        }
-      }
+  const recheckInterruptedBatch = async () => {
+    if (!publicKey) return;
+    try {
+      setInterruptedBatch(await checkInterruptedBatches(publicKey.toBase58()));
+    } catch (err) {
+      console.warn('failed to check interrupted swap batches:', err);
     }
-    
-    return results;
   };
 
-  const executeLiquidation = async () => {
-    if (!publicKey || !signTransaction || !sendTransaction || selectedTokens.length === 0) {
-      setError('please connect wallet and select tokens');
-      return;
-    }
-
-    if (liquidationPercentage === 0) {
-      setError('please select a liquidation percentage greater than 0%');
-      return;
-    }
+  const resumeInterruptedBatch = async () => {
+    if (!publicKey || !interruptedBatch) return;
+    const batch: PersistedSwapBatch = { ...interruptedBatch };
 
     setSwapping(true);
     setError('');
-    setCurrentStep('starting liquidation...');
-    setSwapResults([]);
+    setLegSimulations({});
+    setLegStatus({});
+    setCurrentStep('refreshing balances for remaining swaps...');
 
     try {
-      const proRataTokens = calculateProRataAmounts();
-      
-      const validTokens = proRataTokens.filter(token => 
-        token.mint !== outputToken && 
-        token.swapAmount > 0.000001 && 
-        token.liquidationAmount > 0.01
+      const { remaining } = getBatchProgress(batch);
+      const resumeLegs = await replanLegs(remaining.map(leg => ({
+        mint: leg.token.mint,
+        outputMint: getLegOutput(batch, leg).mint,
+        amount: leg.token.liquidationAmount,
+      })), batch.outputs);
+
+      // legs with nothing left to swap are closed out so the batch can finish
+      const resumable = new Set(resumeLegs.map(getLegKey));
+      batch.legs = batch.legs.map(leg =>
+        leg.status === 'pending' && !resumable.has(getLegKey(leg.token))
+          ? {
+              ...leg,
+              status: 'failed',
+              result: {
+                symbol: leg.token.symbol,
+                mint: leg.token.mint,
+                decimals: leg.token.decimals,
+                amount: leg.token.liquidationAmount,
+                inputAmount: leg.token.swapAmount,
+                error: 'no swappable balance left to resume',
+                outputMint: leg.token.outputMint,
+              },
+            }
+          : leg,
       );
 
-      if (validTokens.length === 0) {
-        throw new Error('no valid tokens with sufficient balance to liquidate');
-      }
-
-      const results = await executeSequentialSwaps(validTokens);
-
-      const successfulSwaps = results.filter(result => !result.error);
-      const failedSwaps = results.filter(result => result.error);
-
-      if (HISTORY_ENABLED && successfulSwaps.length > 0) {
-        const statusLabel: 'success' | 'partial' =
-          failedSwaps.length === 0 ? 'success' : 'partial';
-        const record = buildHistoryRecord(successfulSwaps, statusLabel);
-        void submitSwapHistory(record);
-      }
-
-      if (successfulSwaps.length > 0) {
-        const totalSwapped = successfulSwaps.reduce((sum, swap) => sum + (swap.amount || 0), 0);
-        const totalSwappedPercentage = totalSelectedValue > 0 ? (totalSwapped / totalSelectedValue * 100).toFixed(1) : '0';
-        
-        setCurrentStep(`successfully liquidated ${successfulSwaps.length} tokens (${totalSwappedPercentage}% of selection)`);
-        
-        setTimeout(() => setCurrentStep(''), 5000);
-        onSwapComplete();
-      }
-      
-      if (failedSwaps.length > 0) {
-        const errorMsg = `${failedSwaps.length} liquidations failed. ${successfulSwaps.length > 0 ? 'partial success.' : ''}`;
-        console.error('failed liquidations:', failedSwaps);
-        setError(errorMsg);
-      }
-
+      setInterruptedBatch(null);
+      await runBatchLegs(batch, resumeLegs);
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : 'liquidation failed';
+      const errorMsg = err instanceof Error ? err.message : 'resume failed';
       setError(errorMsg);
-      console.error('liquidation execution error:', err);
+      console.error('resume execution error:', err);
     } finally {
       setSwapping(false);
     }
   };
 
-  const proRataTokens = calculateProRataAmounts();
+  // anything not confirmed on chain is recorded as abandoned, so the history
+  // entry only counts legs that actually landed
+  const abandonInterruptedBatch = () => {
+    if (!interruptedBatch) return;
+
+    const batch: PersistedSwapBatch = { ...interruptedBatch, state: 'abandoned' };
+    batch.legs = batch.legs.map(leg =>
+      leg.status === 'pending' || leg.status === 'submitted'
+        ? {
+            ...leg,
+            status: 'failed',
+            result: {
+              symbol: leg.token.symbol,
+              mint: leg.token.mint,
+              decimals: leg.token.decimals,
+              signature: leg.signature,
+              amount: leg.token.liquidationAmount,
+              inputAmount: leg.token.swapAmount,
+              error: 'batch abandoned',
+              outputMint: leg.token.outputMint,
+            },
+          }
+        : leg,
+    );
+
+    saveBatchOutcome(batch);
+    setInterruptedBatch(null);
+  };
+
+  useEffect(() => {
+    if (!publicKey) return;
+
+    let cancelled = false;
+    checkInterruptedBatches(publicKey.toBase58())
+      .then(batch => {
+        if (!cancelled) setInterruptedBatch(batch);
+      })
+      .catch(err => console.warn('failed to check interrupted swap batches:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicKey, checkInterruptedBatches]);
+
+  // split outputs show the routed legs, since one token can feed several outputs
+  const proRataTokens = liquidationMode !== 'percentage' || outputAllocations.length > 1
+    ? executableLegs
+    : proRataPlan.legs;
   
   const hasFailedSwaps = swapResults.some(result => result.error);
+  const isScheduling = liquidationMode === 'percentage' && liquidationTiming === 'schedule';
+  const isPlacingOrder = liquidationMode === 'percentage' && liquidationTiming === 'order';
+  const orderBasketValue = sizableTokens
+    .filter(token => !configuredOutputMints.includes(token.mint))
+    .reduce((sum, token) => sum + (token.value ?? 0), 0);
 
   const TokenSearchResult = ({ 
   token, 
@@ -906,7 +1909,83 @@ export function SwapInterface({
               <span>${totalSelectedValue.toFixed(2)}</span>
             </div>
 
+            {/* Mode Selector */}
+            <div className="flex space-x-2 ml-3 mr-3 text-xs">
+              {(['percentage', 'target', 'rebalance'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setLiquidationMode(mode)}
+                  className={`px-2 py-1 rounded ${liquidationMode === mode ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+                >
+                  {mode === 'target' ? 'target amount' : mode}
+                </button>
+              ))}
+            </div>
+
+            {liquidationMode === 'rebalance' && (
+              <RebalanceEditor
+                tokens={allTokens}
+                targets={rebalanceTargets}
+                onTargetsChange={setRebalanceTargets}
+                driftBandPct={driftBandPct}
+                onDriftBandChange={setDriftBandPct}
+                plan={rebalancePlan}
+                templates={rebalanceTemplates}
+                onSaveTemplate={saveTemplate}
+                onDeleteTemplate={deleteTemplate}
+                expectedCostUsd={previewTotals?.priced
+                  ? previewTotals.lossUsd
+                  : (liquidationValue * slippage) / 100}
+                costIsQuoted={Boolean(previewTotals?.priced)}
+              />
+            )}
+
+            {liquidationMode === 'target' && (
+              <div className="space-y-2 ml-3 mr-3">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="number"
+                    min="0"
+                    placeholder={`amount of ${outputTokenSymbol} to raise`}
+                    value={targetOutput}
+                    onChange={(e) => setTargetOutput(e.target.value)}
+                    className="flex-1 bg-black border border-gray-700 rounded px-2 py-1 text-xs mobile-optimized"
+                  />
+                  <button
+                    onClick={planTarget}
+                    disabled={planningTarget || swapping || !publicKey || targetOutputAmount <= 0 || selectedTokens.length === 0}
+                    className="text-xs bg-gray-600 hover:bg-gray-700 disabled:opacity-50 px-2 py-1 rounded flex items-center space-x-1 mobile-optimized"
+                  >
+                    <Calculator className={`h-3 w-3 ${planningTarget ? 'animate-pulse' : ''}`} />
+                    <span>{planningTarget ? 'planning...' : 'plan'}</span>
+                  </button>
+                </div>
+                {currentTargetPlan ? (
+                  <div className="text-xs space-y-1">
+                    <div className="flex justify-between text-gray-300">
+                      <span>quoted output</span>
+                      <span>
+                        {currentTargetPlan.quotedOutput.toFixed(4)} / {currentTargetPlan.targetOutput.toFixed(4)} {outputTokenSymbol}
+                      </span>
+                    </div>
+                    {currentTargetPlan.shortfall > 0 && (
+                      <div className={`flex justify-between ${currentTargetPlan.withinTolerance ? 'text-yellow-400' : 'text-red-400'}`}>
+                        <span>shortfall</span>
+                        <span>{currentTargetPlan.shortfall.toFixed(4)} {outputTokenSymbol}</span>
+                      </div>
+                    )}
+                    <div className="text-gray-500">
+                      {currentTargetPlan.legs.filter(leg => leg.swapMode === 'ExactOut').length} exact-output legs, planned in {currentTargetPlan.iterations} passes
+                    </div>
+                  </div>
+                ) : targetOutputAmount > 0 && (
+                  <div className="text-xs text-gray-500">plan the target to quote each leg before liquidating</div>
+                )}
+              </div>
+            )}
+
             {/* Percentage Selector */}
+            {liquidationMode === 'percentage' && (
             <div className="space-y-2 sm:space-y-3">
               <div className="flex justify-between text-xs sm:text-m ml-3 mr-3">
                 <span className="text-gray-300">percentage:</span>
@@ -941,7 +2020,125 @@ export function SwapInterface({
                   ))}
                 </div>
               </div>
+
+              <div className="space-y-2 ml-3 mr-3 text-xs">
+                <div className="flex space-x-1">
+                  {([
+                    ['now', 'now'],
+                    ['schedule', 'spread over time'],
+                    ['order', 'on price'],
+                  ] as const).map(([timing, label]) => (
+                    <button
+                      key={timing}
+                      onClick={() => setLiquidationTiming(timing)}
+                      className={`px-2 py-1 rounded ${
+                        liquidationTiming === timing ? 'bg-gray-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {liquidationTiming === 'schedule' && (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-300">slices</span>
+                      <input
+                        type="number"
+                        min="1"
+                        max="100"
+                        step="1"
+                        value={sliceCount}
+                        onChange={(e) => setSliceCount(Math.min(100, Math.max(1, Math.floor(Number(e.target.value) || 1))))}
+                        className="w-16 bg-black border border-gray-700 rounded px-2 py-1 text-right mobile-optimized"
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-300">over</span>
+                      <div className="flex items-center space-x-1">
+                        <input
+                          type="number"
+                          min="0.25"
+                          step="1"
+                          value={windowHours}
+                          onChange={(e) => setWindowHours(Math.max(0.25, Number(e.target.value) || 0.25))}
+                          className="w-16 bg-black border border-gray-700 rounded px-2 py-1 text-right mobile-optimized"
+                        />
+                        <span className="text-gray-400">hours</span>
+                      </div>
+                    </div>
+                    <label className={`flex items-center space-x-2 ${signAllTransactions ? 'text-gray-300' : 'text-gray-500'}`}>
+                      <input
+                        type="checkbox"
+                        checked={presignSlices && Boolean(signAllTransactions)}
+                        disabled={!signAllTransactions}
+                        onChange={(e) => setPresignSlices(e.target.checked)}
+                      />
+                      <span>presign with durable nonces</span>
+                    </label>
+                    <div className="text-gray-500">
+                      {presignSlices && signAllTransactions
+                        ? 'every slice is signed now and sent on time, nonce account rent is returned when the schedule ends'
+                        : 'each slice is quoted and signed when it comes due, while this app is open'}
+                    </div>
+                  </>
+                )}
+                {liquidationTiming === 'order' && (
+                  <>
+                    <div className="flex space-x-1">
+                      {([
+                        ['stop-loss', 'stop below'],
+                        ['take-profit', 'take profit above'],
+                      ] as const).map(([kind, label]) => (
+                        <button
+                          key={kind}
+                          onClick={() => setOrderKind(kind)}
+                          className={`px-2 py-1 rounded ${
+                            orderKind === kind ? 'bg-gray-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-300">basket value</span>
+                      <div className="flex items-center space-x-1">
+                        <span className="text-gray-400">$</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={orderThresholdUsd}
+                          onChange={(e) => setOrderThresholdUsd(e.target.value)}
+                          placeholder={orderBasketValue.toFixed(2)}
+                          className="w-24 bg-black border border-gray-700 rounded px-2 py-1 text-right mobile-optimized"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-300">expires after</span>
+                      <div className="flex items-center space-x-1">
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={orderExpiryHours}
+                          onChange={(e) => setOrderExpiryHours(Math.max(0, Number(e.target.value) || 0))}
+                          className="w-16 bg-black border border-gray-700 rounded px-2 py-1 text-right mobile-optimized"
+                        />
+                        <span className="text-gray-400">hours</span>
+                      </div>
+                    </div>
+                    <div className="text-gray-500">
+                      basket is worth ${orderBasketValue.toFixed(2)} now. prices are checked every minute while this app is open,
+                      you are asked to sign when the order triggers{orderExpiryHours === 0 && ', it never expires'}
+                    </div>
+                  </>
+                )}
+              </div>
             </div>
+            )}
 
             <div className="bg-gray-700/50 rounded-lg p-3 sm:p-4 space-y-2 ml-2 mr-2">
             <div className="flex justify-between text-xs sm:text-m">
@@ -951,7 +2148,11 @@ export function SwapInterface({
               </span>
             </div>
             <div className="flex justify-between text-xs sm:text-m">
-              <span className="text-gray-300 lowercase">receive in {outputTokenSymbol}</span>
+              <span className="text-gray-300 lowercase">
+                receive in {outputAllocations.map(output =>
+                  outputAllocations.length > 1 ? `${output.symbol} ${output.weight.toFixed(0)}%` : output.symbol,
+                ).join(', ')}
+              </span>
               <span className="text-green-500 font-medium">
                 ~${liquidationValue.toFixed(2)}
               </span>
@@ -1127,6 +2328,51 @@ export function SwapInterface({
                   </div>
                 )}
 
+                {/* Output Split */}
+                {liquidationMode === 'percentage' && (
+                  <div className="space-y-2">
+                    <label className="block text-xs sm:text-m font-medium">split proceeds</label>
+                    <div className="flex items-center justify-between text-xs text-gray-300">
+                      <span>{outputTokenSymbol}</span>
+                      <span>{(outputAllocations.find(output => output.mint === outputToken)?.weight ?? 0).toFixed(0)}%</span>
+                    </div>
+                    {extraOutputs.map(output => (
+                      <div key={output.mint} className="flex items-center justify-between text-xs text-gray-300 space-x-2">
+                        <span className="flex-1 truncate">{output.symbol}</span>
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="1"
+                          value={output.weight}
+                          onChange={(e) => setExtraOutputWeight(output.mint, Number(e.target.value) || 0)}
+                          className="w-16 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-right"
+                        />
+                        <span>%</span>
+                        <button
+                          onClick={() => setExtraOutputs(prev => prev.filter(extra => extra.mint !== output.mint))}
+                          className="p-1 hover:bg-gray-600/50 rounded mobile-optimized"
+                          title="remove output"
+                        >
+                          <X className="h-3 w-3 text-gray-400" />
+                        </button>
+                      </div>
+                    ))}
+                    {outputCandidates.length > 0 && (
+                      <select
+                        value=""
+                        onChange={(e) => addExtraOutput(e.target.value)}
+                        className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-gray-300"
+                      >
+                        <option value="">add output token...</option>
+                        {outputCandidates.map(token => (
+                          <option key={token.mint} value={token.mint}>{token.symbol}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                )}
+
                 {/* Slippage Tolerance */}
                 <div>
                   <label className="block text-xs sm:text-m font-medium mb-2">
@@ -1146,35 +2392,466 @@ export function SwapInterface({
                     <span>5%</span>
                   </div>
                 </div>
+
+                {/* Batch Signing */}
+                <label className="flex items-center justify-between text-xs sm:text-m">
+                  <span>
+                    sign all swaps at once
+                    {!signAllTransactions && (
+                      <span className="block text-xs text-gray-500">not supported by this wallet</span>
+                    )}
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={batchSigning && Boolean(signAllTransactions)}
+                    disabled={!signAllTransactions}
+                    onChange={(e) => setBatchSigning(e.target.checked)}
+                    className="accent-gray-500 mobile-optimized"
+                  />
+                </label>
+
+                {/* Priority Fees */}
+                <div className="space-y-2">
+                  <label className="block text-xs sm:text-m">
+                    priority fee
+                    <span className="block text-xs text-gray-500">
+                      {feeAccounts.length > 0 ? 'sampled on the previewed routes' : 'sampled network-wide until quotes are previewed'}
+                      {' · raised after each expired attempt'}
+                    </span>
+                  </label>
+                  <div className="flex space-x-1 text-xs">
+                    {(['low', 'medium', 'high', 'custom'] as PriorityFeeLevel[]).map(level => (
+                      <button
+                        key={level}
+                        onClick={() => setPriorityFees(prev => ({ ...prev, level }))}
+                        className={`flex-1 px-2 py-1 rounded ${
+                          priorityFees.level === level ? 'bg-gray-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+                        }`}
+                      >
+                        <span className="block">{level}</span>
+                        {level !== 'custom' && feeLevels && (
+                          <span className="block text-gray-400">{describeBatchFee(feeLevels[level])}</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                  {priorityFees.level === 'custom' && (
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="text-gray-400">micro-lamports per compute unit</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1000"
+                        value={priorityFees.customMicroLamports ?? ''}
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value);
+                          setPriorityFees(prev => ({ ...prev, customMicroLamports: Number.isNaN(value) ? null : Math.max(0, value) }));
+                        }}
+                        className="w-24 bg-black border border-gray-700 rounded px-2 py-1 text-xs mobile-optimized"
+                      />
+                    </div>
+                  )}
+                  {priorityFees.level === 'custom' && priorityFees.customMicroLamports !== null && (
+                    <div className="text-xs text-gray-400">
+                      {describeBatchFee(priorityFees.customMicroLamports)} per batch
+                    </div>
+                  )}
+                  {priorityFees.level !== 'custom' && feeLevels && (
+                    <div className="text-xs text-gray-400">
+                      estimates per batch of {Math.max(1, executableLegs.length)} swap{executableLegs.length === 1 ? '' : 's'}
+                    </div>
+                  )}
+                </div>
+
+                {/* Jito Bundles */}
+                <label className="flex items-center justify-between text-xs sm:text-m">
+                  <span>
+                    submit as jito bundles
+                    <span className="block text-xs text-gray-500">
+                      {signAllTransactions ? 'up to 4 swaps land together per bundle' : 'not supported by this wallet'}
+                    </span>
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={useJitoBundles && Boolean(signAllTransactions)}
+                    disabled={!signAllTransactions}
+                    onChange={(e) => setUseJitoBundles(e.target.checked)}
+                    className="accent-gray-500 mobile-optimized"
+                  />
+                </label>
+                {useJitoBundles && signAllTransactions && (
+                  <div>
+                    <label className="block mb-2 text-xs sm:text-m">bundle tip (lamports)</label>
+                    <input
+                      type="number"
+                      min="1000"
+                      step="1000"
+                      value={jitoTipLamports}
+                      onChange={(e) => setJitoTipLamports(Math.max(1000, parseInt(e.target.value) || 0))}
+                      className="w-full bg-black border border-gray-700 rounded px-2 py-1 text-xs mobile-optimized"
+                    />
+                    <div className="text-xs text-gray-400 mt-1">
+                      {(jitoTipLamports / 1e9).toFixed(6)} SOL per bundle
+                    </div>
+                  </div>
+                )}
+
+                {/* Guardrails */}
+                <div className="space-y-2">
+                  <label className="block text-xs sm:text-m">guardrails (leave blank to disable)</label>
+                  {([
+                    ['maxPriceImpactPct', 'max price impact per swap (%)'],
+                    ['maxLegLossUsd', 'max loss per swap ($)'],
+                    ['maxBatchLossUsd', 'max loss per batch ($)'],
+                  ] as const).map(([field, label]) => (
+                    <div key={field} className="flex items-center justify-between text-xs">
+                      <span className="text-gray-400">{label}</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={guardrails[field] ?? ''}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          setGuardrails(prev => ({ ...prev, [field]: Number.isNaN(value) ? null : Math.max(0, value) }));
+                        }}
+                        className="w-24 bg-black border border-gray-700 rounded px-2 py-1 text-xs mobile-optimized"
+                      />
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-gray-400">when a swap breaches a limit</span>
+                    <select
+                      value={guardrails.breachAction}
+                      onChange={(e) => setGuardrails(prev => ({ ...prev, breachAction: e.target.value as SwapGuardrails['breachAction'] }))}
+                      className="bg-black border border-gray-700 rounded px-2 py-1 text-xs mobile-optimized"
+                    >
+                      <option value="confirm">ask me</option>
+                      <option value="skip">skip it</option>
+                    </select>
+                  </div>
+                </div>
+
+                {/* Routing */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label className="block text-xs sm:text-m">routing</label>
+                    {hasRouteConstraints(routeConstraints) && (
+                      <button onClick={resetRouteConstraints} className="text-xs text-gray-400 hover:text-white">
+                        reset
+                      </button>
+                    )}
+                  </div>
+                  {(routeConstraints.dexes.length > 0 || routeConstraints.excludeDexes.length > 0) && (
+                    <div className="flex flex-wrap gap-1 text-xs">
+                      {([
+                        ['dexes', 'bg-green-900/50 text-green-300'],
+                        ['excludeDexes', 'bg-red-900/50 text-red-300'],
+                      ] as const).flatMap(([field, colors]) => routeConstraints[field].map(label => (
+                        <button
+                          key={`${field}-${label}`}
+                          onClick={() => updateRouteConstraints({ [field]: routeConstraints[field].filter(dex => dex !== label) })}
+                          className={`${colors} px-2 py-0.5 rounded flex items-center space-x-1`}
+                          title={field === 'dexes' ? 'only route through this dex' : 'never route through this dex'}
+                        >
+                          <span>{field === 'dexes' ? 'only' : 'no'} {label}</span>
+                          <X className="h-3 w-3" />
+                        </button>
+                      )))}
+                    </div>
+                  )}
+                  <input
+                    type="text"
+                    placeholder={dexLabels.length > 0 ? `filter ${dexLabels.length} dexes...` : 'loading dexes...'}
+                    value={dexQuery}
+                    onChange={(e) => setDexQuery(e.target.value)}
+                    className="w-full bg-black border border-gray-700 rounded px-2 py-1 text-xs mobile-optimized"
+                  />
+                  {dexQuery && (
+                    <div className="max-h-32 overflow-y-auto mobile-scroll space-y-1">
+                      {dexLabels
+                        .filter(label => label.toLowerCase().includes(dexQuery.toLowerCase()))
+                        .slice(0, 8)
+                        .map(label => (
+                          <div key={label} className="flex items-center justify-between text-xs">
+                            <span className="text-gray-300">{label}</span>
+                            <div className="flex space-x-1">
+                              <button
+                                onClick={() => updateRouteConstraints({
+                                  dexes: [...routeConstraints.dexes.filter(dex => dex !== label), label],
+                                  excludeDexes: routeConstraints.excludeDexes.filter(dex => dex !== label),
+                                })}
+                                className="bg-gray-700 hover:bg-green-800 px-2 py-0.5 rounded"
+                              >
+                                allow
+                              </button>
+                              <button
+                                onClick={() => updateRouteConstraints({
+                                  dexes: routeConstraints.dexes.filter(dex => dex !== label),
+                                  excludeDexes: [...routeConstraints.excludeDexes.filter(dex => dex !== label), label],
+                                })}
+                                className="bg-gray-700 hover:bg-red-800 px-2 py-0.5 rounded"
+                              >
+                                exclude
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                    </div>
+                  )}
+                  <label className="flex items-center justify-between text-xs">
+                    <span className="text-gray-400">direct routes only</span>
+                    <input
+                      type="checkbox"
+                      checked={routeConstraints.onlyDirectRoutes}
+                      onChange={(e) => updateRouteConstraints({ onlyDirectRoutes: e.target.checked })}
+                      className="accent-gray-500 mobile-optimized"
+                    />
+                  </label>
+                  <label className="flex items-center justify-between text-xs">
+                    <span className="text-gray-400">major intermediate tokens only</span>
+                    <input
+                      type="checkbox"
+                      checked={routeConstraints.restrictIntermediateTokens}
+                      onChange={(e) => updateRouteConstraints({ restrictIntermediateTokens: e.target.checked })}
+                      className="accent-gray-500 mobile-optimized"
+                    />
+                  </label>
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-gray-400">
+                      max accounts
+                      <span className="block text-gray-500">lower caps keep swaps small enough for ledger</span>
+                    </span>
+                    <input
+                      type="number"
+                      min="16"
+                      max="64"
+                      step="1"
+                      value={routeConstraints.maxAccounts ?? ''}
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value);
+                        updateRouteConstraints({ maxAccounts: Number.isNaN(value) ? null : Math.min(64, Math.max(16, value)) });
+                      }}
+                      className="w-24 bg-black border border-gray-700 rounded px-2 py-1 text-xs mobile-optimized"
+                    />
+                  </div>
+                </div>
               </div>
             )}
           </div>
 
           {/* Token Breakdown */}
           <div className="mb-4 sm:mb-6 ml-3 mr-3">
-          <h3 className="font-medium text-m sm:text-base mb-2 sm:mb-3">{getProcessName} breakdown</h3>
+          <div className="flex justify-between items-center mb-2 sm:mb-3">
+            <h3 className="font-medium text-m sm:text-base">{getProcessName} breakdown</h3>
+            <button
+              onClick={previewQuotes}
+              disabled={previewing || swapping || !publicKey || executableLegs.length === 0}
+              className="text-xs bg-gray-600 hover:bg-gray-700 disabled:opacity-50 px-2 py-1 rounded flex items-center space-x-1 mobile-optimized"
+            >
+              <RefreshCw className={`h-3 w-3 ${previewing ? 'animate-spin' : ''}`} />
+              <span>{currentPreviews ? 'refresh quotes' : 'preview quotes'}</span>
+            </button>
+          </div>
             <div className="space-y-2 max-h-32 sm:max-h-48 overflow-y-auto mobile-scroll">
-              {proRataTokens
+              {[...proRataTokens]
                 .sort((a, b) => b.liquidationAmount - a.liquidationAmount)
                 .map((token) => (
-                  <div key={token.mint} className="flex justify-between items-center text-xs sm:text-m bg-gray-700/30 p-2 rounded">
+                  <div key={getLegKey(token)} title={token.rationale} className="flex justify-between items-center text-xs sm:text-m bg-gray-700/30 p-2 rounded">
                     <div className="flex items-center space-x-2 min-w-0 flex-1">
                       <TokenLogo token={token} size={6} />
                       <span className="truncate lowercase">{token.symbol}</span>
+                      {(outputAllocations.length > 1 || liquidationMode === 'rebalance') && token.outputMint && (
+                        <span className="text-xs text-gray-400 lowercase">→ {getOutputSymbol(token.outputMint)}</span>
+                      )}
+                      {legStatus[getLegKey(token)] && (
+                        <span className={`text-xs ${
+                          legStatus[getLegKey(token)] === 'landed' ? 'text-green-400'
+                            : legStatus[getLegKey(token)] === 'failed' ? 'text-red-400'
+                            : 'text-gray-400'
+                        }`}>
+                          {legStatus[getLegKey(token)]}
+                        </span>
+                      )}
                     </div>
                     <div className="text-right flex-shrink-0">
                       <div className="text-green-400">
                         {token.swapAmount > 0.0001 ? token.swapAmount.toFixed(4) : token.swapAmount.toFixed(6)}
                       </div>
+                      {token.transferFee && (
+                        <div className="text-yellow-400 text-xs">
+                          net {getNetUiAmount(token, token.swapAmount).toFixed(6)} after {(token.transferFee.transferFeeBasisPoints / 100).toFixed(2)}% fee
+                        </div>
+                      )}
                       <div className="text-gray-400 text-xs">
                         ${token.liquidationAmount.toFixed(2)}
                       </div>
+                      {currentPreviews?.[getLegKey(token)] && (() => {
+                        const preview = currentPreviews[getLegKey(token)];
+                        if (!preview.assessment) {
+                          return <div className="text-red-400 text-xs">{preview.error}</div>;
+                        }
+                        const { quotedOutput, quotedOutputUsd, priceImpactPct, lossUsd, breaches } = preview.assessment;
+                        return (
+                          <div
+                            className={`text-xs ${breaches.length > 0 ? 'text-red-400' : 'text-gray-400'}`}
+                            title={breaches.join(', ') || undefined}
+                          >
+                            {quotedOutputUsd !== undefined
+                              ? `≈ $${quotedOutputUsd.toFixed(2)} out`
+                              : `≈ ${quotedOutput.toFixed(4)} ${getOutputSymbol(token.outputMint)} out`}
+                            {!preview.route && ` · ${priceImpactPct.toFixed(2)}% impact`}
+                            {lossUsd !== undefined && ` · $${lossUsd.toFixed(2)} loss`}
+                            {preview.route && (
+                              <RouteBreakdown
+                                route={preview.route}
+                                symbolFor={getMintSymbol}
+                                note={hasRouteConstraints(routeConstraints) ? describeRouteConstraints(routeConstraints).join(', ') : undefined}
+                              />
+                            )}
+                          </div>
+                        );
+                      })()}
+                      {legSimulations[getLegKey(token)] && (
+                        <div
+                          className={`text-xs ${legSimulations[getLegKey(token)].ok ? 'text-gray-400' : 'text-red-400'}`}
+                          title={legSimulations[getLegKey(token)].error}
+                        >
+                          {legSimulations[getLegKey(token)].ok
+                            ? `sim: ${legSimulations[getLegKey(token)].inputChange?.toFixed(6)} / +${legSimulations[getLegKey(token)].outputChange?.toFixed(6)} · ${legSimulations[getLegKey(token)].unitsConsumed ?? 0} cu`
+                            : 'sim failed'}
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
             </div>
+            {previewTotals && (
+              <div className="flex justify-between text-xs text-gray-400 mt-2">
+                <span>
+                  {previewTotals.breaches > 0
+                    ? <span className="text-red-400">{previewTotals.breaches} swaps breach a guardrail</span>
+                    : 'all swaps within guardrails'}
+                </span>
+                {previewTotals.priced && (
+                  <span>≈ ${previewTotals.outputUsd.toFixed(2)} out · ${previewTotals.lossUsd.toFixed(2)} loss</span>
+                )}
+              </div>
+            )}
           </div>
+
+          {transferWarnings.length > 0 && (
+            <div className="ml-3 mr-3 mb-4 p-3 bg-yellow-500/20 border border-yellow-500 rounded-lg">
+              <div className="flex items-center space-x-2 text-yellow-200 mb-2">
+                <AlertCircle className="h-3 w-3 sm:h-4 sm:w-4" />
+                <span className="text-xs sm:text-m font-medium">skipped before quoting</span>
+              </div>
+              {transferWarnings.map(warning => (
+                <div key={warning} className="text-xs text-yellow-200">{warning}</div>
+              ))}
+            </div>
+          )}
+
+          {proRataPlan.unpriced.length > 0 && (
+            <div className="ml-3 mr-3 mb-4 p-3 bg-yellow-500/20 border border-yellow-500 rounded-lg">
+              <div className="flex items-center space-x-2 text-yellow-200 mb-2">
+                <AlertCircle className="h-3 w-3 sm:h-4 sm:w-4" />
+                <span className="text-xs sm:text-m font-medium">unpriced tokens</span>
+              </div>
+              {proRataPlan.unpriced.map(({ token, reason }) => (
+                <div key={token.mint} className="text-xs text-yellow-200">{reason}</div>
+              ))}
+            </div>
+          )}
+
+          {uncheckedMints.length > 0 && (
+            <div className="ml-3 mr-3 mb-4 text-xs text-gray-400">
+              checking {uncheckedMints.length} price{uncheckedMints.length === 1 ? '' : 's'} before sizing
+            </div>
+          )}
+
+          {flaggedPrices.length > 0 && (
+            <div className="ml-3 mr-3 mb-4 p-3 bg-yellow-500/20 border border-yellow-500 rounded-lg">
+              <div className="flex items-center space-x-2 text-yellow-200 mb-2">
+                <AlertCircle className="h-3 w-3 sm:h-4 sm:w-4" />
+                <span className="text-xs sm:text-m font-medium">low-confidence prices</span>
+              </div>
+              {flaggedPrices.map(check => {
+                const token = checkedTokens.find(candidate => candidate.mint === check.mint);
+                const overridden = priceOverrides.includes(check.mint);
+                return (
+                  <div key={check.mint} className="flex items-center justify-between gap-2 text-xs text-yellow-200">
+                    <span>
+                      {token?.symbol ?? check.mint.slice(0, 4)} ${check.price.toPrecision(4)}
+                      {check.priceSource && ` (${check.priceSource})`}
+                      {check.references.map(reference => ` vs ${reference.source} $${reference.price.toPrecision(4)}`).join(',')}
+                      {check.references.length > 0 ? ` · ${check.spreadPct.toFixed(1)}% spread` : ' · no reference price'}
+                      {!overridden && ', excluded from sizing'}
+                    </span>
+                    <button
+                      onClick={() => setPriceOverrides(prev => overridden
+                        ? prev.filter(mint => mint !== check.mint)
+                        : [...prev, check.mint])}
+                      className="bg-gray-600 hover:bg-gray-700 px-2 py-1 rounded whitespace-nowrap mobile-optimized"
+                    >
+                      {overridden ? 'exclude' : 'use anyway'}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
          
+          {/* Interrupted Batch */}
+          {interruptedBatch && (() => {
+            const progress = getBatchProgress(interruptedBatch);
+            return (
+              <div className="ml-3 mr-3 mb-4 p-3 bg-yellow-500/20 border border-yellow-500 rounded-lg">
+                <div className="flex items-center space-x-2 text-yellow-200 mb-2">
+                  <AlertCircle className="h-3 w-3 sm:h-4 sm:w-4" />
+                  <span className="text-xs sm:text-m font-medium">
+                    unfinished batch from {new Date(interruptedBatch.timestamp).toLocaleString()}
+                  </span>
+                </div>
+                <div className="text-xs text-yellow-200 mb-2">
+                  {progress.landed.length} landed, {progress.failed.length} failed, {progress.inFlight.length} in flight, {progress.remaining.length} remaining
+                  {' '}→ {interruptedBatch.outputs.map(output => output.symbol).join(', ')}
+                </div>
+                {progress.inFlight.length > 0 && (
+                  <div className="text-xs text-yellow-200 mb-2">
+                    in-flight swaps may still land until their blockhash expires, recheck in a minute
+                  </div>
+                )}
+                <div className="flex space-x-2">
+                  {progress.remaining.length > 0 && (
+                    <button
+                      onClick={resumeInterruptedBatch}
+                      disabled={swapping || !publicKey}
+                      className="text-xs bg-yellow-600 hover:bg-yellow-700 px-2 py-1 rounded mobile-optimized"
+                    >
+                      resume {progress.remaining.length} swaps
+                    </button>
+                  )}
+                  <button
+                    onClick={recheckInterruptedBatch}
+                    disabled={swapping}
+                    className="text-xs bg-gray-600 hover:bg-gray-700 px-2 py-1 rounded flex items-center space-x-1 mobile-optimized"
+                  >
+                    <RefreshCw className="h-3 w-3" />
+                    <span>recheck</span>
+                  </button>
+                  <button
+                    onClick={abandonInterruptedBatch}
+                    disabled={swapping || progress.inFlight.length > 0}
+                    className="text-xs bg-gray-600 hover:bg-gray-700 px-2 py-1 rounded mobile-optimized"
+                  >
+                    abandon
+                  </button>
+                </div>
+              </div>
+            );
+          })()}
+
           {/* Swap Results */}
           {swapResults.length > 0 && (
             <div className="ml-3 mr-3 mb-4 p-3 bg-gray-700/50 border border-gray-600 rounded-lg">
@@ -1182,12 +2859,12 @@ export function SwapInterface({
                 <h4 className="font-medium text-m sm:text-base">liquidation results</h4>
                 {hasFailedSwaps && (
                   <button
-                    onClick={() => {/* Add retry logic */}}
+                    onClick={retryFailedSwaps}
                     disabled={swapping}
                     className="text-xs bg-yellow-600 hover:bg-yellow-700 px-2 py-1 rounded flex items-center space-x-1 mobile-optimized"
                   >
                     <RefreshCw className="h-3 w-3" />
-                    <span>failed</span>
+                    <span>retry failed</span>
                   </button>
                 )}
               </div>
@@ -1200,8 +2877,22 @@ export function SwapInterface({
                       </span>
                     </div>
                     <div className="text-right flex-shrink-0">
-                      {result.error ? (
-                        <span className="text-red-400 text-xs">failed</span>
+                      {result.error && result.signature && !result.unresolved ? (
+                        // failed on chain, the transaction still shows the fee it burned
+                        <a
+                          href={`https://solscan.io/tx/${result.signature}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          title={result.error}
+                          className="text-red-400 hover:text-red-300 text-xs flex items-center space-x-1 mobile-optimized"
+                        >
+                          <span>failed</span>
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      ) : result.error ? (
+                        <span className="text-red-400 text-xs" title={result.simulation?.error ?? result.error}>
+                          {result.skipped ? 'skipped' : 'failed'}
+                        </span>
                       ) : result.signature ? (
                         <div className="flex flex-col items-end">
                           <a 
@@ -1215,7 +2906,29 @@ export function SwapInterface({
                           </a>
                           <div className="text-gray-400 text-xs">
                             {result.inputAmount > 0.0001 ? result.inputAmount.toFixed(4) : result.inputAmount.toFixed(6)}
+                            {result.outputAmount !== undefined && ` → ${result.outputAmount.toFixed(4)} ${getOutputSymbol(result.outputMint)}`}
                           </div>
+                          {result.fill && (
+                            <div
+                              className={`text-xs ${result.fill.realizedSlippagePct > 0 ? 'text-yellow-400' : 'text-gray-500'}`}
+                              title={`network fee ${result.fill.networkFeeLamports} lamports (priority ${result.fill.priorityFeeLamports})`}
+                            >
+                              {result.fill.realizedSlippagePct > 0 ? '-' : '+'}
+                              {Math.abs(result.fill.realizedSlippagePct).toFixed(2)}% vs quote
+                            </div>
+                          )}
+                          {result.fill && (
+                            <div className="text-xs text-gray-500">
+                              fee {(result.fill.networkFeeLamports / 1e9).toFixed(6)} SOL
+                              {result.computeUnitPriceMicroLamports !== undefined &&
+                                ` · bid ${result.computeUnitPriceMicroLamports.toLocaleString()} µlamports/cu`}
+                            </div>
+                          )}
+                          {result.route && (
+                            <div className="text-right">
+                              <RouteBreakdown route={result.route} symbolFor={getMintSymbol} />
+                            </div>
+                          )}
                         </div>
                       ) : (
                         <span className="text-yellow-400 text-xs">pending</span>
@@ -1227,6 +2940,33 @@ export function SwapInterface({
             </div>
           )}
 
+          {/* Guardrail Confirmation */}
+          {pendingBreach && (
+            <div className="ml-3 mr-3 mb-4 p-3 bg-red-500/20 border border-red-500 rounded-lg">
+              <div className="flex items-center space-x-2 text-red-200 mb-2">
+                <AlertCircle className="h-3 w-3 sm:h-4 sm:w-4" />
+                <span className="text-xs sm:text-m font-medium">{pendingBreach.token.symbol} breaches a guardrail</span>
+              </div>
+              {pendingBreach.assessment.breaches.map(breach => (
+                <div key={breach} className="text-xs text-red-200">{breach}</div>
+              ))}
+              <div className="flex space-x-2 mt-2">
+                <button
+                  onClick={() => resolveBreach(true)}
+                  className="text-xs bg-red-600 hover:bg-red-700 px-2 py-1 rounded mobile-optimized"
+                >
+                  swap anyway
+                </button>
+                <button
+                  onClick={() => resolveBreach(false)}
+                  className="text-xs bg-gray-600 hover:bg-gray-700 px-2 py-1 rounded mobile-optimized"
+                >
+                  skip {pendingBreach.token.symbol}
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Current Step Indicator */}
           {swapping && currentStep && (
             <div className="ml-3 mr-3 mb-4 p-3 bg-gray-500/20 border border-gray-400 rounded-lg">
@@ -1250,20 +2990,34 @@ export function SwapInterface({
           {/* Action Buttons */}
           <div className="space-y-3 ml-2 mr-2">
             <button
-            onClick={executeLiquidation}
-            disabled={swapping || selectedTokens.length === 0 || !publicKey || liquidationPercentage === 0}
+            onClick={isPlacingOrder ? placeLiquidationOrder : isScheduling ? scheduleLiquidation : executeLiquidation}
+            disabled={
+              swapping || !publicKey ||
+              (liquidationMode === 'rebalance'
+                ? executableLegs.length === 0
+                : selectedTokens.length === 0 ||
+                  (liquidationMode === 'percentage' ? liquidationPercentage === 0 : !currentTargetPlan))
+            }
             className="w-full bg-gradient-to-r from-gray-600 to-gray-600 hover:from-gray-500 hover:to-gray-400 disabled:opacity-50 disabled:cursor-not-allowed py-3 px-4 rounded-lg font-medium transition-all duration-200 transform hover:scale-[1.02] flex items-center justify-center space-x-2 mobile-optimized text-m sm:text-base min-h-[44px]"
           >
             {swapping ? (
               <>
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                <span className="text-xs sm:text-m">{getActionVerb}ing... ({swapResults.filter(r => !r.error).length}/{selectedTokens.length})</span>
+                <span className="text-xs sm:text-m">{getActionVerb}ing... ({swapResults.filter(r => !r.error).length}/{executableLegs.length})</span>
               </>
             ) : (
               <>
                 <DollarSign className="h-4 w-4" />
                 <span className="text-xs sm:text-m">
-                  {isLiquidation ? 'liquidate' : `swap pro-rata to ${outputTokenSymbol}`} {liquidationPercentage}%
+                  {isPlacingOrder
+                    ? `${orderKind === 'stop-loss' ? 'stop' : 'take profit'} ${liquidationPercentage}% at $${orderThresholdUsd || '...'}`
+                    : isScheduling
+                    ? `schedule ${liquidationPercentage}% in ${sliceCount} slices over ${windowHours}h`
+                    : liquidationMode === 'rebalance'
+                    ? `rebalance with ${executableLegs.length} trades`
+                    : liquidationMode === 'target'
+                    ? `raise ${targetOutputAmount} ${outputTokenSymbol}`
+                    : `${isLiquidation ? 'liquidate' : `swap pro-rata to ${outputTokenSymbol}`} ${liquidationPercentage}%`}
                 </span>
                 {isLedgerConnected && <Shield className="h-4 w-4 ml-1" />}
               </>
@@ -1280,6 +3034,16 @@ export function SwapInterface({
         )}
         </>
       )}
+
+      {/* slices keep running without a selection, so the list stays visible */}
+      <SchedulePanel
+        schedules={schedules}
+        busy={swapping}
+        onPause={pauseScheduledPlan}
+        onResume={resumeScheduledPlan}
+        onCancel={cancelSchedule}
+        onReleaseNonces={(schedule) => void withScheduleErrors(() => releaseScheduleNonces(schedule))}
+      />
     </div>
   </div>
 );
@@ -15,6 +15,8 @@ import { useColumnState } from '../hooks/useColumnState';
 interface TokenTableProps {
   tokens: TokenBalance[];
   loading: boolean;
+  // last known prices are showing while fresh ones load
+  refreshingPrices?: boolean;
   onTokenSelect: (mint: string, selected: boolean) => void;
   onSelectAll: (selected: boolean) => void;
   selectedTokens: TokenBalance[];
@@ -319,6 +321,7 @@ const sortableKeyboardCoordinates = (event: any, args: any) => {
 export function TokenTable({ 
   tokens,
   loading, 
+  refreshingPrices = false,
   onTokenSelect, 
   selectedTokens, 
   totalSelectedValue,
@@ -372,6 +375,14 @@ const {
     return tokens.reduce((total, token) => total + (token.value || 0), 0);
   }, [tokens]);
 
+  // the oldest price on screen, so cached prices never pass for live ones
+  const pricesAsOf = useMemo(() => {
+    const timestamps = tokens
+      .map(token => token.priceTimestamp)
+      .filter((timestamp): timestamp is number => timestamp !== undefined);
+    return timestamps.length > 0 ? Math.min(...timestamps) : null;
+  }, [tokens]);
+
   const filteredAndSortedTokens = useMemo(() => {
     let tokensToShow = excludeTokenMint 
       ? tokens.filter(token => token.mint !== excludeTokenMint)
@@ -505,8 +516,16 @@ const {
       
       case 'price':
         return (
-          <div className="text-right text-xs sm:text-sm font-mono text-gray-200">
+          <div
+            className="text-right text-xs sm:text-sm font-mono text-gray-200"
+            title={token.priceSource && token.priceTimestamp
+              ? `priced by ${token.priceSource} at ${new Date(token.priceTimestamp).toLocaleTimeString()}`
+              : undefined}
+          >
             {token.price ? `$${token.price < 0.01 ? token.price.toExponential(2) : token.price.toFixed(2)}` : '- -'}
+            {token.price && token.priceSource ? (
+              <div className="text-xs text-gray-500 font-sans">{token.priceSource}</div>
+            ) : null}
           </div>
         );
       
@@ -637,6 +656,15 @@ const {
               }`}
             />
           </button>
+          {pricesAsOf !== null && (
+            <span
+              className="text-xs text-gray-500"
+              title={new Date(pricesAsOf).toLocaleString()}
+            >
+              prices as of {new Date(pricesAsOf).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              {refreshingPrices && ' · refreshing'}
+            </span>
+          )}
         </div>
         
         {isMounted ? (
@@ -8,6 +8,7 @@ import { TokenBalance } from '../types/token';
 import { useColumnState } from '../hooks/useColumnState';
 import { TokenTable } from './TokenTable';
 import { TokenService } from '../lib/api';
+import { planProRata } from '../lib/swap/planner';
 import { 
   Search, ExternalLink, Calculator, Copy, CheckCircle, AlertCircle, 
   Wallet, Download, ArrowUpDown, ChevronUp, ChevronDown, HelpCircle,
@@ -1396,32 +1397,14 @@ const analyzeWallet = async (walletAddress: string, nickname?: string | null, is
     }
   }, [allTokens.length, liquidationAmount, liquidationType, selectedTokensValue]);
 
-  const calculateProRataAmounts = () => {
-    if (allTokens.length === 0 || liquidationValue <= 0 || selectedTokens.size === 0) return [];
+  const proRataPlan = useMemo(() => {
+    if (allTokens.length === 0 || liquidationValue <= 0 || selectedTokens.size === 0) return null;
 
     const selectedTokenData = allTokens.filter(token => selectedTokens.has(token.mint));
-    
-    return selectedTokenData.map(token => {
-      const tokenValue = token.value || 0;
-      const tokenPercentageOfSelected = selectedTokensValue > 0 ? tokenValue / selectedTokensValue : 0;
-      
-      const tokenLiquidationValue = liquidationValue * tokenPercentageOfSelected;
-      const tokenPrice = token.price || 1;
-      const tokenAmountToSwap = tokenPrice > 0 ? tokenLiquidationValue / tokenPrice : 0;
-      
-      const finalSwapAmount = Math.min(tokenAmountToSwap, token.uiAmount);
-      
-      return {
-        ...token,
-        swapAmount: finalSwapAmount,
-        percentage: tokenPercentageOfSelected * 100,
-        liquidationAmount: tokenLiquidationValue,
-        originalAmount: token.uiAmount
-      };
-    });
-  };
+    return planProRata(selectedTokenData, { targetValueUsd: liquidationValue });
+  }, [allTokens, liquidationValue, selectedTokens]);
 
-  const proRataTokens = calculateProRataAmounts();
+  const proRataTokens = proRataPlan?.legs ?? [];
   const hasLiquidation = liquidationValue > 0 && selectedTokens.size > 0;
   const remainingPortfolioValue = totalPortfolioValue - liquidationValue;
 
@@ -1468,7 +1451,10 @@ const analyzeWallet = async (walletAddress: string, nickname?: string | null, is
     `\n💸 summary:\n` +
     `liquidating: $${liquidationValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}\n` +
     `of selected: ${((liquidationValue / selectedTokensValue) * 100).toFixed(1)}%\n` +
-    `remaining portfolio: $${remainingPortfolioValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}\n` : '';
+    `remaining portfolio: $${remainingPortfolioValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}\n` +
+    (proRataPlan && proRataPlan.unpriced.length > 0
+      ? `unpriced (excluded): ${proRataPlan.unpriced.map(({ token }) => token.symbol).join(', ')}\n`
+      : '') : '';
 
   const footer = `\n💡 instructions:\n` +
     `• use this list with your multisig wallet for pro-rata swaps\n` +
@@ -0,0 +1,258 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { TokenService } from '../lib/api';
+import { getConfirmedTokens } from '../lib/priceSources';
+import { TokenBalance } from '../types/token';
+import { BasketQuote, LiquidationOrder, OrderOutcome } from '../types/orders';
+import {
+  describeOrder,
+  getBasketValueUsd,
+  isOrderExpired,
+  isOrderTriggered,
+  settleOrder,
+  transitionOrder,
+} from '../lib/swap/orders';
+
+const HISTORY_ENABLED = process.env.NEXT_PUBLIC_ENABLE_HISTORY === 'true';
+const STORAGE_KEY = 'liquidation-orders';
+// token prices are cached for a minute, polling faster would only re-read them
+const POLL_MS = 60000;
+
+// returns null when it cannot run right now, the order then stays triggered
+export type OrderExecutor = (order: LiquidationOrder) => Promise<OrderOutcome> | null;
+
+interface LiquidationOrdersContextType {
+  orders: LiquidationOrder[];
+  quotes: Record<string, BasketQuote>;
+  addOrder: (order: LiquidationOrder) => Promise<void>;
+  cancelOrder: (orderId: string) => void;
+  executeOrder: (orderId: string) => void;
+  setExecutor: (executor: OrderExecutor | null) => void;
+}
+
+const LiquidationOrdersContext = createContext<LiquidationOrdersContextType>({
+  orders: [],
+  quotes: {},
+  addOrder: async () => {},
+  cancelOrder: () => {},
+  executeOrder: () => {},
+  setExecutor: () => {},
+});
+
+const getStorageKey = (wallet: string) => `${STORAGE_KEY}:${wallet}`;
+
+const readLocalOrders = (wallet: string): LiquidationOrder[] => {
+  const saved = localStorage.getItem(getStorageKey(wallet));
+  return saved ? JSON.parse(saved) : [];
+};
+
+const fetchRemoteOrders = async (wallet: string): Promise<LiquidationOrder[] | null> => {
+  if (!HISTORY_ENABLED) return null;
+  const response = await fetch(`/api/orders?wallet=${wallet}`);
+  if (!response.ok) return null;
+  const { data } = await response.json();
+  return data ?? null;
+};
+
+const toWatchedToken = (token: LiquidationOrder['tokens'][number]): TokenBalance => ({
+  mint: token.mint,
+  symbol: token.symbol,
+  name: token.symbol,
+  decimals: token.decimals,
+  uiAmount: token.uiAmount,
+  value: 0,
+  selected: false,
+});
+
+const notifyTriggered = (order: LiquidationOrder) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  if (document.visibilityState === 'visible') return;
+  new Notification('liquidation order triggered', {
+    body: `${describeOrder(order)}. open the app to sign.`,
+    tag: order.orderId,
+  });
+};
+
+// watches open orders against live prices while the app is open. a triggered
+// order is handed to the registered executor when the tab is visible and the
+// user is notified otherwise
+export const LiquidationOrdersProvider = ({ children }: { children: React.ReactNode }) => {
+  const { publicKey } = useWallet();
+  const wallet = publicKey?.toBase58();
+  const [orders, setOrders] = useState<LiquidationOrder[]>([]);
+  const [quotes, setQuotes] = useState<Record<string, BasketQuote>>({});
+  const ordersRef = useRef<LiquidationOrder[]>([]);
+  const executorRef = useRef<OrderExecutor | null>(null);
+  const runningRef = useRef(false);
+
+  useEffect(() => {
+    ordersRef.current = orders;
+  });
+
+  const persistOrder = useCallback(async (order: LiquidationOrder) => {
+    const next = [
+      order,
+      ...ordersRef.current.filter(existing => existing.orderId !== order.orderId),
+    ].sort((a, b) => b.createdAt - a.createdAt);
+    ordersRef.current = next;
+    setOrders(next);
+    localStorage.setItem(getStorageKey(order.wallet), JSON.stringify(next));
+
+    if (!HISTORY_ENABLED) return;
+    try {
+      await fetch('/api/orders', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-wallet': order.wallet,
+        },
+        body: JSON.stringify(order),
+      });
+    } catch (error) {
+      console.error('failed to save liquidation order:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!wallet) return;
+
+    let cancelled = false;
+    const loadOrders = async () => {
+      try {
+        const remote = await fetchRemoteOrders(wallet).catch(() => null);
+        const loaded = remote ?? readLocalOrders(wallet);
+        if (cancelled) return;
+
+        ordersRef.current = loaded;
+        setOrders(loaded);
+        // an order still executing was cut off by a reload, its batch is
+        // picked up by the interrupted batch recovery
+        loaded
+          .filter(order => order.status === 'executing')
+          .forEach(order => void persistOrder(settleOrder(order, { error: 'interrupted before the order finished' })));
+      } catch (error) {
+        console.error('failed to load liquidation orders:', error);
+      }
+    };
+
+    loadOrders();
+    return () => {
+      cancelled = true;
+    };
+  }, [wallet, persistOrder]);
+
+  const runOrder = useCallback(async (order: LiquidationOrder) => {
+    const executor = executorRef.current;
+    if (!executor || runningRef.current || order.status !== 'triggered') return;
+
+    const pending = executor(order);
+    if (!pending) return;
+
+    runningRef.current = true;
+    const executing = transitionOrder(order, 'executing');
+    await persistOrder(executing);
+
+    let outcome: OrderOutcome;
+    try {
+      outcome = await pending;
+    } catch (error) {
+      outcome = { error: error instanceof Error ? error.message : 'order execution failed' };
+    } finally {
+      runningRef.current = false;
+    }
+    await persistOrder(settleOrder(executing, outcome));
+  }, [persistOrder]);
+
+  const runTriggered = useCallback(() => {
+    if (document.visibilityState !== 'visible') return;
+    const triggered = ordersRef.current.find(order => order.status === 'triggered');
+    if (triggered) void runOrder(triggered);
+  }, [runOrder]);
+
+  const checkOrders = useCallback(async () => {
+    const now = Date.now();
+    const pending = ordersRef.current.filter(order => order.status === 'active' || order.status === 'triggered');
+
+    for (const order of pending.filter(candidate => isOrderExpired(candidate, now))) {
+      await persistOrder(transitionOrder(order, 'expired'));
+    }
+
+    const watching = pending.filter(order => order.status === 'active' && !isOrderExpired(order, now));
+    if (watching.length > 0) {
+      const tokens = new Map(watching.flatMap(order => order.tokens).map(token => [token.mint, toWatchedToken(token)]));
+      try {
+        const tokenService = TokenService.getInstance();
+        const priced = await tokenService.getTokenPrices(Array.from(tokens.values()));
+        const checked: Record<string, BasketQuote> = {};
+
+        for (const order of watching) {
+          const valueUsd = getBasketValueUsd(order, priced);
+          if (valueUsd === null) continue;
+          checked[order.orderId] = { valueUsd, checkedAt: now };
+          if (!isOrderTriggered(order, valueUsd)) continue;
+
+          // an order only fires once every price it was valued at is confirmed
+          const basket = priced.filter(token => order.tokens.some(ordered => ordered.mint === token.mint));
+          const checks = await tokenService.checkPriceConfidence(basket).catch(error => {
+            console.warn('failed to check order prices:', error);
+            return [];
+          });
+          if (getBasketValueUsd(order, getConfirmedTokens(basket, checks)) === null) {
+            console.warn(`not triggering ${describeOrder(order)} until its prices are confirmed`);
+            continue;
+          }
+
+          const triggered = transitionOrder(order, 'triggered', { basketValueUsd: valueUsd });
+          await persistOrder(triggered);
+          notifyTriggered(triggered);
+        }
+
+        setQuotes(prev => ({ ...prev, ...checked }));
+      } catch (error) {
+        console.warn('failed to price liquidation orders:', error);
+      }
+    }
+
+    runTriggered();
+  }, [persistOrder, runTriggered]);
+
+  useEffect(() => {
+    if (!wallet) return;
+    const timer = setInterval(() => {
+      void checkOrders();
+    }, POLL_MS);
+    return () => clearInterval(timer);
+  }, [wallet, checkOrders]);
+
+  // orders that triggered in the background wait for the tab to come back
+  useEffect(() => {
+    document.addEventListener('visibilitychange', runTriggered);
+    return () => document.removeEventListener('visibilitychange', runTriggered);
+  }, [runTriggered]);
+
+  const addOrder = useCallback((order: LiquidationOrder) => persistOrder(order), [persistOrder]);
+
+  const cancelOrder = useCallback((orderId: string) => {
+    const order = ordersRef.current.find(existing => existing.orderId === orderId);
+    if (order && (order.status === 'active' || order.status === 'triggered')) {
+      void persistOrder(transitionOrder(order, 'cancelled'));
+    }
+  }, [persistOrder]);
+
+  const executeOrder = useCallback((orderId: string) => {
+    const order = ordersRef.current.find(existing => existing.orderId === orderId);
+    if (order) void runOrder(order);
+  }, [runOrder]);
+
+  const setExecutor = useCallback((executor: OrderExecutor | null) => {
+    executorRef.current = executor;
+  }, []);
+
+  return (
+    <LiquidationOrdersContext.Provider value={{ orders, quotes, addOrder, cancelOrder, executeOrder, setExecutor }}>
+      {children}
+    </LiquidationOrdersContext.Provider>
+  );
+};
+
+export const useLiquidationOrders = () => useContext(LiquidationOrdersContext);
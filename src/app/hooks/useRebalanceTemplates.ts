@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback } from 'react';
+import { saveRebalanceTemplates, getRebalanceTemplates } from '../lib/firestore/rebalanceTemplates';
+import { useAuth } from '../contexts/authContext';
+import { RebalanceTemplate } from '../types/rebalance';
+
+const STORAGE_KEY = 'rebalance-templates';
+
+const readLocalTemplates = (): RebalanceTemplate[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return saved ? JSON.parse(saved) : [];
+};
+
+export const useRebalanceTemplates = () => {
+  const { user } = useAuth();
+  const userId = user?.uid;
+  const [templates, setTemplates] = useState<RebalanceTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // signed-in users keep templates in firestore, localstorage is the fallback
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const saved = userId ? await getRebalanceTemplates(userId) : null;
+        setTemplates(saved ?? readLocalTemplates());
+      } catch (error) {
+        console.error('failed to load rebalance templates:', error);
+        setTemplates(readLocalTemplates());
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTemplates();
+  }, [userId]);
+
+  const persistTemplates = useCallback(async (next: RebalanceTemplate[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+
+    if (userId) {
+      try {
+        await saveRebalanceTemplates(userId, next);
+      } catch (error) {
+        console.error('failed to save rebalance templates to firestore:', error);
+      }
+    }
+  }, [userId]);
+
+  const saveTemplate = useCallback((template: RebalanceTemplate) => {
+    setTemplates(prev => {
+      const next = [...prev.filter(existing => existing.id !== template.id), template]
+        .sort((a, b) => a.name.localeCompare(b.name));
+      persistTemplates(next);
+      return next;
+    });
+  }, [persistTemplates]);
+
+  const deleteTemplate = useCallback((id: string) => {
+    setTemplates(prev => {
+      const next = prev.filter(template => template.id !== id);
+      persistTemplates(next);
+      return next;
+    });
+  }, [persistTemplates]);
+
+  return {
+    templates,
+    isLoading,
+    saveTemplate,
+    deleteTemplate,
+  };
+};
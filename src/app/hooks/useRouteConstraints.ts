@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback } from 'react';
+import { saveRouteSettings, getRouteSettings } from '../lib/firestore/routeSettings';
+import { useAuth } from '../contexts/authContext';
+import { RouteConstraints } from '../types/swap';
+import { DEFAULT_ROUTE_CONSTRAINTS } from '../lib/swap/routing';
+
+const STORAGE_KEY = 'route-constraints';
+
+// settings saved before a field existed fall back to its default
+const readLocalConstraints = (): RouteConstraints | null => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return saved ? { ...DEFAULT_ROUTE_CONSTRAINTS, ...JSON.parse(saved) } : null;
+};
+
+export const useRouteConstraints = () => {
+  const { user } = useAuth();
+  const userId = user?.uid;
+  const [constraints, setConstraints] = useState<RouteConstraints>(DEFAULT_ROUTE_CONSTRAINTS);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // signed-in users keep routing settings in firestore, localstorage is the fallback
+  useEffect(() => {
+    const loadConstraints = async () => {
+      try {
+        const saved = userId ? await getRouteSettings(userId) : null;
+        setConstraints(saved
+          ? { ...DEFAULT_ROUTE_CONSTRAINTS, ...saved }
+          : readLocalConstraints() ?? DEFAULT_ROUTE_CONSTRAINTS);
+      } catch (error) {
+        console.error('failed to load route settings:', error);
+        setConstraints(readLocalConstraints() ?? DEFAULT_ROUTE_CONSTRAINTS);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadConstraints();
+  }, [userId]);
+
+  const persistConstraints = useCallback(async (next: RouteConstraints) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+
+    if (userId) {
+      try {
+        await saveRouteSettings(userId, next);
+      } catch (error) {
+        console.error('failed to save route settings to firestore:', error);
+      }
+    }
+  }, [userId]);
+
+  const updateConstraints = useCallback((changes: Partial<RouteConstraints>) => {
+    setConstraints(prev => {
+      const next = { ...prev, ...changes };
+      persistConstraints(next);
+      return next;
+    });
+  }, [persistConstraints]);
+
+  const resetConstraints = useCallback(() => {
+    setConstraints(DEFAULT_ROUTE_CONSTRAINTS);
+    persistConstraints(DEFAULT_ROUTE_CONSTRAINTS);
+  }, [persistConstraints]);
+
+  return {
+    constraints,
+    isLoading,
+    updateConstraints,
+    resetConstraints,
+  };
+};
@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+import { rpcManager } from '../lib/rpcManager';
+import { EndpointHealth } from '../types/rpc';
+
+// live endpoint health, probing slots only while something is showing it
+export const useRpcHealth = (intervalMs: number = 15000) => {
+  const [health, setHealth] = useState<EndpointHealth[]>(() => rpcManager.getHealth());
+
+  useEffect(() => {
+    const unsubscribe = rpcManager.subscribe(() => setHealth(rpcManager.getHealth()));
+    const stopMonitoring = rpcManager.startMonitoring(intervalMs);
+
+    return () => {
+      unsubscribe();
+      stopMonitoring();
+    };
+  }, [intervalMs]);
+
+  return { health };
+};
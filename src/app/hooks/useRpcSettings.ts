@@ -0,0 +1,26 @@
+import { useState, useEffect, useCallback } from 'react';
+import { rpcManager } from '../lib/rpcManager';
+import { RpcSettings } from '../types/rpc';
+
+// rpc settings apply as soon as they are saved, no rebuild or reload needed
+export const useRpcSettings = () => {
+  const [settings, setSettings] = useState<RpcSettings>(() => rpcManager.getSettings());
+
+  useEffect(() => {
+    return rpcManager.subscribe(() => setSettings(rpcManager.getSettings()));
+  }, []);
+
+  const saveSettings = useCallback((next: RpcSettings) => {
+    rpcManager.updateSettings(next);
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    rpcManager.resetSettings();
+  }, []);
+
+  return {
+    settings,
+    saveSettings,
+    resetSettings,
+  };
+};
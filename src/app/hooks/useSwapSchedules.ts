@@ -0,0 +1,212 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ScheduledSlice, SwapSchedule } from '../types/schedule';
+import {
+  SliceOutcome,
+  cancelSchedule,
+  getDueSlice,
+  getInterruptedSlice,
+  pauseSchedule,
+  recordSlice,
+  resumeSchedule,
+  settleInterruptedSlice,
+  startSlice,
+} from '../lib/swap/schedule';
+
+const HISTORY_ENABLED = process.env.NEXT_PUBLIC_ENABLE_HISTORY === 'true';
+const STORAGE_KEY = 'swap-schedules';
+const TICK_MS = 15000;
+
+export type SliceRunner = (schedule: SwapSchedule, slice: ScheduledSlice, batchId: string) => Promise<SliceOutcome>;
+
+// checks what an interrupted slice's batch landed, or null while any of its
+// legs are still unresolved
+export type SliceReconciler = (slice: ScheduledSlice) => Promise<SliceOutcome | null>;
+
+interface ScheduleRunnerOptions {
+  runSlice: SliceRunner;
+  reconcileSlice: SliceReconciler;
+  // slices wait while another batch is running
+  busy: boolean;
+}
+
+const getStorageKey = (wallet: string) => `${STORAGE_KEY}:${wallet}`;
+
+const readLocalSchedules = (wallet: string): SwapSchedule[] => {
+  const saved = localStorage.getItem(getStorageKey(wallet));
+  return saved ? JSON.parse(saved) : [];
+};
+
+const fetchRemoteSchedules = async (wallet: string): Promise<SwapSchedule[] | null> => {
+  if (!HISTORY_ENABLED) return null;
+  const response = await fetch(`/api/schedules?wallet=${wallet}`);
+  if (!response.ok) return null;
+  const { data } = await response.json();
+  return data ?? null;
+};
+
+// schedules sit in the swapSchedules collection when history is enabled and
+// in localstorage either way. slices only run while this hook is mounted
+export const useSwapSchedules = (wallet: string | undefined, options: ScheduleRunnerOptions) => {
+  const [schedules, setSchedules] = useState<SwapSchedule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const schedulesRef = useRef<SwapSchedule[]>([]);
+  const runSliceRef = useRef(options.runSlice);
+  const reconcileSliceRef = useRef(options.reconcileSlice);
+  const busyRef = useRef(options.busy);
+  const runningRef = useRef(false);
+
+  useEffect(() => {
+    schedulesRef.current = schedules;
+    runSliceRef.current = options.runSlice;
+    reconcileSliceRef.current = options.reconcileSlice;
+    busyRef.current = options.busy;
+  });
+
+  const persistSchedule = useCallback(async (schedule: SwapSchedule) => {
+    const next = [
+      schedule,
+      ...schedulesRef.current.filter(existing => existing.scheduleId !== schedule.scheduleId),
+    ].sort((a, b) => b.createdAt - a.createdAt);
+    schedulesRef.current = next;
+    setSchedules(next);
+    localStorage.setItem(getStorageKey(schedule.wallet), JSON.stringify(next));
+
+    if (!HISTORY_ENABLED) return;
+    try {
+      await fetch('/api/schedules', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-wallet': schedule.wallet,
+        },
+        body: JSON.stringify(schedule),
+      });
+    } catch (error) {
+      console.error('failed to save swap schedule:', error);
+    }
+  }, []);
+
+  // a slice left running by a reload is settled once its batch is
+  // reconciled. one with legs still unresolved stays running, and holds back
+  // the rest of its schedule, until a later check settles it
+  const settleInterrupted = useCallback(async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+
+    try {
+      for (const schedule of schedulesRef.current) {
+        const slice = getInterruptedSlice(schedule);
+        if (!slice) continue;
+
+        try {
+          const outcome = await reconcileSliceRef.current(slice);
+          if (outcome) await persistSchedule(settleInterruptedSlice(schedule, outcome));
+        } catch (error) {
+          console.warn('failed to reconcile interrupted slice:', error);
+        }
+      }
+    } finally {
+      runningRef.current = false;
+    }
+  }, [persistSchedule]);
+
+  useEffect(() => {
+    if (!wallet) return;
+
+    let cancelled = false;
+    const loadSchedules = async () => {
+      try {
+        const remote = await fetchRemoteSchedules(wallet).catch(() => null);
+        const loaded = remote ?? readLocalSchedules(wallet);
+        if (cancelled) return;
+
+        schedulesRef.current = loaded;
+        setSchedules(loaded);
+        void settleInterrupted();
+      } catch (error) {
+        console.error('failed to load swap schedules:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadSchedules();
+    return () => {
+      cancelled = true;
+    };
+  }, [wallet, settleInterrupted]);
+
+  const findSchedule = (scheduleId: string) =>
+    schedulesRef.current.find(schedule => schedule.scheduleId === scheduleId);
+
+  // runs at most one due slice at a time. a pause or cancel that arrives
+  // while the slice is running is kept when its outcome is recorded
+  const runDueSlice = useCallback(async () => {
+    if (runningRef.current || busyRef.current) return;
+    await settleInterrupted();
+    if (runningRef.current) return;
+
+    const schedule = schedulesRef.current.find(candidate => getDueSlice(candidate));
+    const slice = schedule ? getDueSlice(schedule) : undefined;
+    if (!schedule || !slice) return;
+
+    runningRef.current = true;
+    const batchId = typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}`;
+    const running = startSlice(schedule, slice.index, batchId);
+    await persistSchedule(running);
+
+    let outcome: SliceOutcome;
+    try {
+      outcome = await runSliceRef.current(running, slice, batchId);
+    } catch (error) {
+      outcome = { results: [], error: error instanceof Error ? error.message : 'slice failed' };
+    } finally {
+      runningRef.current = false;
+    }
+
+    const latest = schedulesRef.current.find(existing => existing.scheduleId === schedule.scheduleId) ?? running;
+    let recorded = recordSlice(running, slice.index, outcome);
+    if (latest.status === 'paused') recorded = pauseSchedule(recorded);
+    if (latest.status === 'cancelled') recorded = cancelSchedule(recorded);
+    await persistSchedule(recorded);
+  }, [persistSchedule, settleInterrupted]);
+
+  useEffect(() => {
+    if (!wallet) return;
+    const timer = setInterval(() => {
+      void runDueSlice();
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [wallet, runDueSlice]);
+
+  const addSchedule = useCallback((schedule: SwapSchedule) => persistSchedule(schedule), [persistSchedule]);
+
+  const pause = useCallback((scheduleId: string) => {
+    const schedule = findSchedule(scheduleId);
+    if (schedule?.status === 'active') void persistSchedule(pauseSchedule(schedule));
+  }, [persistSchedule]);
+
+  const resume = useCallback((scheduleId: string) => {
+    const schedule = findSchedule(scheduleId);
+    if (schedule?.status === 'paused') void persistSchedule(resumeSchedule(schedule));
+  }, [persistSchedule]);
+
+  const cancel = useCallback((scheduleId: string): SwapSchedule | null => {
+    const schedule = findSchedule(scheduleId);
+    if (!schedule || schedule.status === 'cancelled' || schedule.status === 'completed') return null;
+    const cancelled = cancelSchedule(schedule);
+    void persistSchedule(cancelled);
+    return cancelled;
+  }, [persistSchedule]);
+
+  return {
+    schedules,
+    isLoading,
+    addSchedule,
+    updateSchedule: persistSchedule,
+    pause,
+    resume,
+    cancel,
+    runDueSlice,
+  };
+};
@@ -0,0 +1,261 @@
+import { describe, expect, it } from 'vitest';
+import { LoadBalancer, LoadBalancerOptions } from '../loadBalancer';
+
+const HELIUS = 'https://mainnet.helius-rpc.test';
+const QUICKNODE = 'https://node.quiknode.test';
+const CUSTOM = 'https://rpc.custom.test';
+const MAINNET = 'https://api.mainnet-beta.solana.com';
+const SERUM = 'https://solana-api.projectserum.com';
+
+interface Behaviour {
+  latencyMs?: number;
+  // thrown by every call while set
+  error?: string;
+  slot?: number;
+  // leaves the call hanging until the test releases it
+  hang?: boolean;
+}
+
+// endpoints that answer from a script on a clock that only moves when they
+// are called, so latencies are exact
+const createEndpoints = (behaviours: Record<string, Behaviour>) => {
+  let clock = 0;
+  const calls: string[] = [];
+  const hanging: Array<() => void> = [];
+
+  const call = async (endpoint: string): Promise<string> => {
+    calls.push(endpoint);
+    const behaviour = behaviours[endpoint];
+    if (behaviour.hang) {
+      await new Promise<void>(resolve => hanging.push(resolve));
+    }
+    clock += behaviour.latencyMs ?? 0;
+    if (behaviour.error) throw new Error(behaviour.error);
+    return endpoint;
+  };
+
+  const createBalancer = (options: LoadBalancerOptions = {}) => new LoadBalancer(Object.keys(behaviours), {
+    getSlot: async endpoint => behaviours[endpoint].slot ?? 0,
+    now: () => clock,
+    ...options,
+  });
+
+  return {
+    behaviours,
+    calls,
+    call,
+    createBalancer,
+    advance: (ms: number) => {
+      clock += ms;
+    },
+    release: () => hanging.splice(0).forEach(resolve => resolve()),
+  };
+};
+
+// lets the attempts still in flight record their outcome
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const healthOf = (balancer: LoadBalancer, name: string) => {
+  const health = balancer.getHealth().find(entry => entry.name === name);
+  if (!health) throw new Error(`no health for ${name}`);
+  return health;
+};
+
+describe('LoadBalancer scoring', () => {
+  it('tries untimed endpoints at the default latency and then keeps to the fastest', async () => {
+    const endpoints = createEndpoints({ [HELIUS]: { latencyMs: 800 }, [QUICKNODE]: { latencyMs: 100 } });
+    const balancer = endpoints.createBalancer();
+
+    for (let i = 0; i < 3; i++) {
+      await balancer.executeWithRetry(endpoints.call);
+    }
+
+    expect(endpoints.calls).toEqual([HELIUS, QUICKNODE, QUICKNODE]);
+    expect(healthOf(balancer, 'helius').latencyMs).toBe(800);
+    expect(healthOf(balancer, 'quicknode').latencyMs).toBe(100);
+  });
+
+  it('weighs an endpoint down by its error rate until a slower one takes over', async () => {
+    const endpoints = createEndpoints({ [HELIUS]: { latencyMs: 100 }, [QUICKNODE]: { latencyMs: 250 } });
+    const balancer = endpoints.createBalancer();
+
+    await balancer.executeWithRetry(endpoints.call);
+    await balancer.executeWithRetry(endpoints.call);
+    endpoints.behaviours[HELIUS].error = 'timeout';
+    // one failure in three still leaves it ahead
+    await balancer.executeWithRetry(endpoints.call);
+    expect(healthOf(balancer, 'helius').score).toBe(233);
+
+    // two in four puts it behind
+    await balancer.executeWithRetry(endpoints.call);
+    delete endpoints.behaviours[HELIUS].error;
+    endpoints.calls.length = 0;
+    await balancer.executeWithRetry(endpoints.call);
+
+    expect(healthOf(balancer, 'helius')).toMatchObject({ errorRate: 0.5, score: 300, circuit: 'closed' });
+    expect(healthOf(balancer, 'quicknode').score).toBe(250);
+    expect(endpoints.calls).toEqual([QUICKNODE]);
+  });
+
+  it('penalises slot lag and keeps lagging endpoints out of fresh reads', async () => {
+    const endpoints = createEndpoints({ [HELIUS]: { slot: 990 }, [QUICKNODE]: { slot: 1000, latencyMs: 2000 } });
+    const balancer = endpoints.createBalancer({ slotLagPenaltyMs: 50 });
+
+    await balancer.probe();
+    expect(healthOf(balancer, 'helius')).toMatchObject({ slotLag: 10, score: 500 });
+    expect(healthOf(balancer, 'quicknode')).toMatchObject({ slotLag: 0, score: 0 });
+
+    // once slow enough, the fresh endpoint only wins reads that cap the lag
+    await balancer.executeWithRetry(endpoints.call);
+    await balancer.executeWithRetry(endpoints.call);
+    await balancer.executeWithRetry(endpoints.call, 1, undefined, 5);
+
+    expect(endpoints.calls).toEqual([QUICKNODE, HELIUS, QUICKNODE]);
+  });
+});
+
+describe('LoadBalancer circuit breaker', () => {
+  const setup = () => {
+    const endpoints = createEndpoints({ [HELIUS]: { error: 'connection reset' }, [QUICKNODE]: {} });
+    const balancer = endpoints.createBalancer({ failureThreshold: 2, cooldownMs: 1000, maxCooldownMs: 4000 });
+    return { endpoints, balancer };
+  };
+
+  // opens helius's circuit, leaving the clock at the moment it opened
+  const open = async ({ endpoints, balancer }: ReturnType<typeof setup>) => {
+    await balancer.executeOnAll(endpoints.call);
+    await balancer.executeOnAll(endpoints.call);
+    await settle();
+    endpoints.calls.length = 0;
+  };
+
+  it('opens after consecutive failures and takes the endpoint out of rotation', async () => {
+    const context = setup();
+    await open(context);
+    const { endpoints, balancer } = context;
+
+    expect(healthOf(balancer, 'helius')).toMatchObject({ circuit: 'open', retryAt: 1000, lastError: 'connection reset' });
+    await balancer.executeOnAll(endpoints.call);
+    expect(endpoints.calls).toEqual([QUICKNODE]);
+  });
+
+  it('lets one probe through once the cooldown passes and reopens for longer when it fails', async () => {
+    const context = setup();
+    await open(context);
+    const { endpoints, balancer } = context;
+
+    endpoints.advance(1000);
+    await balancer.executeOnAll(endpoints.call);
+    await settle();
+
+    expect(endpoints.calls).toEqual([QUICKNODE, HELIUS]);
+    expect(healthOf(balancer, 'helius')).toMatchObject({ circuit: 'open', retryAt: 3000 });
+  });
+
+  it('keeps other calls off a half-open endpoint while its probe is in flight', async () => {
+    const context = setup();
+    await open(context);
+    const { endpoints, balancer } = context;
+
+    endpoints.advance(1000);
+    endpoints.behaviours[HELIUS].hang = true;
+    await balancer.executeOnAll(endpoints.call);
+    await balancer.executeOnAll(endpoints.call);
+    expect(endpoints.calls).toEqual([QUICKNODE, HELIUS, QUICKNODE]);
+    expect(healthOf(balancer, 'helius').circuit).toBe('half-open');
+
+    endpoints.release();
+    await settle();
+  });
+
+  it('closes again once a probe succeeds', async () => {
+    const context = setup();
+    await open(context);
+    const { endpoints, balancer } = context;
+
+    endpoints.advance(1000);
+    delete endpoints.behaviours[HELIUS].error;
+    await balancer.executeOnAll(endpoints.call);
+    await settle();
+
+    const health = healthOf(balancer, 'helius');
+    expect(health.circuit).toBe('closed');
+    expect(health.retryAt).toBeUndefined();
+  });
+});
+
+describe('LoadBalancer method routing', () => {
+  it('keeps das calls off endpoints known not to serve them', async () => {
+    const endpoints = createEndpoints({ [MAINNET]: {}, [HELIUS]: {} });
+    const balancer = endpoints.createBalancer();
+
+    await balancer.executeWithRetry(endpoints.call, 3, 'getBalance');
+    await balancer.executeWithRetry(endpoints.call, 3, 'getAssetBatch');
+
+    expect(endpoints.calls).toEqual([MAINNET, HELIUS]);
+  });
+
+  it('learns an unsupported method from the endpoint without marking it down', async () => {
+    const endpoints = createEndpoints({ [CUSTOM]: { error: 'Method not found' }, [HELIUS]: {} });
+    const balancer = endpoints.createBalancer();
+
+    await balancer.executeWithRetry(endpoints.call, 3, 'getPriorityFeeEstimate');
+    delete endpoints.behaviours[CUSTOM].error;
+    await balancer.executeWithRetry(endpoints.call, 3, 'getPriorityFeeEstimate');
+
+    expect(endpoints.calls).toEqual([CUSTOM, HELIUS, HELIUS]);
+    expect(healthOf(balancer, 'custom rpc')).toMatchObject({
+      circuit: 'closed',
+      errorRate: 0,
+      unsupportedMethods: ['getPriorityFeeEstimate'],
+    });
+  });
+
+  it('fails a method no endpoint serves', async () => {
+    const endpoints = createEndpoints({ [MAINNET]: {}, [SERUM]: {} });
+    const balancer = endpoints.createBalancer();
+
+    await expect(balancer.executeWithRetry(endpoints.call, 3, 'getAsset')).rejects.toThrow(/no rpc endpoint supports getAsset/);
+    expect(endpoints.calls).toHaveLength(0);
+  });
+});
+
+describe('LoadBalancer.executeOnAll', () => {
+  const isAccepted = (value: string) => !value.startsWith('error');
+
+  it('prefers an accepted answer over an earlier rejected one', async () => {
+    const endpoints = createEndpoints({ [HELIUS]: {}, [QUICKNODE]: { hang: true } });
+    const balancer = endpoints.createBalancer();
+    const answers: Record<string, string> = { [HELIUS]: 'error: preflight failed', [QUICKNODE]: 'signature' };
+
+    const sending = balancer.executeOnAll(
+      endpoint => endpoints.call(endpoint).then(() => answers[endpoint]),
+      undefined,
+      isAccepted,
+    );
+    await settle();
+    endpoints.release();
+
+    expect(await sending).toBe('signature');
+  });
+
+  it('returns a rejected answer only when no endpoint did better', async () => {
+    const endpoints = createEndpoints({ [HELIUS]: { error: 'connection reset' }, [QUICKNODE]: {} });
+    const balancer = endpoints.createBalancer();
+
+    const answer = await balancer.executeOnAll(
+      endpoint => endpoints.call(endpoint).then(() => 'error: blockhash not found'),
+      undefined,
+      isAccepted,
+    );
+
+    expect(answer).toBe('error: blockhash not found');
+  });
+
+  it('fails once every endpoint has', async () => {
+    const endpoints = createEndpoints({ [HELIUS]: { error: 'connection reset' }, [QUICKNODE]: { error: 'timeout' } });
+    const balancer = endpoints.createBalancer();
+
+    await expect(balancer.executeOnAll(endpoints.call, undefined, isAccepted)).rejects.toThrow(/all 2 rpc endpoints failed/);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+  JupiterPriceSource,
+  QuotePriceSource,
+  assessPriceConfidence,
+  fetchPrices,
+  getConfirmedTokens,
+} from '../priceSources';
+import { TokenBalance } from '../../types/token';
+
+const makeToken = (index: number): TokenBalance => ({
+  mint: `mint-${index}`,
+  symbol: `T${index}`,
+  name: `token ${index}`,
+  decimals: 6,
+  uiAmount: 100,
+  price: 1,
+  value: 100,
+  selected: true,
+});
+
+const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+// a request that only ends when its signal aborts it
+const hang = (signal?: AbortSignal | null) => new Promise<Response>((_, reject) => {
+  signal?.addEventListener('abort', () => reject(signal.reason));
+});
+
+describe('QuotePriceSource', () => {
+  it('quotes tokens a few at a time', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const fetcher = (async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      inFlight--;
+      return json({ inAmount: '20000000', outAmount: '20000000' });
+    }) as typeof fetch;
+
+    const prices = await new QuotePriceSource(undefined, undefined, fetcher)
+      .getPrices(Array.from({ length: 10 }, (_, index) => makeToken(index)));
+
+    expect(prices.size).toBe(10);
+    expect(peak).toBe(4);
+  });
+
+  it('skips a token whose quote fails and prices the rest', async () => {
+    const fetcher = (async (input: RequestInfo | URL) => {
+      if (new URL(input.toString()).searchParams.get('inputMint') === 'mint-0') {
+        throw new Error('connection reset');
+      }
+      return json({ inAmount: '20000000', outAmount: '10000000' });
+    }) as typeof fetch;
+
+    const prices = await new QuotePriceSource(undefined, undefined, fetcher)
+      .getPrices([makeToken(0), makeToken(1)]);
+
+    expect(Array.from(prices.keys())).toEqual(['mint-1']);
+    expect(prices.get('mint-1')?.price).toBeCloseTo(0.5);
+  });
+});
+
+describe('fetchPrices', () => {
+  it('keeps the quotes that came in before a source timed out and aborts the rest', async () => {
+    const aborted: string[] = [];
+    const fetcher = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const mint = new URL(input.toString()).searchParams.get('inputMint') as string;
+      if (mint === 'mint-0') {
+        return json({ inAmount: '20000000', outAmount: '20000000' });
+      }
+      return hang(init?.signal).catch(error => {
+        aborted.push(mint);
+        throw error;
+      });
+    }) as typeof fetch;
+
+    const prices = await fetchPrices(
+      [new QuotePriceSource(undefined, 50, fetcher)],
+      [makeToken(0), makeToken(1), makeToken(2)],
+    );
+
+    expect(Array.from(prices.keys())).toEqual(['mint-0']);
+    expect(prices.get('mint-0')?.source).toBe('quote');
+    expect(aborted.sort()).toEqual(['mint-1', 'mint-2']);
+  });
+
+  it('keeps the jupiter batches that came in before the next one timed out', async () => {
+    const tokens = Array.from({ length: 60 }, (_, index) => makeToken(index));
+    let batch = 0;
+    const fetcher = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (batch++ > 0) return hang(init?.signal);
+      const ids = (new URL(input.toString()).searchParams.get('ids') as string).split(',');
+      return json(Object.fromEntries(ids.map(id => [id, { usdPrice: 2 }])));
+    }) as typeof fetch;
+
+    const prices = await fetchPrices([new JupiterPriceSource(undefined, 50, fetcher)], tokens);
+
+    expect(prices.size).toBe(50);
+    expect(prices.get('mint-0')).toMatchObject({ price: 2, source: 'jupiter' });
+  });
+});
+
+describe('getConfirmedTokens', () => {
+  const agreeing = [{ source: 'quote', price: 1 }];
+
+  it('holds tokens that are unchecked, checked at another price or flagged', () => {
+    const [confident, unchecked, repriced, flagged] = [0, 1, 2, 3].map(makeToken);
+    const checks = [
+      assessPriceConfidence(confident, agreeing),
+      assessPriceConfidence({ ...repriced, price: 2 }, agreeing),
+      assessPriceConfidence(flagged, [{ source: 'quote', price: 1.5 }]),
+    ];
+
+    expect(getConfirmedTokens([confident, unchecked, repriced, flagged], checks)).toEqual([confident]);
+  });
+
+  it('lets a flagged token through once the user accepts its price', () => {
+    const flagged = makeToken(0);
+    const checks = [assessPriceConfidence(flagged, [])];
+
+    expect(getConfirmedTokens([flagged], checks, ['mint-0'])).toEqual([flagged]);
+  });
+
+  it('passes unpriced tokens, nothing is sized from them', () => {
+    const unpriced = { ...makeToken(0), price: 0 };
+
+    expect(getConfirmedTokens([unpriced], [])).toEqual([unpriced]);
+  });
+});
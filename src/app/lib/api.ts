@@ -1,15 +1,29 @@
 import { Connection, PublicKey } from '@solana/web3.js';
-import { TokenBalance, TokenInfo, PriceProgress } from '../types/token';
-
-const HELIUS_RPC_URL = process.env.NEXT_PUBLIC_HELIUS_API_KEY 
-  ? `https://mainnet.helius-rpc.com/?api-key=${process.env.NEXT_PUBLIC_HELIUS_API_KEY}`
-  : 'https://mainnet.helius-rpc.com/';
-
-const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
-const SOL_MINT = 'So11111111111111111111111111111111111111112';
+import { TokenBalance, TokenInfo, PriceCheck, PriceProgress, PriceReference } from '../types/token';
+import {
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  MintExtensionInfo,
+  ParsedExtension,
+  parseMintExtensions,
+} from './tokenExtensions';
+import {
+  HeliusPriceSource,
+  JupiterPriceSource,
+  PeggedPriceSource,
+  PoolPriceSource,
+  PriceQuote,
+  PriceSource,
+  QuotePriceSource,
+  assessPriceConfidence,
+  fetchPrices,
+} from './priceSources';
+import { PersistentCache } from './persistentCache';
+import { HELIUS_RPC_URL, rpcManager } from './rpcManager';
 
 interface ParsedTokenAccountInfo {
   mint: string;
+  state?: string;
   tokenAmount: {
     amount: string;
     decimals: number;
@@ -27,6 +41,25 @@ interface ParsedTokenAccount {
   };
 }
 
+interface ParsedMintData {
+  parsed?: {
+    info?: {
+      extensions?: ParsedExtension[];
+    };
+  };
+}
+
+const MINT_BATCH_SIZE = 100;
+
+const TOKEN_LIST_KEY = 'jupiter';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CachedPrice {
+  price: number;
+  source: string;
+  timestamp: number;
+}
+
 interface HeliusAssetContent {
   metadata?: {
     symbol?: string;
@@ -43,87 +76,43 @@ interface HeliusAssetContent {
 interface HeliusAsset {
   id: string;
   content?: HeliusAssetContent;
-  token_info?: {
-    price_info?: {
-      price_per_token?: number;
-      total_price?: number;
-    };
-  };
-}
-
-const RPC_ENDPOINTS = [
-  process.env.NEXT_PUBLIC_RPC_ENDPOINT_1,
-  process.env.NEXT_PUBLIC_RPC_ENDPOINT_2,
-].filter(Boolean) as string[]; 
-
-const FALLBACK_RPC_ENDPOINTS = [
-  'https://api.mainnet-beta.solana.com',
-  'https://solana-api.projectserum.com'
-];
-
-class LoadBalancer {
-  private currentIndex = 0;
-
-  constructor(private endpoints: string[]) {
-    if (endpoints.length === 0) {
-      this.endpoints = FALLBACK_RPC_ENDPOINTS;
-      console.warn('using fallback rpc endpoints. please configure RPC_ENDPOINT environment variables for better performance.');
-    }
-  }
-
-  async getNextEndpoint(): Promise<string> {
-    const endpoint = this.endpoints[this.currentIndex];
-    this.currentIndex = (this.currentIndex + 1) % this.endpoints.length;
-    return endpoint;
-  }
-
-  async executeWithRetry<T>(
-    operation: (endpoint: string) => Promise<T>,
-    maxRetries: number = 3
-  ): Promise<T> {
-    let lastError: Error | null = null;
-    
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      const endpoint = await this.getNextEndpoint();
-      
-      try {
-        const result = await operation(endpoint);
-        return result;
-      } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'unknown error occurred';
-        lastError = new Error(errorMessage);
-        
-        if (errorMessage.includes('403') || errorMessage.includes('429') || errorMessage.includes('401')) {
-          continue;
-        }
-      }
-    }
-    
-    throw new Error(`all rpc endpoints failed after ${maxRetries} attempts. last error: ${lastError?.message}`);
-  }
-
-  public getEndpointName(endpoint: string): string {
-    if (endpoint.includes('quiknode')) return 'quicknode';
-    if (endpoint.includes('helius')) return 'helius';
-    if (endpoint.includes('alchemy')) return 'alchemy';
-    if (endpoint.includes('serum')) return 'serum';
-    if (endpoint.includes('mainnet-beta')) return 'solana mainnet';
-    return 'custom rpc';
-  }
-
-  getEndpoints(): string[] {
-    return this.endpoints;
-  }
 }
 
-const rpcLoadBalancer = new LoadBalancer(RPC_ENDPOINTS);
-
 export class TokenService {
   private static instance: TokenService | null = null;
   private tokenMap: Map<string, TokenInfo> = new Map();
   private tokenListLoaded: boolean = false;
-  private priceCache: Map<string, { price: number; timestamp: number }> = new Map();
+  // shared by every caller while the list is loading, so it is fetched once
+  private tokenListLoading: Promise<void> | null = null;
   private readonly PRICE_CACHE_DURATION = 60000;
+  // survive reloads: last known prices show instantly while fresh ones load
+  private priceCache = new PersistentCache<CachedPrice>('prices', {
+    ttlMs: this.PRICE_CACHE_DURATION,
+    staleMs: DAY_MS,
+    maxEntries: 2000,
+  });
+  private tokenListCache = new PersistentCache<TokenInfo[]>('token-list', {
+    ttlMs: DAY_MS,
+    staleMs: 7 * DAY_MS,
+    maxEntries: 1,
+  });
+  // asked in this order, each only for the tokens the ones before missed
+  private readonly priceSources: PriceSource[] = [
+    // das calls are routed to the configured das endpoints whatever the url
+    new HeliusPriceSource(HELIUS_RPC_URL, undefined, rpcManager.fetch),
+    new JupiterPriceSource(),
+    new PoolPriceSource(operation =>
+      rpcManager.execute(
+        'read',
+        endpoint => operation(this.createConnection(endpoint)),
+        'getMultipleAccounts'
+      )
+    ),
+    new PeggedPriceSource(),
+  ];
+  private readonly quotePriceSource = new QuotePriceSource();
+  private priceCheckCache: Map<string, PriceCheck> = new Map();
+  private pendingPriceChecks: Map<string, Promise<PriceCheck[]>> = new Map();
 
   private constructor() {
     this.loadTokenList();
@@ -140,28 +129,56 @@ export class TokenService {
     return new Connection(endpoint, 'confirmed');
   }
 
-  private async loadTokenList(): Promise<void> {
-    if (this.tokenListLoaded) return;
-
+  private async downloadTokenList(): Promise<boolean> {
     try {
       const response = await fetch('https://cache.jup.ag/tokens');
       
       if (response.ok) {
-        const tokens = await response.json();
+        const tokens: TokenInfo[] = (await response.json()).filter((token: TokenInfo) => token.address);
         
-        tokens.forEach((token: TokenInfo) => {
-          if (token.address) {
-            this.tokenMap.set(token.address, token);
-          }
+        tokens.forEach(token => {
+          this.tokenMap.set(token.address, token);
         });
         
-        this.tokenListLoaded = true;
-        return;
+        void this.tokenListCache.set(TOKEN_LIST_KEY, tokens);
+        return true;
       }
     } catch (error) {
       console.warn('failed to load token list:', error);
     }
 
+    return false;
+  }
+
+  private loadTokenList(): Promise<void> {
+    if (!this.tokenListLoading) {
+      this.tokenListLoading = this.readTokenList().catch(error => {
+        // a failed load can be tried again by the next caller
+        this.tokenListLoading = null;
+        throw error;
+      });
+    }
+    return this.tokenListLoading;
+  }
+
+  private async readTokenList(): Promise<void> {
+
+    // the last downloaded list is used straight away and refreshed once stale
+    const cached = await this.tokenListCache.get(TOKEN_LIST_KEY);
+    if (cached) {
+      cached.value.forEach(token => {
+        this.tokenMap.set(token.address, token);
+      });
+      this.tokenListLoaded = true;
+      if (cached.stale) void this.downloadTokenList();
+      return;
+    }
+
+    if (await this.downloadTokenList()) {
+      this.tokenListLoaded = true;
+      return;
+    }
+
     const fallbackTokens = [
       {
         address: 'So11111111111111111111111111111111111111112',
@@ -205,14 +222,18 @@ export class TokenService {
   async getTokenBalances(walletAddress: string): Promise<TokenBalance[]> {
     await this.ensureTokenListLoaded();
 
-    return await rpcLoadBalancer.executeWithRetry(async (endpoint) => {
+    return await rpcManager.execute('read', async (endpoint) => {
       const connection = this.createConnection(endpoint);
       const publicKey = new PublicKey(walletAddress);
       
-      const [tokenAccounts, solBalance] = await Promise.all([
+      const [tokenAccounts, token2022Accounts, solBalance] = await Promise.all([
         connection.getParsedTokenAccountsByOwner(
           publicKey,
-          { programId: new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA') }
+          { programId: new PublicKey(TOKEN_PROGRAM_ID) }
+        ),
+        connection.getParsedTokenAccountsByOwner(
+          publicKey,
+          { programId: new PublicKey(TOKEN_2022_PROGRAM_ID) }
         ),
         connection.getBalance(publicKey)
       ]);
@@ -226,6 +247,7 @@ export class TokenService {
           symbol: 'SOL',
           name: 'Solana',
           balance: solBalance,
+          rawAmount: solBalance.toString(),
           decimals: 9,
           uiAmount: solAmount,
           price: 0,
@@ -235,8 +257,19 @@ export class TokenService {
         });
       }
 
-      const mintAddresses = tokenAccounts.value
-        .map((account: ParsedTokenAccount) => {
+      const ownedAccounts = [
+        ...tokenAccounts.value.map(account => ({
+          account: account as ParsedTokenAccount,
+          tokenProgram: TOKEN_PROGRAM_ID
+        })),
+        ...token2022Accounts.value.map(account => ({
+          account: account as ParsedTokenAccount,
+          tokenProgram: TOKEN_2022_PROGRAM_ID
+        }))
+      ];
+
+      const mintAddresses = ownedAccounts
+        .map(({ account }) => {
           try {
             const accountInfo = account.account.data.parsed.info;
             const tokenAmount = accountInfo.tokenAmount;
@@ -250,9 +283,19 @@ export class TokenService {
         })
         .filter((mint: string | null): mint is string => mint !== null);
 
-      const tokenMetadataMap = await this.fetchTokenMetadataBatch(mintAddresses);
+      const token2022Mints = ownedAccounts
+        .filter(({ account, tokenProgram }) =>
+          tokenProgram === TOKEN_2022_PROGRAM_ID &&
+          account.account.data.parsed.info.tokenAmount.uiAmount > 0
+        )
+        .map(({ account }) => account.account.data.parsed.info.mint);
+
+      const [tokenMetadataMap, mintExtensionMap] = await Promise.all([
+        this.fetchTokenMetadataBatch(mintAddresses),
+        this.fetchMintExtensions(connection, token2022Mints)
+      ]);
 
-      for (const account of tokenAccounts.value as ParsedTokenAccount[]) {
+      for (const { account, tokenProgram } of ownedAccounts) {
         try {
           const accountInfo = account.account.data.parsed.info;
           const mint = accountInfo.mint;
@@ -261,25 +304,62 @@ export class TokenService {
           if (tokenAmount.uiAmount > 0) {
             const heliusMetadata = tokenMetadataMap.get(mint);
             const tokenInfo = this.tokenMap.get(mint);
+            const mintExtensions = mintExtensionMap.get(mint);
             
             tokens.push({
               mint: mint,
               symbol: heliusMetadata?.symbol || tokenInfo?.symbol || 'UNKNOWN',
               name: heliusMetadata?.name || tokenInfo?.name || 'Unknown Token',
               balance: Number(tokenAmount.amount),
+              rawAmount: tokenAmount.amount,
               decimals: tokenAmount.decimals,
               uiAmount: tokenAmount.uiAmount,
               price: 0,
               value: 0,
               selected: false,
-              logoURI: heliusMetadata?.logoURI || tokenInfo?.logoURI || null
+              logoURI: heliusMetadata?.logoURI || tokenInfo?.logoURI || null,
+              tokenProgram,
+              transferFee: mintExtensions?.transferFee ?? null,
+              nonTransferable: mintExtensions?.nonTransferable ?? false,
+              frozen: accountInfo.state === 'frozen'
             });
           }
         } catch (error) {
+          console.warn('skipping malformed token account:', error);
         }
       }
       return tokens;
-    });
+    }, 'getParsedTokenAccountsByOwner');
+  }
+
+  private async fetchMintExtensions(
+    connection: Connection,
+    mintAddresses: string[]
+  ): Promise<Map<string, MintExtensionInfo>> {
+    const extensionMap = new Map<string, MintExtensionInfo>();
+    const uniqueMints = Array.from(new Set(mintAddresses));
+
+    if (uniqueMints.length === 0) return extensionMap;
+
+    try {
+      const { epoch } = await connection.getEpochInfo();
+
+      for (let i = 0; i < uniqueMints.length; i += MINT_BATCH_SIZE) {
+        const batch = uniqueMints.slice(i, i + MINT_BATCH_SIZE);
+        const mintAccounts = await connection.getMultipleParsedAccounts(
+          batch.map(mint => new PublicKey(mint))
+        );
+
+        mintAccounts.value.forEach((mintAccount, index) => {
+          const data = mintAccount?.data as ParsedMintData | undefined;
+          extensionMap.set(batch[index], parseMintExtensions(data?.parsed?.info?.extensions, epoch));
+        });
+      }
+    } catch (error) {
+      console.warn('failed to fetch token-2022 mint extensions:', error);
+    }
+
+    return extensionMap;
   }
 
   private async fetchTokenMetadataBatch(mintAddresses: string[]): Promise<Map<string, { symbol: string; name: string; logoURI: string | null }>> {
@@ -288,7 +368,7 @@ export class TokenService {
     if (mintAddresses.length === 0) return metadataMap;
 
     try {
-      const response = await fetch(HELIUS_RPC_URL, {
+      const response = await rpcManager.fetch(HELIUS_RPC_URL, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -331,165 +411,141 @@ export class TokenService {
       return [];
     }
 
-    const now = Date.now();
-    const cachedResults: TokenBalance[] = [];
-    const tokensToFetch: TokenBalance[] = [];
-
-    for (const token of tokens) {
-      const cached = this.priceCache.get(token.mint);
-      if (cached && (now - cached.timestamp) < this.PRICE_CACHE_DURATION) {
-        const value = cached.price * token.uiAmount;
-        cachedResults.push({
-          ...token,
-          price: cached.price,
-          value
-        });
+    // kept in input order, whether a price comes from the cache or a fetch
+    const results: Array<TokenBalance | undefined> = new Array(tokens.length);
+    const tokensToFetch: Array<{ token: TokenBalance; index: number }> = [];
+    const cachedPrices = await this.priceCache.getMany(tokens.map(token => token.mint));
+
+    tokens.forEach((token, index) => {
+      const cached = cachedPrices.get(token.mint);
+      if (cached && !cached.stale) {
+        results[index] = this.applyCachedPrice(token, cached.value);
       } else {
-        tokensToFetch.push(token);
+        tokensToFetch.push({ token, index });
       }
-    }
+    });
+    const cachedCount = tokens.length - tokensToFetch.length;
 
-    if (tokensToFetch.length === 0) {
-      if (onProgress) {
-        onProgress({
-          current: tokens.length,
-          total: tokens.length,
-          currentToken: 'complete'
-        });
-      }
-      return cachedResults;
-    }
+    if (tokensToFetch.length > 0) {
+      const prices = await fetchPrices(this.priceSources, tokensToFetch.map(({ token }) => token));
+      void this.priceCache.setMany(Array.from(prices.entries()).map(([mint, quote]) => [
+        mint,
+        { price: quote.price, source: quote.source, timestamp: quote.timestamp }
+      ]));
 
-    try {
-      const mintAddresses = tokensToFetch.map(t => t.mint);
-      
-      const response = await fetch(HELIUS_RPC_URL, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: '1',
-          method: 'getAssetBatch',
-          params: {
-            ids: mintAddresses
-          }
-        })
-      });
+      tokensToFetch.forEach(({ token, index }, fetched) => {
+        const quote = prices.get(token.mint);
 
-      if (!response.ok) {
-        throw new Error(`Helius API error: ${response.status}`);
-      }
+        if (onProgress) {
+          onProgress({
+            current: cachedCount + fetched + 1,
+            total: tokens.length,
+            currentToken: token.symbol
+          });
+        }
 
-      const data: { result?: HeliusAsset[] } = await response.json();
-      
-      if (Array.isArray(data.result)) {
-        const priceMap = new Map<string, number>();
-        const assetMap = new Map<string, HeliusAsset>();
-        
-        data.result.forEach((asset) => {
-          if (asset && asset.id) {
-            assetMap.set(asset.id, asset);
-          }
-        });
-        
-        tokensToFetch.forEach((token) => {
-          const asset = assetMap.get(token.mint);
-          
-          let price = 0;
+        // unpriced tokens stay at zero so they can be retried
+        const price = quote?.price ?? 0;
+        results[index] = {
+          ...token,
+          symbol: quote?.metadata?.symbol || token.symbol,
+          name: quote?.metadata?.name || token.name,
+          logoURI: quote?.metadata?.logoURI || token.logoURI,
+          price,
+          ...(quote ? { priceSource: quote.source, priceTimestamp: quote.timestamp } : {}),
+          value: price * token.uiAmount
+        };
+      });
+    }
 
-          if (asset) {
-            const priceInfo = asset.token_info?.price_info;
-            
-            if (priceInfo && priceInfo.price_per_token) {
-              price = priceInfo.price_per_token;
-              
-              this.priceCache.set(token.mint, {
-                price,
-                timestamp: now
-              });
-            } else if (token.mint === USDC_MINT) {
-              price = 1;
-              this.priceCache.set(token.mint, {
-                price: 1,
-                timestamp: now
-              });
-            } else if (token.mint === SOL_MINT) {
-              if (priceInfo?.total_price && token.uiAmount > 0) {
-                price = priceInfo.total_price / token.uiAmount;
-              }
-              
-              if (price > 0) {
-                this.priceCache.set(token.mint, {
-                  price,
-                  timestamp: now
-                });
-              }
-            }
-          } else if (token.mint === USDC_MINT) {
-            price = 1;
-            this.priceCache.set(token.mint, {
-              price: 1,
-              timestamp: now
-            });
-          }
+    if (onProgress) {
+      onProgress({
+        current: tokens.length,
+        total: tokens.length,
+        currentToken: 'complete'
+      });
+    }
 
-          priceMap.set(token.mint, price);
+    return results as TokenBalance[];
+  }
 
-          if (onProgress) {
-            onProgress({
-              current: cachedResults.length + priceMap.size,
-              total: tokens.length,
-              currentToken: token.symbol
-            });
-          }
-        });
+  private applyCachedPrice(token: TokenBalance, cached: CachedPrice): TokenBalance {
+    return {
+      ...token,
+      price: cached.price,
+      priceSource: cached.source,
+      priceTimestamp: cached.timestamp,
+      value: cached.price * token.uiAmount
+    };
+  }
 
-        const fetchedResults = tokensToFetch.map(token => {
-          const price = priceMap.get(token.mint) || 0;
-          const value = price * token.uiAmount;
-          
-          return {
-            ...token,
-            price,
-            value
-          };
-        });
+  // prices from the persistent cache however old, without touching the
+  // network. tokens it has never priced are returned unchanged
+  async getLastKnownPrices(tokens: TokenBalance[]): Promise<TokenBalance[]> {
+    const cachedPrices = await this.priceCache.getMany(tokens.map(token => token.mint));
+    return tokens.map(token => {
+      const cached = cachedPrices.get(token.mint);
+      return cached ? this.applyCachedPrice(token, cached.value) : token;
+    });
+  }
 
-        const allResults = [...cachedResults, ...fetchedResults];
-        
-        for (const result of fetchedResults) {
-          const asset = data.result?.find((a) => a.id === result.mint);
-          if (asset) {
-            const symbol = asset.content?.metadata?.symbol || result.symbol;
-            const name = asset.content?.metadata?.name || result.name;
-            const logoURI = asset.content?.links?.image || asset.content?.files?.[0]?.uri || result.logoURI;
-            
-            result.symbol = symbol;
-            result.name = name;
-            result.logoURI = logoURI;
-          }
-        }
+  // checks every priced token against the next live source that can price it
+  // and against the rate a small jupiter quote implies. a price the
+  // references disagree with by more than the threshold, or that no
+  // reference could be found for, is low-confidence
+  async checkPriceConfidence(tokens: TokenBalance[], thresholdPct?: number): Promise<PriceCheck[]> {
+    // callers re-render often, so an identical check already running is shared
+    const key = `${thresholdPct ?? ''}|${tokens.map(token => `${token.mint}:${token.price ?? 0}`).join(',')}`;
+    const pending = this.pendingPriceChecks.get(key);
+    if (pending) return pending;
+
+    const check = this.runPriceChecks(tokens, thresholdPct)
+      .finally(() => this.pendingPriceChecks.delete(key));
+    this.pendingPriceChecks.set(key, check);
+    return check;
+  }
 
-        if (onProgress) {
-          onProgress({
-            current: tokens.length,
-            total: tokens.length,
-            currentToken: 'complete'
-          });
-        }
-        
-        return allResults;
-      } else {
-        throw new Error('Invalid response from Helius API');
+  private async runPriceChecks(tokens: TokenBalance[], thresholdPct?: number): Promise<PriceCheck[]> {
+    const now = Date.now();
+    const cachedChecks: PriceCheck[] = [];
+    const priced = tokens.filter(token => {
+      if (!token.price || token.price <= 0) return false;
+      const cached = this.priceCheckCache.get(token.mint);
+      if (cached && cached.price === token.price && (now - cached.checkedAt) < this.PRICE_CACHE_DURATION) {
+        cachedChecks.push(cached);
+        return false;
       }
-    } catch (error) {
-      console.error('failed to fetch prices from Helius:', error);
-      return tokens.map(token => ({
-        ...token,
-        price: 0,
-        value: 0
-      }));
+      return true;
+    });
+    if (priced.length === 0) return cachedChecks;
+
+    const bySource = new Map<string, TokenBalance[]>();
+    for (const token of priced) {
+      const source = token.priceSource ?? '';
+      bySource.set(source, [...(bySource.get(source) ?? []), token]);
+    }
+
+    const secondary = new Map<string, PriceQuote & { source: string }>();
+    for (const [source, group] of bySource) {
+      // a peg is an assumption, not a second opinion
+      const others = this.priceSources.filter(candidate =>
+        candidate.name !== source && !(candidate instanceof PeggedPriceSource)
+      );
+      (await fetchPrices(others, group)).forEach((quote, mint) => secondary.set(mint, quote));
     }
+
+    const implied = await fetchPrices([this.quotePriceSource], priced);
+
+    const checks = priced.map(token => {
+      const references: PriceReference[] = [secondary.get(token.mint), implied.get(token.mint)]
+        .filter((quote): quote is PriceQuote & { source: string } => quote !== undefined)
+        .map(quote => ({ source: quote.source, price: quote.price }));
+      const check = assessPriceConfidence(token, references, thresholdPct);
+      this.priceCheckCache.set(token.mint, check);
+      return check;
+    });
+
+    return [...cachedChecks, ...checks];
   }
 
   async retryFailedTokens(
@@ -1,7 +1,8 @@
 import {
-  addDoc,
   collection,
+  doc,
   getDocs,
+  runTransaction,
   limit,
   orderBy,
   query,
@@ -11,32 +12,85 @@ import {
   Timestamp,
   QueryDocumentSnapshot,
   DocumentData,
+  DocumentReference,
+  Transaction,
 } from 'firebase/firestore';
 import { db } from '../firebase';
 import {
   HistorySummaryResponse,
+  HistoryVenueSummary,
   SwapBatchRecord,
   SwapBatchRecordWithId,
 } from '../../types/history';
+import { getRouteVenues } from '../swap/routing';
 
 const HISTORY_COLLECTION = 'swapHistory';
 const MAX_LIMIT = 100;
 
+// batch ids come from the client, so a write is refused when the batch it
+// names was recorded by another wallet
+export class BatchOwnershipError extends Error {
+  constructor(readonly batchId: string) {
+    super(`swap batch ${batchId} belongs to another wallet`);
+    this.name = 'BatchOwnershipError';
+  }
+}
+
+// the owner check and the write share a transaction, so a batch cannot
+// change hands between them
+const writeOwnedBatch = (
+  record: SwapBatchRecord,
+  write: (transaction: Transaction, docRef: DocumentReference) => void,
+): Promise<string> => {
+  const docRef = doc(collection(db, HISTORY_COLLECTION), record.batchId);
+  return runTransaction(db, async (transaction) => {
+    const existing = await transaction.get(docRef);
+    if (existing.exists() && existing.data().wallet !== record.wallet) {
+      throw new BatchOwnershipError(docRef.id);
+    }
+    write(transaction, docRef);
+    return docRef.id;
+  });
+};
+
+// batches are keyed by their batch id so that retried legs can update the
+// original record instead of creating a second one
 export const recordSwapBatch = async (
   record: SwapBatchRecord,
 ): Promise<string> => {
   try {
-    const docRef = await addDoc(collection(db, HISTORY_COLLECTION), {
-      ...record,
-      createdAt: serverTimestamp(),
+    return await writeOwnedBatch(record, (transaction, docRef) => {
+      transaction.set(docRef, {
+        ...record,
+        createdAt: serverTimestamp(),
+      });
     });
-    return docRef.id;
   } catch (error) {
     console.error('failed to record swap batch:', error);
     throw error;
   }
 };
 
+export const updateSwapBatch = async (
+  record: SwapBatchRecord,
+): Promise<string> => {
+  try {
+    return await writeOwnedBatch(record, (transaction, docRef) => {
+      transaction.set(
+        docRef,
+        {
+          ...record,
+          updatedAt: serverTimestamp(),
+        },
+        { merge: true },
+      );
+    });
+  } catch (error) {
+    console.error('failed to update swap batch:', error);
+    throw error;
+  }
+};
+
 interface HistoryQueryOptions {
   limit?: number;
   cursor?: QueryDocumentSnapshot<DocumentData>;
@@ -113,6 +167,7 @@ export const fetchHistorySummary = async (
 
     const snapshot = await getDocs(historyQuery);
     const pointsMap = new Map<string, number>();
+    const venuesMap = new Map<string, HistoryVenueSummary>();
     const sellIndicators: HistorySummaryResponse['sellIndicators'] = [];
 
     snapshot.forEach((doc) => {
@@ -121,12 +176,24 @@ export const fetchHistorySummary = async (
       const existing = pointsMap.get(dayKey) ?? 0;
       pointsMap.set(dayKey, existing + (data.totals.valueUsdOut || 0));
 
+      data.tokensIn.forEach((token) => {
+        if (!token.route) return;
+        getRouteVenues(token.route).forEach((label) => {
+          const venue = venuesMap.get(label) ?? { label, swaps: 0, valueUsd: 0 };
+          venue.swaps += 1;
+          venue.valueUsd += token.valueUsd;
+          venuesMap.set(label, venue);
+        });
+      });
+
       data.chartIndicators.forEach((indicator) => {
         sellIndicators.push({
           timestamp: indicator.timestamp,
           valueUsd: indicator.valueUsd,
           token: indicator.symbol,
-          outputToken: indicator.outputToken, 
+          outputToken: indicator.outputToken,
+          outputSymbol: indicator.outputSymbol,
+          outputValueUsd: indicator.outputValueUsd,
           type: indicator.type,
         });
       });
@@ -139,7 +206,9 @@ export const fetchHistorySummary = async (
       }))
       .sort((a, b) => a.timestamp - b.timestamp);
 
-    return { points, sellIndicators };
+    const venues = Array.from(venuesMap.values()).sort((a, b) => b.valueUsd - a.valueUsd);
+
+    return { points, sellIndicators, venues };
   } catch (error) {
     console.error('failed to fetch history summary:', error);
     throw error;
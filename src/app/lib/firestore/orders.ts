@@ -0,0 +1,55 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  limit,
+  orderBy,
+  query,
+  where,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { LiquidationOrder } from '../../types/orders';
+
+const ORDERS_COLLECTION = 'liquidationOrders';
+const MAX_LIMIT = 50;
+
+export const saveLiquidationOrder = async (
+  order: LiquidationOrder,
+): Promise<string> => {
+  try {
+    const docRef = doc(collection(db, ORDERS_COLLECTION), order.orderId);
+    await setDoc(
+      docRef,
+      {
+        ...order,
+        savedAt: serverTimestamp(),
+      },
+      { merge: true },
+    );
+    return docRef.id;
+  } catch (error) {
+    console.error('failed to save liquidation order:', error);
+    throw error;
+  }
+};
+
+export const fetchOrdersByWallet = async (
+  wallet: string,
+): Promise<LiquidationOrder[]> => {
+  try {
+    const ordersQuery = query(
+      collection(db, ORDERS_COLLECTION),
+      where('wallet', '==', wallet),
+      orderBy('createdAt', 'desc'),
+      limit(MAX_LIMIT),
+    );
+
+    const snapshot = await getDocs(ordersQuery);
+    return snapshot.docs.map((doc) => doc.data() as LiquidationOrder);
+  } catch (error) {
+    console.error('failed to fetch liquidation orders:', error);
+    throw error;
+  }
+};
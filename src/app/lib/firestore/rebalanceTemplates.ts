@@ -0,0 +1,31 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { RebalanceTemplate } from '../../types/rebalance';
+
+const REBALANCE_TEMPLATES_COLLECTION = 'rebalanceTemplates';
+
+export const saveRebalanceTemplates = async (userId: string, templates: RebalanceTemplate[]): Promise<void> => {
+  try {
+    await setDoc(doc(db, REBALANCE_TEMPLATES_COLLECTION, userId), {
+      templates,
+      updatedAt: new Date()
+    });
+  } catch (error) {
+    console.error('failed to save rebalance templates:', error);
+    throw error;
+  }
+};
+
+export const getRebalanceTemplates = async (userId: string): Promise<RebalanceTemplate[] | null> => {
+  try {
+    const docSnap = await getDoc(doc(db, REBALANCE_TEMPLATES_COLLECTION, userId));
+
+    if (docSnap.exists()) {
+      return docSnap.data().templates;
+    }
+    return null;
+  } catch (error) {
+    console.error('failed to fetch rebalance templates:', error);
+    return null;
+  }
+};
@@ -0,0 +1,31 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { RouteConstraints } from '../../types/swap';
+
+const ROUTE_SETTINGS_COLLECTION = 'routeSettings';
+
+export const saveRouteSettings = async (userId: string, constraints: RouteConstraints): Promise<void> => {
+  try {
+    await setDoc(doc(db, ROUTE_SETTINGS_COLLECTION, userId), {
+      constraints,
+      updatedAt: new Date()
+    });
+  } catch (error) {
+    console.error('failed to save route settings:', error);
+    throw error;
+  }
+};
+
+export const getRouteSettings = async (userId: string): Promise<RouteConstraints | null> => {
+  try {
+    const docSnap = await getDoc(doc(db, ROUTE_SETTINGS_COLLECTION, userId));
+
+    if (docSnap.exists()) {
+      return docSnap.data().constraints;
+    }
+    return null;
+  } catch (error) {
+    console.error('failed to fetch route settings:', error);
+    return null;
+  }
+};
@@ -0,0 +1,56 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  limit,
+  orderBy,
+  query,
+  where,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { SwapSchedule } from '../../types/schedule';
+
+const SCHEDULES_COLLECTION = 'swapSchedules';
+const MAX_LIMIT = 50;
+
+// schedules are keyed by their id so every slice updates the same document
+export const saveSwapSchedule = async (
+  schedule: SwapSchedule,
+): Promise<string> => {
+  try {
+    const docRef = doc(collection(db, SCHEDULES_COLLECTION), schedule.scheduleId);
+    await setDoc(
+      docRef,
+      {
+        ...schedule,
+        savedAt: serverTimestamp(),
+      },
+      { merge: true },
+    );
+    return docRef.id;
+  } catch (error) {
+    console.error('failed to save swap schedule:', error);
+    throw error;
+  }
+};
+
+export const fetchSchedulesByWallet = async (
+  wallet: string,
+): Promise<SwapSchedule[]> => {
+  try {
+    const schedulesQuery = query(
+      collection(db, SCHEDULES_COLLECTION),
+      where('wallet', '==', wallet),
+      orderBy('createdAt', 'desc'),
+      limit(MAX_LIMIT),
+    );
+
+    const snapshot = await getDocs(schedulesQuery);
+    return snapshot.docs.map((doc) => doc.data() as SwapSchedule);
+  } catch (error) {
+    console.error('failed to fetch swap schedules:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,376 @@
+import { Connection } from '@solana/web3.js';
+import { CircuitState, EndpointHealth } from '../types/rpc';
+
+export const FALLBACK_RPC_ENDPOINTS = [
+  'https://api.mainnet-beta.solana.com',
+  'https://solana-api.projectserum.com'
+];
+
+export const DAS_METHODS = ['getAsset', 'getAssetBatch', 'getAssetsByOwner', 'searchAssets'];
+
+// methods a provider is known not to serve, by endpoint name. anything else
+// is learned from the endpoint's own method-not-found errors
+const KNOWN_UNSUPPORTED: Record<string, string[]> = {
+  'solana mainnet': DAS_METHODS,
+  serum: DAS_METHODS,
+};
+
+const UNSUPPORTED_METHOD_PATTERN = /method not found|-32601|not supported|unsupported method/i;
+
+// an endpoint no call has timed yet is assumed to be about this fast
+const DEFAULT_LATENCY_MS = 500;
+const LATENCY_SMOOTHING = 0.3;
+// a fully failing endpoint scores as five times slower than its latency
+const ERROR_RATE_WEIGHT = 4;
+
+export interface LoadBalancerOptions {
+  // consecutive failures that open an endpoint's circuit
+  failureThreshold?: number;
+  // how long an open circuit waits before letting a probe through, doubled
+  // after each failed probe up to maxCooldownMs
+  cooldownMs?: number;
+  maxCooldownMs?: number;
+  // recent calls kept per endpoint for its error rate
+  sampleSize?: number;
+  // each slot behind the freshest endpoint costs this much in the score
+  slotLagPenaltyMs?: number;
+  // injectable so the balancer can run against fake endpoints and clock
+  getSlot?: (endpoint: string) => Promise<number>;
+  now?: () => number;
+}
+
+interface EndpointState {
+  endpoint: string;
+  name: string;
+  latencyMs: number | null;
+  results: boolean[];
+  consecutiveFailures: number;
+  circuit: CircuitState;
+  openedAt: number;
+  cooldownMs: number;
+  // a half-open circuit only lets one call through at a time
+  probing: boolean;
+  slot: number | null;
+  unsupported: Set<string>;
+  lastError?: string;
+}
+
+export const getEndpointName = (endpoint: string): string => {
+  if (endpoint.includes('quiknode')) return 'quicknode';
+  if (endpoint.includes('helius')) return 'helius';
+  if (endpoint.includes('alchemy')) return 'alchemy';
+  if (endpoint.includes('serum')) return 'serum';
+  if (endpoint.includes('mainnet-beta')) return 'solana mainnet';
+  return 'custom rpc';
+};
+
+// routes each call to the healthiest endpoint that serves its method, scored
+// on recent latency, error rate and slot lag. an endpoint that keeps failing
+// is taken out of rotation by its circuit breaker and probed back in
+export class LoadBalancer {
+  private states: EndpointState[];
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly maxCooldownMs: number;
+  private readonly sampleSize: number;
+  private readonly slotLagPenaltyMs: number;
+  private readonly getSlot: (endpoint: string) => Promise<number>;
+  private readonly now: () => number;
+  private readonly listeners = new Set<() => void>();
+  private monitors = 0;
+  private monitorTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(endpoints: string[], options: LoadBalancerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.cooldownMs = options.cooldownMs ?? 30000;
+    this.maxCooldownMs = options.maxCooldownMs ?? 300000;
+    this.sampleSize = options.sampleSize ?? 20;
+    this.slotLagPenaltyMs = options.slotLagPenaltyMs ?? 50;
+    this.getSlot = options.getSlot ?? (endpoint => new Connection(endpoint, 'confirmed').getSlot());
+    this.now = options.now ?? (() => Date.now());
+    this.states = this.createStates(endpoints);
+  }
+
+  private createStates(endpoints: string[]): EndpointState[] {
+    if (endpoints.length === 0) {
+      endpoints = FALLBACK_RPC_ENDPOINTS;
+      console.warn('using fallback rpc endpoints. please configure RPC_ENDPOINT environment variables for better performance.');
+    }
+
+    // an endpoint kept across a reconfiguration keeps its health
+    return endpoints.map(endpoint => {
+      const existing = this.states?.find(state => state.endpoint === endpoint);
+      if (existing) return existing;
+
+      const name = getEndpointName(endpoint);
+      return {
+        endpoint,
+        name,
+        latencyMs: null,
+        results: [],
+        consecutiveFailures: 0,
+        circuit: 'closed',
+        openedAt: 0,
+        cooldownMs: this.cooldownMs,
+        probing: false,
+        slot: null,
+        unsupported: new Set(KNOWN_UNSUPPORTED[name] ?? []),
+      };
+    });
+  }
+
+  setEndpoints(endpoints: string[]): void {
+    this.states = this.createStates(endpoints);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private errorRate(state: EndpointState): number {
+    if (state.results.length === 0) return 0;
+    return state.results.filter(ok => !ok).length / state.results.length;
+  }
+
+  private maxSlot(): number | null {
+    const slots = this.states
+      .map(state => state.slot)
+      .filter((slot): slot is number => slot !== null);
+    return slots.length > 0 ? Math.max(...slots) : null;
+  }
+
+  private slotLag(state: EndpointState, maxSlot: number | null): number | null {
+    return maxSlot !== null && state.slot !== null ? maxSlot - state.slot : null;
+  }
+
+  private score(state: EndpointState, maxSlot: number | null): number {
+    const latency = state.latencyMs ?? DEFAULT_LATENCY_MS;
+    const lag = this.slotLag(state, maxSlot) ?? 0;
+    return latency * (1 + ERROR_RATE_WEIGHT * this.errorRate(state)) + lag * this.slotLagPenaltyMs;
+  }
+
+  // an open circuit turns half-open once its cooldown has passed
+  private isAvailable(state: EndpointState, now: number): boolean {
+    if (state.circuit === 'open' && now - state.openedAt >= state.cooldownMs) {
+      state.circuit = 'half-open';
+      this.notify();
+    }
+    return state.circuit === 'closed' || (state.circuit === 'half-open' && !state.probing);
+  }
+
+  // endpoints able to take a call for the method, best score first. with a
+  // max slot lag, endpoints further behind are only used if nothing closer is
+  private candidates(method?: string, maxSlotLag?: number): EndpointState[] {
+    const supported = this.states.filter(state => !method || !state.unsupported.has(method));
+    if (supported.length === 0) {
+      throw new Error(`no rpc endpoint supports ${method}`);
+    }
+
+    const now = this.now();
+    const available = supported.filter(state => this.isAvailable(state, now));
+    // with every circuit open, the one that opened first is still worth a
+    // try rather than failing the call outright
+    const pool = available.length > 0
+      ? available
+      : [...supported].sort((a, b) => a.openedAt - b.openedAt).slice(0, 1);
+
+    const maxSlot = this.maxSlot();
+    const fresh = maxSlotLag === undefined
+      ? pool
+      : pool.filter(state => (this.slotLag(state, maxSlot) ?? 0) <= maxSlotLag);
+    return [...(fresh.length > 0 ? fresh : pool)]
+      .sort((a, b) => this.score(a, maxSlot) - this.score(b, maxSlot));
+  }
+
+  private record(state: EndpointState, ok: boolean): void {
+    state.results.push(ok);
+    if (state.results.length > this.sampleSize) {
+      state.results.shift();
+    }
+  }
+
+  private recordSuccess(state: EndpointState, latencyMs: number): void {
+    this.record(state, true);
+    state.latencyMs = state.latencyMs === null
+      ? latencyMs
+      : state.latencyMs + LATENCY_SMOOTHING * (latencyMs - state.latencyMs);
+    state.consecutiveFailures = 0;
+    state.circuit = 'closed';
+    state.cooldownMs = this.cooldownMs;
+    state.probing = false;
+    this.notify();
+  }
+
+  private recordFailure(state: EndpointState, message: string): void {
+    this.record(state, false);
+    state.consecutiveFailures++;
+    state.lastError = message;
+
+    if (state.circuit === 'half-open') {
+      state.circuit = 'open';
+      state.openedAt = this.now();
+      state.cooldownMs = Math.min(this.maxCooldownMs, state.cooldownMs * 2);
+    } else if (state.circuit === 'closed' && state.consecutiveFailures >= this.failureThreshold) {
+      state.circuit = 'open';
+      state.openedAt = this.now();
+      console.warn(`rpc circuit opened for ${state.name}: ${message}`);
+    }
+    state.probing = false;
+    this.notify();
+  }
+
+  // runs a call against one endpoint, keeping its health up to date. an
+  // endpoint that does not serve the method is not marked down for it
+  private async attempt<T>(
+    state: EndpointState,
+    operation: (endpoint: string) => Promise<T>,
+    method?: string,
+  ): Promise<{ ok: true; value: T } | { ok: false; error: Error }> {
+    if (state.circuit === 'half-open') {
+      state.probing = true;
+    }
+
+    const startedAt = this.now();
+    try {
+      const value = await operation(state.endpoint);
+      this.recordSuccess(state, this.now() - startedAt);
+      return { ok: true, value };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'unknown error occurred';
+      if (method && UNSUPPORTED_METHOD_PATTERN.test(message)) {
+        state.unsupported.add(method);
+        state.probing = false;
+        this.notify();
+        return { ok: false, error: new Error(message) };
+      }
+      this.recordFailure(state, message);
+      return { ok: false, error: new Error(message) };
+    }
+  }
+
+  async executeWithRetry<T>(
+    operation: (endpoint: string) => Promise<T>,
+    maxRetries: number = 3,
+    method?: string,
+    maxSlotLag?: number,
+  ): Promise<T> {
+    let lastError: Error | null = null;
+    const tried = new Set<EndpointState>();
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      const candidates = this.candidates(method, maxSlotLag);
+      const state = candidates.find(candidate => !tried.has(candidate)) ?? candidates[0];
+      tried.add(state);
+
+      const result = await this.attempt(state, operation, method);
+      if (result.ok) {
+        return result.value;
+      }
+      lastError = result.error;
+    }
+
+    throw new Error(`all rpc endpoints failed after ${maxRetries} attempts. last error: ${lastError?.message}`);
+  }
+
+  // runs the call on every available endpoint at once and settles with the
+  // first accepted answer. an answer that is not accepted, such as a json-rpc
+  // error, is only returned once no endpoint has done better, and the call
+  // fails only if every endpoint did
+  executeOnAll<T>(
+    operation: (endpoint: string) => Promise<T>,
+    method?: string,
+    isAccepted: (value: T) => boolean = () => true,
+  ): Promise<T> {
+    const candidates = this.candidates(method);
+    return new Promise((resolve, reject) => {
+      let pending = candidates.length;
+      let unaccepted: { value: T } | null = null;
+      let lastError: Error | null = null;
+      candidates.forEach(state => {
+        void this.attempt(state, operation, method).then(result => {
+          if (result.ok && isAccepted(result.value)) {
+            resolve(result.value);
+            return;
+          }
+          if (result.ok) {
+            unaccepted ??= { value: result.value };
+          } else {
+            lastError = result.error;
+          }
+          if (--pending > 0) return;
+          if (unaccepted) {
+            resolve(unaccepted.value);
+          } else {
+            reject(new Error(`all ${candidates.length} rpc endpoints failed. last error: ${lastError?.message}`));
+          }
+        });
+      });
+    });
+  }
+
+  // reads every endpoint's slot for lag and latency. open circuits are left
+  // alone until their cooldown ends, then this doubles as their probe
+  async probe(): Promise<void> {
+    const now = this.now();
+    await Promise.all(this.states
+      .filter(state => this.isAvailable(state, now))
+      .map(async state => {
+        const result = await this.attempt(state, endpoint => this.getSlot(endpoint));
+        if (result.ok) {
+          state.slot = result.value;
+          this.notify();
+        }
+      }));
+  }
+
+  // probes on an interval for as long as anyone is watching
+  startMonitoring(intervalMs: number = 15000): () => void {
+    this.monitors++;
+    if (this.monitors === 1) {
+      void this.probe();
+      this.monitorTimer = setInterval(() => {
+        void this.probe();
+      }, intervalMs);
+    }
+
+    return () => {
+      this.monitors--;
+      if (this.monitors === 0 && this.monitorTimer) {
+        clearInterval(this.monitorTimer);
+        this.monitorTimer = null;
+      }
+    };
+  }
+
+  getHealth(): EndpointHealth[] {
+    const maxSlot = this.maxSlot();
+    return this.states.map(state => ({
+      name: state.name,
+      circuit: state.circuit,
+      latencyMs: state.latencyMs === null ? null : Math.round(state.latencyMs),
+      errorRate: this.errorRate(state),
+      samples: state.results.length,
+      slotLag: this.slotLag(state, maxSlot),
+      score: Math.round(this.score(state, maxSlot)),
+      unsupportedMethods: Array.from(state.unsupported),
+      ...(state.lastError ? { lastError: state.lastError } : {}),
+      ...(state.circuit === 'open' ? { retryAt: state.openedAt + state.cooldownMs } : {}),
+    }));
+  }
+
+  public getEndpointName(endpoint: string): string {
+    return getEndpointName(endpoint);
+  }
+
+  getEndpoints(): string[] {
+    return this.states.map(state => state.endpoint);
+  }
+}
@@ -0,0 +1,213 @@
+const DB_NAME = 'token-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const NAMESPACE_INDEX = 'namespace';
+
+export interface CacheEntry<T> {
+  key: string;
+  value: T;
+  storedAt: number;
+  // fresh until expiresAt, still served (marked stale) until staleUntil
+  expiresAt: number;
+  staleUntil: number;
+}
+
+export interface CachedValue<T> {
+  value: T;
+  storedAt: number;
+  stale: boolean;
+}
+
+export interface CacheBackend<T> {
+  loadAll(): Promise<CacheEntry<T>[]>;
+  put(entries: CacheEntry<T>[]): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+}
+
+export interface PersistentCacheOptions<T> {
+  ttlMs: number;
+  // how long past its ttl an entry may still be served while it refreshes
+  staleMs: number;
+  maxEntries: number;
+  backend?: CacheBackend<T>;
+}
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+type StoredEntry<T> = CacheEntry<T> & { id: string; namespace: string };
+
+// one database shared by every cache, entries are keyed by namespace
+export class IndexedDbCacheBackend<T> implements CacheBackend<T> {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private namespace: string) {}
+
+  private static open(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('indexeddb is not available'));
+    }
+
+    if (!IndexedDbCacheBackend.dbPromise) {
+      IndexedDbCacheBackend.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            store.createIndex(NAMESPACE_INDEX, 'namespace', { unique: false });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          IndexedDbCacheBackend.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return IndexedDbCacheBackend.dbPromise;
+  }
+
+  private id(key: string): string {
+    return `${this.namespace}:${key}`;
+  }
+
+  async loadAll(): Promise<CacheEntry<T>[]> {
+    const db = await IndexedDbCacheBackend.open();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const entries = await promisifyRequest<StoredEntry<T>[]>(store.index(NAMESPACE_INDEX).getAll(this.namespace));
+    return entries.map(({ key, value, storedAt, expiresAt, staleUntil }) => ({ key, value, storedAt, expiresAt, staleUntil }));
+  }
+
+  async put(entries: CacheEntry<T>[]): Promise<void> {
+    if (entries.length === 0) return;
+    const db = await IndexedDbCacheBackend.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    await Promise.all(entries.map(entry =>
+      promisifyRequest(store.put({ ...entry, id: this.id(entry.key), namespace: this.namespace })),
+    ));
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const db = await IndexedDbCacheBackend.open();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await Promise.all(keys.map(key => promisifyRequest(store.delete(this.id(key)))));
+  }
+}
+
+// used on the server, where entries only live as long as the process
+export class MemoryCacheBackend<T> implements CacheBackend<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+
+  async loadAll(): Promise<CacheEntry<T>[]> {
+    return Array.from(this.entries.values());
+  }
+
+  async put(entries: CacheEntry<T>[]): Promise<void> {
+    entries.forEach(entry => this.entries.set(entry.key, entry));
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    keys.forEach(key => this.entries.delete(key));
+  }
+}
+
+// an in-memory map hydrated once from the backend and written through to
+// it. reads never wait on the network: a stale entry is returned marked as
+// such so the caller can show it while it refreshes
+export class PersistentCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly backend: CacheBackend<T>;
+  private hydrated: Promise<void> | null = null;
+
+  constructor(namespace: string, private options: PersistentCacheOptions<T>) {
+    this.backend = options.backend ?? (typeof indexedDB !== 'undefined'
+      ? new IndexedDbCacheBackend<T>(namespace)
+      : new MemoryCacheBackend<T>());
+  }
+
+  private hydrate(): Promise<void> {
+    if (!this.hydrated) {
+      this.hydrated = this.backend.loadAll()
+        .then(entries => {
+          const now = Date.now();
+          const expired: string[] = [];
+          for (const entry of entries) {
+            if (entry.staleUntil <= now) {
+              expired.push(entry.key);
+            } else if (!this.entries.has(entry.key)) {
+              this.entries.set(entry.key, entry);
+            }
+          }
+          return this.backend.remove(expired);
+        })
+        .catch(error => console.warn('failed to load persistent cache:', error));
+    }
+    return this.hydrated;
+  }
+
+  private toCached(entry: CacheEntry<T> | undefined, now: number): CachedValue<T> | null {
+    if (!entry || entry.staleUntil <= now) return null;
+    return { value: entry.value, storedAt: entry.storedAt, stale: entry.expiresAt <= now };
+  }
+
+  async get(key: string): Promise<CachedValue<T> | null> {
+    await this.hydrate();
+    return this.toCached(this.entries.get(key), Date.now());
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, CachedValue<T>>> {
+    await this.hydrate();
+    const now = Date.now();
+    const found = new Map<string, CachedValue<T>>();
+    for (const key of keys) {
+      const cached = this.toCached(this.entries.get(key), now);
+      if (cached) found.set(key, cached);
+    }
+    return found;
+  }
+
+  async set(key: string, value: T, ttlMs?: number): Promise<void> {
+    await this.setMany([[key, value]], ttlMs);
+  }
+
+  async setMany(values: Array<[string, T]>, ttlMs: number = this.options.ttlMs): Promise<void> {
+    await this.hydrate();
+    const now = Date.now();
+    const written = values.map(([key, value]): CacheEntry<T> => ({
+      key,
+      value,
+      storedAt: now,
+      expiresAt: now + ttlMs,
+      staleUntil: now + ttlMs + this.options.staleMs,
+    }));
+    written.forEach(entry => this.entries.set(entry.key, entry));
+
+    try {
+      await this.backend.put(written);
+      await this.backend.remove(this.evict());
+    } catch (error) {
+      console.warn('failed to write persistent cache:', error);
+    }
+  }
+
+  // drops the oldest entries once the cache grows past its limit
+  private evict(): string[] {
+    const overflow = this.entries.size - this.options.maxEntries;
+    if (overflow <= 0) return [];
+
+    const oldest = Array.from(this.entries.values())
+      .sort((a, b) => a.storedAt - b.storedAt)
+      .slice(0, overflow)
+      .map(entry => entry.key);
+    oldest.forEach(key => this.entries.delete(key));
+    return oldest;
+  }
+}
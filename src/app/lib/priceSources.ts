@@ -0,0 +1,474 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { PriceCheck, PriceReference, TokenBalance } from '../types/token';
+
+const JUPITER_PRICE_API = 'https://lite-api.jup.ag/price/v3';
+const JUPITER_QUOTE_API = 'https://lite-api.jup.ag/swap/v1/quote';
+const RAYDIUM_API = 'https://api-v3.raydium.io';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const USDT_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+// the price api takes at most this many ids per request
+const JUPITER_PRICE_BATCH = 50;
+const DEFAULT_TIMEOUT_MS = 5000;
+// getMultipleAccounts limit
+const ACCOUNT_BATCH = 100;
+// small enough that price impact stays out of the implied price
+const QUOTE_NOTIONAL_USD = 20;
+// raydium pool lookups in flight at once
+const POOL_LOOKUP_CONCURRENCY = 8;
+// jupiter quotes in flight at once, kept low for the public rate limit
+const QUOTE_CONCURRENCY = 4;
+
+// prices further apart than this are not trusted to size a swap
+export const PRICE_SPREAD_THRESHOLD_PCT = 5;
+
+export interface PriceQuote {
+  price: number;
+  // when the source answered, kept with cached prices to show their age
+  timestamp: number;
+  // helius returns asset metadata alongside prices
+  metadata?: {
+    symbol?: string;
+    name?: string;
+    logoURI?: string | null;
+  };
+}
+
+// a source prices whichever tokens it can and leaves the rest out of the
+// map, so the next source in line can try them. the signal aborts its
+// requests once the source has run out of time, and prices it sets on the
+// map it is handed as they come in are kept even then
+export interface PriceSource {
+  readonly name: string;
+  readonly timeoutMs: number;
+  getPrices(
+    tokens: TokenBalance[],
+    signal?: AbortSignal,
+    prices?: Map<string, PriceQuote>,
+  ): Promise<Map<string, PriceQuote>>;
+}
+
+// runs the operation over every item with at most `limit` calls in flight,
+// keeping the results in input order
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  operation: (item: T) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await operation(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+interface HeliusAsset {
+  id: string;
+  content?: {
+    metadata?: {
+      symbol?: string;
+      name?: string;
+    };
+    links?: {
+      image?: string;
+    };
+    files?: Array<{
+      uri?: string;
+    }>;
+  };
+  token_info?: {
+    price_info?: {
+      price_per_token?: number;
+      total_price?: number;
+    };
+  };
+}
+
+export class HeliusPriceSource implements PriceSource {
+  readonly name = 'helius';
+  private readonly fetcher: typeof fetch;
+
+  constructor(private rpcUrl: string, readonly timeoutMs: number = DEFAULT_TIMEOUT_MS, fetcher?: typeof fetch) {
+    this.fetcher = fetcher ?? ((input, init) => fetch(input, init));
+  }
+
+  async getPrices(
+    tokens: TokenBalance[],
+    signal?: AbortSignal,
+    prices: Map<string, PriceQuote> = new Map(),
+  ): Promise<Map<string, PriceQuote>> {
+    const response = await this.fetcher(this.rpcUrl, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: '1',
+        method: 'getAssetBatch',
+        params: {
+          ids: tokens.map(token => token.mint)
+        }
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`helius api error: ${response.status}`);
+    }
+
+    const data: { result?: HeliusAsset[] } = await response.json();
+    if (!Array.isArray(data.result)) {
+      throw new Error('invalid response from helius api');
+    }
+
+    const now = Date.now();
+    const assets = new Map(data.result.filter(asset => asset?.id).map(asset => [asset.id, asset]));
+
+    for (const token of tokens) {
+      const asset = assets.get(token.mint);
+      const priceInfo = asset?.token_info?.price_info;
+
+      let price = priceInfo?.price_per_token ?? 0;
+      // helius only reports a total for native sol
+      if (!price && token.mint === SOL_MINT && priceInfo?.total_price && token.uiAmount > 0) {
+        price = priceInfo.total_price / token.uiAmount;
+      }
+      if (!asset || price <= 0) continue;
+
+      prices.set(token.mint, {
+        price,
+        timestamp: now,
+        metadata: {
+          symbol: asset.content?.metadata?.symbol,
+          name: asset.content?.metadata?.name,
+          logoURI: asset.content?.links?.image || asset.content?.files?.[0]?.uri,
+        },
+      });
+    }
+
+    return prices;
+  }
+}
+
+interface JupiterPriceEntry {
+  usdPrice?: number;
+}
+
+export class JupiterPriceSource implements PriceSource {
+  readonly name = 'jupiter';
+  private readonly fetcher: typeof fetch;
+
+  constructor(private apiUrl: string = JUPITER_PRICE_API, readonly timeoutMs: number = DEFAULT_TIMEOUT_MS, fetcher?: typeof fetch) {
+    this.fetcher = fetcher ?? ((input, init) => fetch(input, init));
+  }
+
+  async getPrices(
+    tokens: TokenBalance[],
+    signal?: AbortSignal,
+    prices: Map<string, PriceQuote> = new Map(),
+  ): Promise<Map<string, PriceQuote>> {
+    const mints = Array.from(new Set(tokens.map(token => token.mint)));
+
+    for (let i = 0; i < mints.length; i += JUPITER_PRICE_BATCH) {
+      const batch = mints.slice(i, i + JUPITER_PRICE_BATCH);
+      const response = await this.fetcher(`${this.apiUrl}?ids=${batch.join(',')}`, { signal });
+      if (!response.ok) {
+        throw new Error(`jupiter price api error: ${response.status}`);
+      }
+
+      const data: Record<string, JupiterPriceEntry | null> = await response.json();
+      const now = Date.now();
+      for (const mint of batch) {
+        const price = data[mint]?.usdPrice;
+        if (price && price > 0) {
+          prices.set(mint, { price, timestamp: now });
+        }
+      }
+    }
+
+    return prices;
+  }
+}
+
+interface RaydiumResponse<T> {
+  success: boolean;
+  data: T;
+}
+
+interface RaydiumPoolInfo {
+  id: string;
+  mintA: { address: string };
+  mintB: { address: string };
+}
+
+interface RaydiumPoolKeys {
+  id: string;
+  vault: { A: string; B: string };
+}
+
+interface ParsedVault {
+  parsed?: {
+    info?: {
+      tokenAmount?: { uiAmount: number | null };
+    };
+  };
+}
+
+// prices a token from the reserves of its deepest constant-product raydium
+// pool against usdc. the api only finds the pool, the reserves are read from
+// the vault accounts on chain
+export class PoolPriceSource implements PriceSource {
+  readonly name = 'pool';
+  private readonly fetcher: typeof fetch;
+
+  constructor(
+    private withConnection: <T>(operation: (connection: Connection) => Promise<T>) => Promise<T>,
+    readonly timeoutMs: number = DEFAULT_TIMEOUT_MS * 2,
+    fetcher?: typeof fetch,
+  ) {
+    this.fetcher = fetcher ?? ((input, init) => fetch(input, init));
+  }
+
+  private async findPool(mint: string, signal?: AbortSignal): Promise<RaydiumPoolInfo | null> {
+    const response = await this.fetcher(`${RAYDIUM_API}/pools/info/mint?` + new URLSearchParams({
+      mint1: mint,
+      mint2: USDC_MINT,
+      poolType: 'standard',
+      poolSortField: 'liquidity',
+      sortType: 'desc',
+      pageSize: '1',
+      page: '1',
+    }), { signal });
+    if (!response.ok) return null;
+
+    const pools: RaydiumResponse<{ data: RaydiumPoolInfo[] }> = await response.json();
+    return pools.success ? pools.data?.data?.[0] ?? null : null;
+  }
+
+  private async getVaults(poolIds: string[], signal?: AbortSignal): Promise<Map<string, RaydiumPoolKeys>> {
+    const response = await this.fetcher(`${RAYDIUM_API}/pools/key/ids?ids=${poolIds.join(',')}`, { signal });
+    if (!response.ok) {
+      throw new Error(`raydium api error: ${response.status}`);
+    }
+
+    const keys: RaydiumResponse<Array<RaydiumPoolKeys | null>> = await response.json();
+    return new Map((keys.data ?? []).filter((key): key is RaydiumPoolKeys => Boolean(key?.vault)).map(key => [key.id, key]));
+  }
+
+  async getPrices(
+    tokens: TokenBalance[],
+    signal?: AbortSignal,
+    prices: Map<string, PriceQuote> = new Map(),
+  ): Promise<Map<string, PriceQuote>> {
+    const mints = Array.from(new Set(tokens.map(token => token.mint))).filter(mint => mint !== USDC_MINT);
+
+    const found = await mapWithConcurrency(mints, POOL_LOOKUP_CONCURRENCY, async mint => ({
+      mint,
+      pool: await this.findPool(mint, signal),
+    }));
+    const pools = found.filter((entry): entry is { mint: string; pool: RaydiumPoolInfo } => entry.pool !== null);
+    if (pools.length === 0) return prices;
+
+    const vaults = await this.getVaults(pools.map(({ pool }) => pool.id), signal);
+    const accounts = pools.flatMap(({ pool }) => {
+      const keys = vaults.get(pool.id);
+      return keys ? [keys.vault.A, keys.vault.B] : [];
+    });
+    if (accounts.length === 0) return prices;
+
+    const reserves = await this.withConnection(async connection => {
+      const amounts = new Map<string, number>();
+      for (let i = 0; i < accounts.length; i += ACCOUNT_BATCH) {
+        signal?.throwIfAborted();
+        const batch = accounts.slice(i, i + ACCOUNT_BATCH);
+        const { value } = await connection.getMultipleParsedAccounts(batch.map(account => new PublicKey(account)));
+        value.forEach((account, index) => {
+          const amount = (account?.data as ParsedVault | undefined)?.parsed?.info?.tokenAmount?.uiAmount;
+          if (amount) amounts.set(batch[index], amount);
+        });
+      }
+      return amounts;
+    });
+
+    const now = Date.now();
+    for (const { mint, pool } of pools) {
+      const keys = vaults.get(pool.id);
+      if (!keys) continue;
+
+      const tokenIsA = pool.mintA.address === mint;
+      const tokenReserve = reserves.get(tokenIsA ? keys.vault.A : keys.vault.B);
+      const usdcReserve = reserves.get(tokenIsA ? keys.vault.B : keys.vault.A);
+      if (tokenReserve && usdcReserve) {
+        prices.set(mint, { price: usdcReserve / tokenReserve, timestamp: now });
+      }
+    }
+
+    return prices;
+  }
+}
+
+// the price a small jupiter quote into usdc implies. tokens are sized off
+// their current price so the quote stays small, or one whole unit without one
+export class QuotePriceSource implements PriceSource {
+  readonly name = 'quote';
+  private readonly fetcher: typeof fetch;
+
+  constructor(private apiUrl: string = JUPITER_QUOTE_API, readonly timeoutMs: number = DEFAULT_TIMEOUT_MS * 2, fetcher?: typeof fetch) {
+    this.fetcher = fetcher ?? ((input, init) => fetch(input, init));
+  }
+
+  private getQuoteAmount(token: TokenBalance): bigint {
+    const units = token.price && token.price > 0 ? QUOTE_NOTIONAL_USD / token.price : 1;
+    return BigInt(Math.max(1, Math.floor(units * Math.pow(10, token.decimals))));
+  }
+
+  async getPrices(
+    tokens: TokenBalance[],
+    signal?: AbortSignal,
+    prices: Map<string, PriceQuote> = new Map(),
+  ): Promise<Map<string, PriceQuote>> {
+    const unique = Array.from(new Map(tokens.map(token => [token.mint, token])).values())
+      .filter(token => token.mint !== USDC_MINT);
+
+    await mapWithConcurrency(unique, QUOTE_CONCURRENCY, async token => {
+      try {
+        const response = await this.fetcher(`${this.apiUrl}?` + new URLSearchParams({
+          inputMint: token.mint,
+          outputMint: USDC_MINT,
+          amount: this.getQuoteAmount(token).toString(),
+          slippageBps: '50',
+        }), { signal });
+        if (!response.ok) return;
+
+        const quote: { inAmount?: string; outAmount?: string } = await response.json();
+        const input = Number(quote.inAmount ?? 0) / Math.pow(10, token.decimals);
+        const output = Number(quote.outAmount ?? 0) / 1e6;
+        if (input > 0 && output > 0) {
+          prices.set(token.mint, { price: output / input, timestamp: Date.now() });
+        }
+      } catch (error) {
+        // one token without a route leaves the rest to be quoted
+        if (signal?.aborted) throw error;
+        console.warn(`failed to quote ${token.symbol}:`, error);
+      }
+    });
+
+    return prices;
+  }
+}
+
+// the last resort for stables when every live source is down
+export class PeggedPriceSource implements PriceSource {
+  readonly name = 'pegged';
+  readonly timeoutMs = 0;
+
+  constructor(private pegs: Record<string, number> = { [USDC_MINT]: 1, [USDT_MINT]: 1 }) {}
+
+  async getPrices(tokens: TokenBalance[]): Promise<Map<string, PriceQuote>> {
+    const now = Date.now();
+    return new Map(
+      tokens
+        .filter(token => this.pegs[token.mint] !== undefined)
+        .map(token => [token.mint, { price: this.pegs[token.mint], timestamp: now }]),
+    );
+  }
+}
+
+export const assessPriceConfidence = (
+  token: TokenBalance,
+  references: PriceReference[],
+  thresholdPct: number = PRICE_SPREAD_THRESHOLD_PCT,
+): PriceCheck => {
+  const price = token.price ?? 0;
+  const spreadPct = price > 0
+    ? references.reduce((widest, reference) => Math.max(widest, Math.abs(reference.price / price - 1) * 100), 0)
+    : 0;
+
+  return {
+    mint: token.mint,
+    price,
+    ...(token.priceSource ? { priceSource: token.priceSource } : {}),
+    references,
+    spreadPct,
+    // a price nothing else could confirm is no more trusted than a disputed one
+    lowConfidence: references.length === 0 || spreadPct > thresholdPct,
+    checkedAt: Date.now(),
+  };
+};
+
+// the tokens whose price may size a trade. a priced token needs a check made
+// against that same price that was either confident or accepted by the user.
+// unpriced tokens pass, nothing is sized from them
+export const getConfirmedTokens = (
+  tokens: TokenBalance[],
+  checks: PriceCheck[],
+  overrides: string[] = [],
+): TokenBalance[] =>
+  tokens.filter(token => {
+    if (!token.price || token.price <= 0) return true;
+    const check = checks.find(candidate => candidate.mint === token.mint && candidate.price === token.price);
+    return Boolean(check && (!check.lowConfidence || overrides.includes(token.mint)));
+  });
+
+// the signal handed to the operation aborts whatever it still has in flight
+// once the time is up, so a slow source stops fetching in the background
+const withTimeout = async <T>(
+  operation: (signal?: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  label: string,
+): Promise<T> => {
+  if (timeoutMs <= 0) return operation();
+
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`${label} timed out after ${timeoutMs}ms`);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([operation(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// asks each source in priority order for the tokens still unpriced. a source
+// that fails or times out is never fatal, and keeps what it priced before
+export const fetchPrices = async (
+  sources: PriceSource[],
+  tokens: TokenBalance[],
+): Promise<Map<string, PriceQuote & { source: string }>> => {
+  const prices = new Map<string, PriceQuote & { source: string }>();
+
+  for (const source of sources) {
+    const missing = tokens.filter(token => !prices.has(token.mint));
+    if (missing.length === 0) break;
+
+    let found = new Map<string, PriceQuote>();
+    const partial = found;
+    try {
+      found = await withTimeout(
+        signal => source.getPrices(missing, signal, partial),
+        source.timeoutMs,
+        `${source.name} prices`,
+      );
+    } catch (error) {
+      console.warn(`failed to fetch prices from ${source.name}:`, error);
+    }
+    found.forEach((quote, mint) => {
+      if (!prices.has(mint) && quote.price > 0) {
+        prices.set(mint, { ...quote, source: source.name });
+      }
+    });
+  }
+
+  return prices;
+};
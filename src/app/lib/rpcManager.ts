@@ -0,0 +1,238 @@
+import { Connection, ConnectionConfig } from '@solana/web3.js';
+import { FALLBACK_RPC_ENDPOINTS, LoadBalancer, getEndpointName } from './loadBalancer';
+import { EndpointHealth, RpcCallKind, RpcPool, RpcSettings } from '../types/rpc';
+
+// endpoints often carry api keys, so saved settings stay on this device
+const STORAGE_KEY = 'rpc-settings';
+
+export const HELIUS_RPC_URL = process.env.NEXT_PUBLIC_HELIUS_API_KEY
+  ? `https://mainnet.helius-rpc.com/?api-key=${process.env.NEXT_PUBLIC_HELIUS_API_KEY}`
+  : 'https://mainnet.helius-rpc.com/';
+
+export const DEFAULT_RPC_SETTINGS: RpcSettings = {
+  endpoints: [
+    process.env.NEXT_PUBLIC_RPC_ENDPOINT_1,
+    process.env.NEXT_PUBLIC_RPC_ENDPOINT_2,
+  ].filter(Boolean) as string[],
+  dasEndpoints: [HELIUS_RPC_URL],
+  broadcastSends: true,
+};
+
+interface RoutingPolicy {
+  pool: RpcPool;
+  maxRetries: number;
+  // send to every healthy endpoint at once and take the first to accept
+  fanOut?: boolean;
+  // pass over endpoints further behind the tip while any are closer
+  maxSlotLag?: number;
+}
+
+const POLICIES: Record<RpcCallKind, RoutingPolicy> = {
+  // the same signed bytes can only land once, so a send goes everywhere
+  send: { pool: 'general', maxRetries: 2, fanOut: true },
+  // a lagging node reports a landed transaction as missing and hands out
+  // blockhashes that expire early
+  confirm: { pool: 'general', maxRetries: 5, maxSlotLag: 20 },
+  read: { pool: 'general', maxRetries: 3 },
+  das: { pool: 'das', maxRetries: 2 },
+};
+
+const SEND_METHODS = new Set(['sendTransaction']);
+const CONFIRM_METHODS = new Set([
+  'getSignatureStatuses',
+  'getBlockHeight',
+  'getLatestBlockhash',
+  'isBlockhashValid',
+]);
+const DAS_METHOD_PREFIXES = ['getAsset', 'searchAssets'];
+
+export const classifyRpcMethod = (method: string): RpcCallKind => {
+  if (SEND_METHODS.has(method)) return 'send';
+  if (CONFIRM_METHODS.has(method)) return 'confirm';
+  if (DAS_METHOD_PREFIXES.some(prefix => method.startsWith(prefix))) return 'das';
+  return 'read';
+};
+
+export const isValidEndpoint = (endpoint: string): boolean => {
+  try {
+    const url = new URL(endpoint);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+// batched requests are routed by their first call
+const readRpcMethod = (body: string): string | null => {
+  try {
+    const parsed = JSON.parse(body);
+    const call = Array.isArray(parsed) ? parsed[0] : parsed;
+    return typeof call?.method === 'string' ? call.method : null;
+  } catch {
+    return null;
+  }
+};
+
+// a json-rpc error comes back with an ok http status, so only the body tells
+const hasRpcError = (text: string): boolean => {
+  try {
+    const parsed = JSON.parse(text);
+    return (Array.isArray(parsed) ? parsed : [parsed]).some(reply => reply?.error !== undefined);
+  } catch {
+    return false;
+  }
+};
+
+interface RpcReply {
+  text: string;
+  init: ResponseInit;
+}
+
+const readSavedSettings = (): RpcSettings | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_RPC_SETTINGS, ...JSON.parse(saved) } : null;
+  } catch (error) {
+    console.warn('failed to read rpc settings:', error);
+    return null;
+  }
+};
+
+// the one place rpc traffic is routed from. the wallet adapter's connection
+// and TokenService both go through it, and its endpoints can be changed at
+// runtime without rebuilding either
+export class RpcManager {
+  private static instance: RpcManager | null = null;
+  private settings: RpcSettings;
+  private readonly pools: Record<RpcPool, LoadBalancer>;
+  private readonly listeners = new Set<() => void>();
+
+  private constructor() {
+    this.settings = readSavedSettings() ?? DEFAULT_RPC_SETTINGS;
+    this.pools = {
+      general: new LoadBalancer(this.settings.endpoints),
+      das: new LoadBalancer(this.settings.dasEndpoints),
+    };
+    Object.values(this.pools).forEach(pool => pool.subscribe(() => this.notify()));
+  }
+
+  static getInstance(): RpcManager {
+    if (!RpcManager.instance) {
+      RpcManager.instance = new RpcManager();
+    }
+    return RpcManager.instance;
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  // fires on settings and endpoint health changes alike
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getSettings(): RpcSettings {
+    return this.settings;
+  }
+
+  updateSettings(settings: RpcSettings): void {
+    this.settings = settings;
+    this.pools.general.setEndpoints(settings.endpoints);
+    this.pools.das.setEndpoints(settings.dasEndpoints);
+
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    }
+    this.notify();
+  }
+
+  resetSettings(): void {
+    this.updateSettings(DEFAULT_RPC_SETTINGS);
+    if (typeof window !== 'undefined') {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+
+  // the endpoint a connection is created against, and so where its
+  // websocket subscriptions go. its http calls are routed per call
+  getPrimaryEndpoint(): string {
+    return this.settings.endpoints[0] ?? FALLBACK_RPC_ENDPOINTS[0];
+  }
+
+  // a fanned-out call settles with the first result `isAccepted` passes, and
+  // falls back to one it rejected only when no endpoint did better
+  async execute<T>(
+    kind: RpcCallKind,
+    operation: (endpoint: string) => Promise<T>,
+    method?: string,
+    isAccepted?: (value: T) => boolean,
+  ): Promise<T> {
+    const policy = POLICIES[kind];
+    const pool = this.pools[policy.pool];
+    if (policy.fanOut && this.settings.broadcastSends) {
+      return pool.executeOnAll(operation, method, isAccepted);
+    }
+    return pool.executeWithRetry(operation, policy.maxRetries, method, policy.maxSlotLag);
+  }
+
+  private async post(endpoint: string, init: RequestInit, method: string): Promise<RpcReply> {
+    const response = await fetch(endpoint, init);
+    if (!response.ok) {
+      throw new Error(`${method} failed on ${getEndpointName(endpoint)}: ${response.status}`);
+    }
+
+    // a missing method is the endpoint's shortcoming and is retried on
+    // another. any other rpc error is a real answer for the caller
+    const text = await response.text();
+    if (/"code"\s*:\s*-32601/.test(text)) {
+      throw new Error(`-32601 method not found: ${method}`);
+    }
+    return {
+      text,
+      init: { status: response.status, statusText: response.statusText, headers: response.headers },
+    };
+  }
+
+  // a drop-in fetch for json-rpc clients. the url it is handed is ignored:
+  // each call is routed by its method under that kind of call's policy
+  readonly fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const method = typeof init?.body === 'string' ? readRpcMethod(init.body) : null;
+    if (!init || !method) {
+      return fetch(input, init);
+    }
+    // a send one endpoint rejected may still have been accepted by another
+    const reply = await this.execute(
+      classifyRpcMethod(method),
+      endpoint => this.post(endpoint, init, method),
+      method,
+      result => !hasRpcError(result.text),
+    );
+    return new Response(reply.text, reply.init);
+  };
+
+  getConnectionConfig(): ConnectionConfig {
+    return { commitment: 'confirmed', fetch: this.fetch };
+  }
+
+  createConnection(): Connection {
+    return new Connection(this.getPrimaryEndpoint(), this.getConnectionConfig());
+  }
+
+  getHealth(): EndpointHealth[] {
+    return (Object.keys(this.pools) as RpcPool[]).flatMap(pool =>
+      this.pools[pool].getHealth().map(health => ({ ...health, pool })),
+    );
+  }
+
+  startMonitoring(intervalMs?: number): () => void {
+    const stops = Object.values(this.pools).map(pool => pool.startMonitoring(intervalMs));
+    return () => stops.forEach(stop => stop());
+  }
+}
+
+export const rpcManager = RpcManager.getInstance();
@@ -0,0 +1,203 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Keypair, VersionedTransaction } from '@solana/web3.js';
+import { afterEach, describe, expect, it } from 'vitest';
+import { SwapEngine } from '../engine';
+import { JitoBundleClient } from '../jito';
+import { getTransactionSignature } from '../signature';
+import { SwapEngineEvent } from '../../../types/swap';
+import {
+  BONK_MINT,
+  USDC_MINT,
+  WIF_MINT,
+  createFakeRpc,
+  createJupiterServer,
+  createSigner,
+  createTracker,
+  makeToken,
+} from './fakes';
+
+type InflightStatus = 'Pending' | 'Landed' | 'Failed' | 'Invalid';
+
+interface BlockEngineOptions {
+  // reported for every status check of the nth bundle sent
+  status: (bundleIndex: number) => InflightStatus;
+  // called with the swap signatures of each bundle, tip transfer left out
+  onBundle?: (signatures: string[], bundleIndex: number) => void;
+  // accepts the nth bundle but answers its send with a server error
+  failSend?: (bundleIndex: number) => boolean;
+}
+
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server =>
+    new Promise(resolve => server.close(resolve)),
+  ));
+});
+
+// a stand-in for the block engine's json-rpc api, served over real http so
+// the bundle client is exercised end to end
+const startBlockEngine = async (options: BlockEngineOptions) => {
+  const tipAccount = Keypair.generate().publicKey.toBase58();
+  const bundles: string[][] = [];
+
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      const { method, params } = JSON.parse(body);
+      const reply = (result: unknown) => {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ jsonrpc: '2.0', id: 1, result }));
+      };
+
+      if (method === 'getTipAccounts') {
+        reply([tipAccount]);
+      } else if (method === 'sendBundle') {
+        const signatures = (params[0] as string[]).map(encoded =>
+          getTransactionSignature(VersionedTransaction.deserialize(Buffer.from(encoded, 'base64'))),
+        );
+        bundles.push(signatures);
+        options.onBundle?.(signatures.slice(0, -1), bundles.length - 1);
+        if (options.failSend?.(bundles.length - 1)) {
+          response.writeHead(502);
+          response.end();
+          return;
+        }
+        reply(`bundle-${bundles.length - 1}`);
+      } else if (method === 'getInflightBundleStatuses') {
+        const bundleId = params[0][0] as string;
+        const status = options.status(Number(bundleId.split('-')[1]));
+        reply({ value: [{ bundle_id: bundleId, status, landed_slot: null }] });
+      } else {
+        response.writeHead(404);
+        response.end();
+      }
+    });
+  });
+
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return { url: `http://127.0.0.1:${port}`, bundles };
+};
+
+const setup = async (
+  options: BlockEngineOptions,
+  rpcOptions: Parameters<typeof createFakeRpc>[0] = {},
+  maxRetries: number = 1,
+) => {
+  const blockEngine = await startBlockEngine(options);
+  const signer = createSigner();
+  const rpc = createFakeRpc({ outputRaw: '4990000', ...rpcOptions });
+  rpc.setOwner(signer.publicKey);
+  const server = createJupiterServer({
+    outAmounts: { [BONK_MINT]: '5000000', [WIF_MINT]: '2000000' },
+    payer: signer.publicKey,
+  });
+  const events: SwapEngineEvent[] = [];
+
+  const engine = new SwapEngine({
+    connection: rpc.connection,
+    signer,
+    outputMint: USDC_MINT,
+    outputDecimals: 6,
+    slippage: 0.5,
+    fetcher: server.fetcher,
+    tracker: createTracker(rpc.connection),
+    simulate: false,
+    legDelayMs: 0,
+    maxRetries,
+    jito: {
+      tipLamports: 10000,
+      client: new JitoBundleClient(blockEngine.url),
+      bundleWait: { timeoutMs: 50, pollIntervalMs: 5 },
+    },
+    onEvent: event => events.push(event),
+  });
+
+  return { engine, rpc, blockEngine, events };
+};
+
+const plan = () => [
+  makeToken(),
+  makeToken({ mint: WIF_MINT, symbol: 'WIF', decimals: 6, rawSwapAmount: '1000000' }),
+];
+
+describe('SwapEngine.executeBundled', () => {
+  it('completes the legs of a bundle the block engine reports landed', async () => {
+    const { engine, rpc, blockEngine } = await setup({
+      status: () => 'Landed',
+      onBundle: signatures => signatures.forEach(rpc.land),
+    });
+
+    const results = await engine.executeBundled(plan());
+
+    expect(blockEngine.bundles).toHaveLength(1);
+    expect(results.map(result => result.error)).toEqual([undefined, undefined]);
+    expect(results.map(result => result.signature)).toEqual(blockEngine.bundles[0].slice(0, 2));
+    expect(results.every(result => result.bundleId === 'bundle-0')).toBe(true);
+  });
+
+  it('does not resend a bundle that lands after the block engine stops reporting it', async () => {
+    const { engine, rpc, blockEngine } = await setup({
+      status: () => 'Pending',
+      onBundle: signatures => signatures.forEach(rpc.land),
+    });
+
+    const results = await engine.executeBundled(plan());
+
+    expect(blockEngine.bundles).toHaveLength(1);
+    expect(results.every(result => result.signature && !result.error)).toBe(true);
+  });
+
+  it('waits for the blockhash to expire before resending a pending bundle', async () => {
+    const sentAtHeight: number[] = [];
+    const { engine, rpc, blockEngine, events } = await setup({
+      status: () => 'Pending',
+      onBundle: (signatures, index) => {
+        sentAtHeight.push(rpc.getBlockHeight());
+        if (index > 0) signatures.forEach(rpc.land);
+      },
+    });
+
+    const results = await engine.executeBundled(plan());
+
+    const firstSubmission = events.find(event => event.type === 'submitted');
+    const lastValidBlockHeight = firstSubmission?.type === 'submitted' ? firstSubmission.lastValidBlockHeight : undefined;
+    expect(blockEngine.bundles).toHaveLength(2);
+    expect(sentAtHeight[1]).toBeGreaterThan(lastValidBlockHeight as number);
+    expect(events.filter(event => event.type === 'retry')).toHaveLength(2);
+    expect(results.map(result => result.signature)).toEqual(blockEngine.bundles[1].slice(0, 2));
+    // the resend bids above the tip that did not land
+    expect(results.every(result => (result.tipLamports as number) > 10000)).toBe(true);
+  });
+
+  it('watches a bundle whose send errored instead of resending it', async () => {
+    const { engine, rpc, blockEngine } = await setup({
+      status: () => 'Landed',
+      onBundle: signatures => signatures.forEach(rpc.land),
+      failSend: () => true,
+    });
+
+    const results = await engine.executeBundled(plan());
+
+    expect(blockEngine.bundles).toHaveLength(1);
+    expect(results.map(result => result.error)).toEqual([undefined, undefined]);
+    expect(results.map(result => result.signature)).toEqual(blockEngine.bundles[0].slice(0, 2));
+  });
+
+  it('leaves legs unresolved when their statuses cannot be read', async () => {
+    const { engine, blockEngine } = await setup({ status: () => 'Invalid' }, { statusErrors: 100 });
+
+    const results = await engine.executeBundled(plan());
+
+    expect(blockEngine.bundles).toHaveLength(1);
+    expect(results.every(result => result.unresolved)).toBe(true);
+    expect(results.map(result => result.signature)).toEqual(blockEngine.bundles[0].slice(0, 2));
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { SwapEngine, SwapEngineConfig } from '../engine';
+import { SwapEngineEvent } from '../../../types/swap';
+import {
+  BONK_MINT,
+  USDC_MINT,
+  WIF_MINT,
+  createFakeRpc,
+  createJupiterServer,
+  createSigner,
+  createTracker,
+  makeToken,
+} from './fakes';
+
+const setup = (
+  rpcOptions: Parameters<typeof createFakeRpc>[0] = {},
+  serverOptions: { failQuotes?: number } = {},
+  config: Partial<SwapEngineConfig> = {},
+) => {
+  const signer = createSigner();
+  const rpc = createFakeRpc({ outputRaw: '4990000', ...rpcOptions });
+  rpc.setOwner(signer.publicKey);
+  const server = createJupiterServer({
+    outAmounts: { [BONK_MINT]: '5000000', [WIF_MINT]: '2000000' },
+    payer: signer.publicKey,
+    ...serverOptions,
+  });
+  const events: SwapEngineEvent[] = [];
+
+  const engine = new SwapEngine({
+    connection: rpc.connection,
+    signer,
+    outputMint: USDC_MINT,
+    outputDecimals: 6,
+    slippage: 0.5,
+    fetcher: server.fetcher,
+    tracker: createTracker(rpc.connection),
+    simulate: false,
+    legDelayMs: 0,
+    onEvent: event => events.push(event),
+    ...config,
+  });
+
+  return { engine, rpc, server, signer, events };
+};
+
+describe('SwapEngine.execute', () => {
+  it('quotes, builds, signs and lands a leg against the mocked apis', async () => {
+    const { engine, rpc, server } = setup();
+
+    const [result] = await engine.execute([makeToken()]);
+
+    expect(result.error).toBeUndefined();
+    expect(result.signature).toBe(rpc.broadcasts[0]);
+    expect(result.quoteProvider).toBe('jupiter');
+    expect(result.outputAmount).toBeCloseTo(4.99);
+    expect(result.outputUsd).toBeCloseTo(4.99);
+    expect(server.quotes[0].get('amount')).toBe('50000000');
+    expect(server.quotes[0].get('slippageBps')).toBe('50');
+    expect(server.swaps).toHaveLength(1);
+  });
+
+  it('runs the legs of a plan in order', async () => {
+    const { engine } = setup();
+
+    const results = await engine.execute([
+      makeToken(),
+      makeToken({ mint: WIF_MINT, symbol: 'WIF', decimals: 6, rawSwapAmount: '1000000' }),
+    ]);
+
+    expect(results.map(result => result.symbol)).toEqual(['BONK', 'WIF']);
+    expect(results.every(result => result.signature)).toBe(true);
+  });
+
+  it('re-quotes a leg whose blockhash expired and bids a higher fee', async () => {
+    const backoffs: number[] = [];
+    const { engine, server, rpc } = setup({ sends: ['drop', 'land'] }, {}, {
+      maxRetries: 2,
+      // the backoff before a retry is real time, skip it
+      sleep: async ms => {
+        backoffs.push(ms);
+      },
+    });
+
+    const [result] = await engine.execute([makeToken()]);
+
+    expect(result.error).toBeUndefined();
+    expect(result.retryCount).toBe(1);
+    expect(backoffs).toEqual([2000]);
+    expect(server.quotes).toHaveLength(2);
+    expect(server.swaps[1].computeUnitPriceMicroLamports)
+      .toBeGreaterThan(server.swaps[0].computeUnitPriceMicroLamports);
+    expect(result.signature).toBe(rpc.broadcasts[rpc.broadcasts.length - 1]);
+  });
+
+  it('reports a leg that failed on chain with its signature once retries run out', async () => {
+    const { engine, server, rpc } = setup({ sends: ['fail'] }, {}, { maxRetries: 0 });
+
+    const [result] = await engine.execute([makeToken()]);
+
+    expect(result.error).toMatch(/transaction failed/);
+    expect(result.signature).toBe(rpc.broadcasts[0]);
+    expect(server.swaps).toHaveLength(1);
+  });
+
+  it('reports a leg no provider can quote', async () => {
+    const { engine, server } = setup({}, { failQuotes: 500 }, { maxRetries: 0 });
+
+    const [result] = await engine.execute([makeToken()]);
+
+    expect(result.error).toMatch(/no valid quotes found/);
+    expect(server.swaps).toHaveLength(0);
+  });
+});
+
+describe('SwapEngine.executeBatch', () => {
+  it('signs every leg with one approval and lands them together', async () => {
+    const { engine, events } = setup();
+
+    const results = await engine.executeBatch([
+      makeToken(),
+      makeToken({ mint: WIF_MINT, symbol: 'WIF', decimals: 6, rawSwapAmount: '1000000' }),
+    ]);
+
+    expect(results.every(result => result.signature && !result.error)).toBe(true);
+    expect(events.filter(event => event.type === 'sign-all')).toHaveLength(1);
+  });
+});
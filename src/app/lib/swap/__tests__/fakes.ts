@@ -0,0 +1,253 @@
+import {
+  Keypair,
+  PublicKey,
+  SignatureStatus,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { JupiterQuoteResponse, ProRataToken } from '../../../types/swap';
+import { SwapConnection, SwapSigner } from '../engine';
+import { TransactionTracker } from '../lifecycle';
+import { getTransactionSignature } from '../signature';
+
+export const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+export const BONK_MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+export const WIF_MINT = 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm';
+// any valid base58 blockhash works, nothing checks it against a chain
+export const BLOCKHASH = '11111111111111111111111111111111';
+
+export const makeToken = (overrides: Partial<ProRataToken> = {}): ProRataToken => ({
+  mint: BONK_MINT,
+  symbol: 'BONK',
+  name: 'Bonk',
+  decimals: 5,
+  uiAmount: 1000,
+  rawAmount: '100000000',
+  price: 0.01,
+  value: 10,
+  selected: true,
+  swapAmount: 500,
+  rawSwapAmount: '50000000',
+  percentage: 100,
+  liquidationAmount: 5,
+  originalAmount: 1000,
+  ...overrides,
+});
+
+export const makeQuote = (token: ProRataToken, outAmount: string, overrides: Partial<JupiterQuoteResponse> = {}): JupiterQuoteResponse => ({
+  inputMint: token.mint,
+  outputMint: USDC_MINT,
+  inAmount: token.rawSwapAmount ?? '0',
+  outAmount,
+  otherAmountThreshold: outAmount,
+  swapMode: 'ExactIn',
+  priceImpactPct: '0.001',
+  routePlan: [{
+    swapInfo: {
+      ammKey: Keypair.generate().publicKey.toBase58(),
+      label: 'Whirlpool',
+      inputMint: token.mint,
+      outputMint: USDC_MINT,
+      inAmount: token.rawSwapAmount ?? '0',
+      outAmount,
+      feeAmount: '0',
+      feeMint: token.mint,
+    },
+    percent: 100,
+  }],
+  ...overrides,
+});
+
+// a transfer to a fresh account stands in for a swap, every build is unique
+export const buildUnsignedTransaction = (payer: PublicKey, blockhash: string = BLOCKHASH): VersionedTransaction =>
+  new VersionedTransaction(new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions: [SystemProgram.transfer({
+      fromPubkey: payer,
+      toPubkey: Keypair.generate().publicKey,
+      lamports: 1,
+    })],
+  }).compileToV0Message());
+
+export const createSigner = (keypair: Keypair = Keypair.generate()): SwapSigner & { keypair: Keypair } => ({
+  keypair,
+  publicKey: keypair.publicKey,
+  signTransaction: async transaction => {
+    transaction.sign([keypair]);
+    return transaction;
+  },
+  signAllTransactions: async transactions => {
+    transactions.forEach(transaction => transaction.sign([keypair]));
+    return transactions;
+  },
+});
+
+const jsonResponse = (body: unknown, status: number = 200): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+export interface JupiterServerOptions {
+  // output quoted per input mint, a missing mint answers with no route
+  outAmounts: Record<string, string>;
+  payer: PublicKey;
+  // status code to fail quote requests with
+  failQuotes?: number;
+}
+
+export interface SwapRequestRecord {
+  quoteResponse: JupiterQuoteResponse;
+  computeUnitPriceMicroLamports: number;
+  recentBlockhash: string;
+}
+
+// answers the jupiter quote and swap endpoints the engine calls. raydium and
+// anything else gets a 404, which its provider reads as no quote
+export const createJupiterServer = (options: JupiterServerOptions) => {
+  const quotes: URLSearchParams[] = [];
+  const swaps: SwapRequestRecord[] = [];
+
+  const fetcher = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input.toString());
+    if (!url.hostname.includes('jup.ag')) {
+      return jsonResponse({ error: 'not found' }, 404);
+    }
+
+    if (url.pathname.endsWith('/quote')) {
+      quotes.push(url.searchParams);
+      if (options.failQuotes) {
+        return jsonResponse({ error: 'unavailable' }, options.failQuotes);
+      }
+      const inputMint = url.searchParams.get('inputMint') as string;
+      const outAmount = options.outAmounts[inputMint];
+      if (!outAmount) {
+        return jsonResponse({ error: 'no route' }, 400);
+      }
+      return jsonResponse({
+        inputMint,
+        outputMint: url.searchParams.get('outputMint'),
+        inAmount: url.searchParams.get('amount'),
+        outAmount,
+        otherAmountThreshold: outAmount,
+        swapMode: url.searchParams.get('swapMode'),
+        priceImpactPct: '0.001',
+        routePlan: [],
+      });
+    }
+
+    if (url.pathname.endsWith('/swap')) {
+      const body = JSON.parse(init?.body as string);
+      swaps.push({
+        quoteResponse: body.quoteResponse,
+        computeUnitPriceMicroLamports: body.computeUnitPriceMicroLamports,
+        recentBlockhash: body.configs.recentBlockhash,
+      });
+      const transaction = buildUnsignedTransaction(options.payer, body.configs.recentBlockhash);
+      return jsonResponse({ swapTransaction: Buffer.from(transaction.serialize()).toString('base64') });
+    }
+
+    return jsonResponse({ error: 'not found' }, 404);
+  }) as typeof fetch;
+
+  return { fetcher, quotes, swaps };
+};
+
+export type SendBehaviour = 'land' | 'fail' | 'drop';
+
+export interface FakeRpcOptions {
+  // what happens to each send, in order; the last entry repeats
+  sends?: SendBehaviour[];
+  // block height advance per getBlockHeight call
+  blocksPerPoll?: number;
+  // raw output credited to the owner by a landed swap
+  outputRaw?: string;
+  outputMint?: string;
+  // status lookups to fail before the rpc answers again
+  statusErrors?: number;
+}
+
+// an rpc that lands, fails or drops each signed transaction it is sent, and
+// remembers every signature it has seen so statuses and fills can be served
+export const createFakeRpc = (options: FakeRpcOptions = {}) => {
+  const sends = options.sends ?? ['land'];
+  const outcomes = new Map<string, SendBehaviour>();
+  const broadcasts: string[] = [];
+  let sendCount = 0;
+  let blockHeight = 100;
+  let statusErrors = options.statusErrors ?? 0;
+
+  const status = (signature: string): SignatureStatus | null => {
+    const outcome = outcomes.get(signature);
+    if (!outcome || outcome === 'drop') return null;
+    return {
+      slot: 1,
+      confirmations: null,
+      err: outcome === 'fail' ? { InstructionError: [0, 'Custom'] } : null,
+      confirmationStatus: 'confirmed',
+    };
+  };
+
+  const connection = {
+    getLatestBlockhash: async () => ({ blockhash: BLOCKHASH, lastValidBlockHeight: blockHeight + 50 }),
+    getBlockHeight: async () => {
+      blockHeight += options.blocksPerPoll ?? 10;
+      return blockHeight;
+    },
+    getSlot: async () => 1,
+    getRecentPrioritizationFees: async () => [],
+    sendRawTransaction: async (raw: Uint8Array | Buffer) => {
+      const transaction = VersionedTransaction.deserialize(raw);
+      const signature = getTransactionSignature(transaction);
+      broadcasts.push(signature);
+      if (!outcomes.has(signature)) {
+        outcomes.set(signature, sends[Math.min(sendCount, sends.length - 1)]);
+        sendCount++;
+      }
+      return signature;
+    },
+    getSignatureStatuses: async (signatures: string[]) => {
+      if (statusErrors > 0) {
+        statusErrors--;
+        throw new Error('rpc unavailable');
+      }
+      return { context: { slot: 1 }, value: signatures.map(status) };
+    },
+    getParsedTransaction: async (signature: string) => {
+      if (outcomes.get(signature) !== 'land') return null;
+      return {
+        slot: 1,
+        blockTime: null,
+        transaction: { signatures: [signature], message: { accountKeys: [] } },
+        meta: {
+          err: null,
+          fee: 5000,
+          preBalances: [],
+          postBalances: [],
+          preTokenBalances: [],
+          postTokenBalances: options.outputRaw ? [{
+            accountIndex: 1,
+            mint: options.outputMint ?? USDC_MINT,
+            owner: connection.owner,
+            uiTokenAmount: { amount: options.outputRaw, decimals: 6, uiAmount: null, uiAmountString: '' },
+          }] : [],
+        },
+      };
+    },
+    owner: '',
+  };
+
+  return {
+    connection: connection as unknown as SwapConnection & { owner: string },
+    broadcasts,
+    outcomes,
+    // lands a signature out of band, as a bundle does
+    land: (signature: string) => outcomes.set(signature, 'land'),
+    getBlockHeight: () => blockHeight,
+    setOwner: (owner: PublicKey) => {
+      connection.owner = owner.toBase58();
+    },
+  };
+};
+
+export const createTracker = (connection: SwapConnection) =>
+  new TransactionTracker(connection, { sleep: async () => {}, rebroadcastIntervalMs: 0 });
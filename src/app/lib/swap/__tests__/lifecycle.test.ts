@@ -0,0 +1,185 @@
+import { Keypair, SignatureStatus, VersionedTransaction } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import { LifecycleConnection, TransactionTracker, UnresolvedTransactionError } from '../lifecycle';
+import { getTransactionSignature } from '../signature';
+import { buildUnsignedTransaction } from './fakes';
+
+const LAST_VALID_BLOCK_HEIGHT = 150;
+
+type Poll = SignatureStatus['confirmationStatus'] | 'failed' | 'missing' | 'error';
+
+interface FakeRpcScript {
+  // what each status poll answers, the last entry repeats
+  polls: Poll[];
+  // block height at each height check, the last entry repeats
+  heights?: number[];
+  // what a search through history finds once the blockhash expired
+  history?: Poll;
+}
+
+const toStatus = (poll: Poll): SignatureStatus | null => {
+  if (poll === 'missing' || poll === 'error') return null;
+  return {
+    slot: 42,
+    confirmations: null,
+    err: poll === 'failed' ? { InstructionError: [0, 'Custom'] } : null,
+    confirmationStatus: poll === 'failed' ? 'confirmed' : poll,
+  };
+};
+
+// an rpc that answers status polls from a script and counts every send
+const createRpc = (script: FakeRpcScript) => {
+  const sends: Uint8Array[] = [];
+  const historySearches: string[][] = [];
+  let poll = -1;
+  let heightCheck = -1;
+
+  const at = <T>(entries: T[], index: number): T => entries[Math.min(index, entries.length - 1)];
+
+  const connection = {
+    sendRawTransaction: async (raw: Uint8Array) => {
+      sends.push(raw);
+      return getTransactionSignature(VersionedTransaction.deserialize(raw));
+    },
+    getSignatureStatuses: async (signatures: string[], config?: { searchTransactionHistory?: boolean }) => {
+      if (config?.searchTransactionHistory) {
+        historySearches.push(signatures);
+        return { context: { slot: 1 }, value: signatures.map(() => toStatus(script.history ?? 'missing')) };
+      }
+      const answer = at(script.polls, ++poll);
+      if (answer === 'error') throw new Error('rpc unavailable');
+      return { context: { slot: 1 }, value: signatures.map(() => toStatus(answer)) };
+    },
+    getBlockHeight: async () => at(script.heights ?? [100], ++heightCheck),
+  };
+
+  return { connection: connection as unknown as LifecycleConnection, sends, historySearches };
+};
+
+// the clock only moves when the tracker sleeps, so intervals are exact
+const createTracker = (connection: LifecycleConnection, maxPollErrors?: number) => {
+  let clock = 0;
+  return new TransactionTracker(connection, {
+    pollIntervalMs: 1000,
+    rebroadcastIntervalMs: 2000,
+    maxPollErrors,
+    sleep: async ms => {
+      clock += ms;
+    },
+    now: () => clock,
+  });
+};
+
+const signedTransaction = () => {
+  const payer = Keypair.generate();
+  const transaction = buildUnsignedTransaction(payer.publicKey);
+  transaction.sign([payer]);
+  return transaction;
+};
+
+describe('TransactionTracker.track', () => {
+  it('reports a transaction once it confirms', async () => {
+    const rpc = createRpc({ polls: ['missing', 'processed', 'confirmed'] });
+    const transaction = signedTransaction();
+
+    const outcome = await createTracker(rpc.connection).track(transaction, LAST_VALID_BLOCK_HEIGHT);
+
+    expect(outcome).toEqual({ status: 'landed', signature: getTransactionSignature(transaction), slot: 42 });
+  });
+
+  it('rebroadcasts the same signed bytes on every interval until it lands', async () => {
+    const rpc = createRpc({ polls: ['missing', 'missing', 'missing', 'missing', 'missing', 'confirmed'] });
+    const transaction = signedTransaction();
+    const rebroadcasts: number[] = [];
+
+    await createTracker(rpc.connection).track(transaction, LAST_VALID_BLOCK_HEIGHT, attempt =>
+      rebroadcasts.push(attempt),
+    );
+
+    expect(rebroadcasts).toEqual([1, 2]);
+    expect(rpc.sends).toHaveLength(3);
+    rpc.sends.forEach(raw => expect(raw).toEqual(transaction.serialize()));
+  });
+
+  it('reports a failed transaction with its error', async () => {
+    const rpc = createRpc({ polls: ['failed'] });
+
+    const outcome = await createTracker(rpc.connection).track(signedTransaction(), LAST_VALID_BLOCK_HEIGHT);
+
+    expect(outcome.status).toBe('failed');
+    expect(outcome.status === 'failed' && outcome.error).toContain('InstructionError');
+  });
+
+  it('expires a transaction only once the blockhash has passed and history has no trace of it', async () => {
+    const rpc = createRpc({ polls: ['missing'], heights: [100, 140, 150, 151] });
+
+    const outcome = await createTracker(rpc.connection).track(signedTransaction(), LAST_VALID_BLOCK_HEIGHT);
+
+    expect(outcome.status).toBe('expired');
+    expect(rpc.historySearches).toHaveLength(1);
+  });
+
+  it('reports a transaction history finds after the blockhash passed as landed', async () => {
+    const rpc = createRpc({ polls: ['missing'], heights: [151], history: 'finalized' });
+
+    const outcome = await createTracker(rpc.connection).track(signedTransaction(), LAST_VALID_BLOCK_HEIGHT);
+
+    expect(outcome.status).toBe('landed');
+  });
+
+  it('keeps watching a processed transaction past the blockhash instead of expiring it', async () => {
+    const rpc = createRpc({ polls: ['processed', 'processed', 'confirmed'], heights: [151] });
+
+    const outcome = await createTracker(rpc.connection).track(signedTransaction(), LAST_VALID_BLOCK_HEIGHT);
+
+    expect(outcome.status).toBe('landed');
+  });
+
+  it('gives up without expiring when the rpc stops answering, so the leg is not re-quoted', async () => {
+    const rpc = createRpc({ polls: ['error'] });
+    const transaction = signedTransaction();
+
+    const tracking = createTracker(rpc.connection, 3).track(transaction, LAST_VALID_BLOCK_HEIGHT);
+
+    await expect(tracking).rejects.toBeInstanceOf(UnresolvedTransactionError);
+    await expect(tracking).rejects.toMatchObject({
+      signature: getTransactionSignature(transaction),
+      lastValidBlockHeight: LAST_VALID_BLOCK_HEIGHT,
+    });
+  });
+
+  it('rides out rpc errors short of the limit', async () => {
+    const rpc = createRpc({ polls: ['error', 'error', 'missing', 'error', 'error', 'confirmed'] });
+
+    const outcome = await createTracker(rpc.connection, 3).track(signedTransaction(), LAST_VALID_BLOCK_HEIGHT);
+
+    expect(outcome.status).toBe('landed');
+  });
+});
+
+describe('TransactionTracker.watch', () => {
+  it('reports the first of the signatures to settle', async () => {
+    const rpc = createRpc({ polls: ['missing', 'confirmed'] });
+
+    const outcome = await createTracker(rpc.connection).watch(['first', 'second'], LAST_VALID_BLOCK_HEIGHT);
+
+    expect(outcome).toEqual({ status: 'landed', signature: 'first', slot: 42 });
+    expect(rpc.sends).toHaveLength(0);
+  });
+
+  it('expires the signatures only once the blockhash has passed', async () => {
+    const rpc = createRpc({ polls: ['missing'], heights: [100, 150, 151] });
+
+    const outcome = await createTracker(rpc.connection).watch(['first', 'second'], LAST_VALID_BLOCK_HEIGHT);
+
+    expect(outcome.status).toBe('expired');
+    expect(rpc.historySearches).toHaveLength(1);
+  });
+
+  it('leaves the signatures unresolved when the rpc stops answering', async () => {
+    const rpc = createRpc({ polls: ['error'] });
+
+    await expect(createTracker(rpc.connection, 3).watch(['first'], LAST_VALID_BLOCK_HEIGHT))
+      .rejects.toBeInstanceOf(UnresolvedTransactionError);
+  });
+});
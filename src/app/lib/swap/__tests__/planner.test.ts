@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { TokenBalance } from '../../../types/token';
+import { planProRata, toRawBalance } from '../planner';
+
+const tokenArbitrary = fc.record({
+  decimals: fc.integer({ min: 0, max: 9 }),
+  raw: fc.bigInt({ min: BigInt(0), max: BigInt(10) ** BigInt(15) }),
+  price: fc.double({ min: 1e-9, max: 1e5, noNaN: true, noDefaultInfinity: true }),
+});
+
+const walletArbitrary = fc.array(tokenArbitrary, { minLength: 1, maxLength: 8 }).map(entries =>
+  entries.map(({ decimals, raw, price }, index): TokenBalance => ({
+    mint: `mint-${index}`,
+    symbol: `T${index}`,
+    name: `token ${index}`,
+    decimals,
+    rawAmount: raw.toString(),
+    uiAmount: Number(raw) / Math.pow(10, decimals),
+    price,
+    value: (Number(raw) / Math.pow(10, decimals)) * price,
+    selected: true,
+  })),
+);
+
+// a usd amount or a percentage of the priced value, the two ways a plan is sized
+const targetArbitrary = fc.oneof(
+  fc.record({ targetValueUsd: fc.double({ min: 0, max: 1e7, noNaN: true, noDefaultInfinity: true }) }),
+  fc.record({ percentage: fc.double({ min: 0, max: 100, noNaN: true, noDefaultInfinity: true }) }),
+);
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TEN = BigInt(10);
+const MAX_DECIMALS = 9;
+
+interface ExactToken {
+  decimals: number;
+  raw: bigint;
+  // up to $100k, at most 11 digits so the float price is exact
+  priceMicros: bigint;
+}
+
+const exactWalletArbitrary = fc.array(
+  fc.record({
+    decimals: fc.integer({ min: 0, max: MAX_DECIMALS }),
+    raw: fc.bigInt({ min: ZERO, max: TEN ** BigInt(15) }),
+    priceMicros: fc.bigInt({ min: ONE, max: TEN ** BigInt(11) }),
+  }),
+  { minLength: 1, maxLength: 8 },
+);
+
+const exactTargetArbitrary = fc.oneof(
+  fc.record({ targetCents: fc.bigInt({ min: ZERO, max: TEN ** BigInt(9) }) }),
+  fc.record({ basisPoints: fc.integer({ min: 0, max: 10000 }) }),
+);
+
+const toExactToken = ({ decimals, raw, priceMicros }: ExactToken, index: number): TokenBalance => {
+  const uiAmount = Number(raw) / Math.pow(10, decimals);
+  const price = Number(priceMicros) / 1e6;
+  return {
+    mint: `mint-${index}`,
+    symbol: `T${index}`,
+    name: `token ${index}`,
+    decimals,
+    rawAmount: raw.toString(),
+    uiAmount,
+    price,
+    value: uiAmount * price,
+    selected: true,
+  };
+};
+
+describe('planProRata', () => {
+  it('never plans a leg larger than its balance', () => {
+    fc.assert(fc.property(walletArbitrary, targetArbitrary, (tokens, options) => {
+      const plan = planProRata(tokens, options);
+
+      for (const leg of plan.legs) {
+        const rawSwap = BigInt(leg.rawSwapAmount as string);
+        expect(rawSwap >= ZERO).toBe(true);
+        expect(rawSwap <= toRawBalance(leg)).toBe(true);
+      }
+    }));
+  });
+
+  // with prices in whole micro-dollars, targets in whole cents and amounts in
+  // base units, every value is an exact rational and the pro-rata share of
+  // each leg can be worked out without the planner's fixed-point steps:
+  // a leg's raw share is target * balance / total value. the planner floors
+  // it to a whole base unit, and because it floors once in usd units before
+  // converting back it can land one unit lower when the share sits within a
+  // fraction of a unit of a boundary. so each leg is 0 or 1 base units short,
+  // and the total is never above the target and short of it by under two
+  // base units' value per leg
+  it('plans each leg at its exact pro-rata share rounded down to a base unit', () => {
+    fc.assert(fc.property(exactWalletArbitrary, exactTargetArbitrary, (wallet, target) => {
+      const tokens = wallet.map(toExactToken);
+      const options = 'targetCents' in target
+        ? { targetValueUsd: Number(target.targetCents) / 100 }
+        : { percentage: target.basisPoints / 100 };
+      const plan = planProRata(tokens, options);
+
+      // values in micro-dollars scaled by 10^MAX_DECIMALS, so all integers
+      const valueOf = (raw: bigint, entry: ExactToken) =>
+        raw * entry.priceMicros * TEN ** BigInt(MAX_DECIMALS - entry.decimals);
+      const held = wallet.filter(entry => valueOf(entry.raw, entry) > ZERO);
+      const total = held.reduce((sum, entry) => sum + valueOf(entry.raw, entry), ZERO);
+
+      // the share of the total to sell, as an exact fraction
+      const targetValue = 'targetCents' in target
+        ? target.targetCents * BigInt(10000) * TEN ** BigInt(MAX_DECIMALS)
+        : ZERO;
+      const [shareNum, shareDen] = 'basisPoints' in target
+        ? [BigInt(target.basisPoints), BigInt(10000)]
+        : targetValue < total ? [targetValue, total] : [ONE, ONE];
+
+      expect(plan.legs).toHaveLength(held.length);
+      let plannedValue = ZERO;
+      let slack = ZERO;
+      plan.legs.forEach((leg, index) => {
+        const entry = held[index];
+        const exactRaw = (entry.raw * shareNum) / shareDen;
+        const rawSwap = BigInt(leg.rawSwapAmount as string);
+
+        expect(exactRaw - rawSwap >= ZERO).toBe(true);
+        expect(exactRaw - rawSwap <= ONE).toBe(true);
+        plannedValue += valueOf(rawSwap, entry);
+        slack += valueOf(BigInt(2), entry);
+      });
+
+      // plannedValue <= total * share < plannedValue + slack
+      expect(plannedValue * shareDen <= total * shareNum).toBe(true);
+      if (plan.legs.length > 0) {
+        expect(total * shareNum - plannedValue * shareDen < slack * shareDen).toBe(true);
+      }
+    }));
+  });
+});
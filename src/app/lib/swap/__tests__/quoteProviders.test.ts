@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { SwapEngine } from '../engine';
+import {
+  JupiterQuoteProvider,
+  QuoteProvider,
+  QuoteRequest,
+  RaydiumQuoteProvider,
+} from '../quoteProviders';
+import { JupiterQuoteResponse, RouteConstraints } from '../../../types/swap';
+import { BONK_MINT, USDC_MINT, createFakeRpc, createSigner, makeQuote, makeToken } from './fakes';
+
+const request: QuoteRequest = {
+  inputMint: BONK_MINT,
+  outputMint: USDC_MINT,
+  amount: BigInt(50000000),
+  swapMode: 'ExactIn',
+  slippageBps: 50,
+};
+
+const constraints = (overrides: Partial<RouteConstraints> = {}): RouteConstraints => ({
+  dexes: [],
+  excludeDexes: [],
+  onlyDirectRoutes: false,
+  maxAccounts: null,
+  restrictIntermediateTokens: false,
+  ...overrides,
+});
+
+// answers every request with the same body and remembers the urls it saw
+const createFetcher = (body: unknown, status: number = 200) => {
+  const urls: URL[] = [];
+  const fetcher = (async (input: RequestInfo | URL) => {
+    urls.push(new URL(input.toString()));
+    return new Response(JSON.stringify(body), { status });
+  }) as typeof fetch;
+  return { fetcher, urls };
+};
+
+// answers with the given quote fields, or no quote, or by failing
+type ProviderAnswer = Partial<JupiterQuoteResponse> | null | Error;
+
+const createProvider = (name: string, answer: ProviderAnswer): QuoteProvider => ({
+  name,
+  getQuote: async quoteRequest => {
+    if (answer instanceof Error) throw answer;
+    if (answer === null) return null;
+    return makeQuote(makeToken(), answer.outAmount ?? '0', {
+      inAmount: quoteRequest.amount.toString(),
+      ...answer,
+    });
+  },
+  buildSwapTransaction: async () => {
+    throw new Error('not used');
+  },
+});
+
+const createEngine = (quoteProviders: QuoteProvider[]) => new SwapEngine({
+  connection: createFakeRpc().connection,
+  signer: createSigner(),
+  outputMint: USDC_MINT,
+  outputDecimals: 6,
+  slippage: 0.5,
+  quoteProviders,
+  simulate: false,
+});
+
+describe('JupiterQuoteProvider', () => {
+  it('passes the route constraints as quote params', async () => {
+    const { fetcher, urls } = createFetcher(makeQuote(makeToken(), '5000000'));
+    const provider = new JupiterQuoteProvider('https://jupiter.test/swap/v1', fetcher);
+
+    const quote = await provider.getQuote({
+      ...request,
+      constraints: constraints({ excludeDexes: ['Raydium'], onlyDirectRoutes: true, maxAccounts: 40 }),
+    });
+
+    expect(quote?.outAmount).toBe('5000000');
+    expect(urls[0].pathname).toBe('/swap/v1/quote');
+    expect(urls[0].searchParams.get('amount')).toBe('50000000');
+    expect(urls[0].searchParams.get('excludeDexes')).toBe('Raydium');
+    expect(urls[0].searchParams.get('onlyDirectRoutes')).toBe('true');
+    expect(urls[0].searchParams.get('maxAccounts')).toBe('40');
+    expect(urls[0].searchParams.has('dexes')).toBe(false);
+  });
+
+  it('reads a failed request as no quote', async () => {
+    const { fetcher } = createFetcher({ error: 'no route' }, 400);
+
+    expect(await new JupiterQuoteProvider(undefined, fetcher).getQuote(request)).toBeNull();
+  });
+});
+
+describe('RaydiumQuoteProvider', () => {
+  const compute = (routePlan: number = 1) => ({
+    success: true,
+    data: {
+      swapType: 'BaseIn',
+      inputMint: BONK_MINT,
+      inputAmount: '50000000',
+      outputMint: USDC_MINT,
+      outputAmount: '4990000',
+      otherAmountThreshold: '4965000',
+      slippageBps: 50,
+      priceImpactPct: 0.25,
+      routePlan: Array.from({ length: routePlan }, (_, index) => ({
+        poolId: `pool-${index}`,
+        inputMint: BONK_MINT,
+        outputMint: USDC_MINT,
+        feeMint: BONK_MINT,
+        feeAmount: '1000',
+      })),
+    },
+  });
+
+  it('converts a compute response to the jupiter quote shape', async () => {
+    const { fetcher, urls } = createFetcher(compute());
+    const provider = new RaydiumQuoteProvider('https://raydium.test/', fetcher);
+
+    const quote = await provider.getQuote(request);
+
+    expect(urls[0].pathname).toBe('/compute/swap-base-in');
+    expect(quote?.inAmount).toBe('50000000');
+    expect(quote?.outAmount).toBe('4990000');
+    expect(quote?.priceImpactPct).toBe('0.0025');
+    expect(quote?.routePlan?.[0].swapInfo.ammKey).toBe('pool-0');
+    expect(quote?.raydiumCompute).toEqual(compute());
+  });
+
+  it('sits out requests whose constraints it cannot honour', async () => {
+    const { fetcher, urls } = createFetcher(compute(2));
+    const provider = new RaydiumQuoteProvider(undefined, fetcher);
+
+    expect(await provider.getQuote({ ...request, constraints: constraints({ dexes: ['Orca'] }) })).toBeNull();
+    expect(await provider.getQuote({ ...request, constraints: constraints({ maxAccounts: 40 }) })).toBeNull();
+    expect(urls).toHaveLength(0);
+    // multi-hop routes are only found out once quoted
+    expect(await provider.getQuote({ ...request, constraints: constraints({ onlyDirectRoutes: true }) })).toBeNull();
+  });
+});
+
+describe('SwapEngine.getBestSwapQuote', () => {
+  it('takes the provider with the most output and measures it against the runner-up', async () => {
+    const engine = createEngine([
+      createProvider('jupiter', { outAmount: '5000000' }),
+      createProvider('raydium', { outAmount: '5050000' }),
+    ]);
+
+    const selection = await engine.getBestSwapQuote(makeToken());
+
+    expect(selection.provider).toBe('raydium');
+    expect(selection.quote.outAmount).toBe('5050000');
+    expect(selection.improvementPct).toBeCloseTo(1);
+  });
+
+  it('falls back to the providers that answer when one fails', async () => {
+    const engine = createEngine([
+      createProvider('jupiter', new Error('rate limited')),
+      createProvider('raydium', { outAmount: '4990000' }),
+    ]);
+
+    const selection = await engine.getBestSwapQuote(makeToken());
+
+    expect(selection.provider).toBe('raydium');
+    // a single answer has nothing to improve on
+    expect(selection.improvementPct).toBeUndefined();
+  });
+
+  it('takes the quote spending the least input for an exact output', async () => {
+    const engine = createEngine([
+      createProvider('jupiter', { outAmount: '5000000', inAmount: '52000000' }),
+      createProvider('raydium', { outAmount: '5000000', inAmount: '50000000' }),
+    ]);
+
+    const selection = await engine.getBestSwapQuote(
+      makeToken({ swapMode: 'ExactOut', targetOutputRaw: '5000000' }),
+    );
+
+    expect(selection.provider).toBe('raydium');
+    expect(selection.improvementPct).toBeCloseTo((2000000 / 52000000) * 100);
+  });
+
+  it('fails a leg no provider can quote', async () => {
+    const engine = createEngine([
+      createProvider('jupiter', null),
+      createProvider('raydium', new Error('unavailable')),
+    ]);
+
+    await expect(engine.getBestSwapQuote(makeToken())).rejects.toThrow(/no valid quotes found/);
+  });
+});
@@ -0,0 +1,81 @@
+import { PersistedSwapBatch } from '../../types/swap';
+
+const DB_NAME = 'swap-batches';
+const DB_VERSION = 1;
+const STORE_NAME = 'batches';
+const WALLET_INDEX = 'wallet';
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// keeps in-flight swap batches in indexeddb so a reload or wallet disconnect
+// does not lose track of which legs were already sent
+export class SwapBatchStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('indexeddb is not available'));
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'batchId' });
+            store.createIndex(WALLET_INDEX, 'wallet', { unique: false });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, mode);
+    return promisifyRequest(action(transaction.objectStore(STORE_NAME)));
+  }
+
+  async save(batch: PersistedSwapBatch): Promise<void> {
+    await this.withStore('readwrite', store => store.put({ ...batch, updatedAt: Date.now() }));
+  }
+
+  async get(batchId: string): Promise<PersistedSwapBatch | null> {
+    const batch = await this.withStore<PersistedSwapBatch | undefined>('readonly', store =>
+      store.get(batchId),
+    );
+    return batch ?? null;
+  }
+
+  async listUnfinished(wallet: string): Promise<PersistedSwapBatch[]> {
+    const batches = await this.withStore<PersistedSwapBatch[]>('readonly', store =>
+      store.index(WALLET_INDEX).getAll(wallet),
+    );
+
+    return batches
+      .filter(batch => batch.state === 'in-progress')
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async remove(batchId: string): Promise<void> {
+    await this.withStore('readwrite', store => store.delete(batchId));
+  }
+}
+
+export const swapBatchStore = new SwapBatchStore();
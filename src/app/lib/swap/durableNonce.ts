@@ -0,0 +1,137 @@
+import {
+  AddressLookupTableAccount,
+  Connection,
+  Keypair,
+  NONCE_ACCOUNT_LENGTH,
+  NonceAccount,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+
+export type NonceConnection = Pick<
+  Connection,
+  'getMultipleAccountsInfo' | 'getMinimumBalanceForRentExemption' | 'getAddressLookupTable'
+>;
+
+export interface DurableNonce {
+  address: PublicKey;
+  nonce: string;
+}
+
+const CREATES_PER_TRANSACTION = 4;
+const WITHDRAWS_PER_TRANSACTION = 8;
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+const compile = (payer: PublicKey, blockhash: string, instructions: TransactionInstruction[]): VersionedTransaction =>
+  new VersionedTransaction(new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions,
+  }).compileToV0Message());
+
+export const fetchDurableNonces = async (
+  connection: NonceConnection,
+  addresses: PublicKey[],
+): Promise<DurableNonce[]> => {
+  const accounts = await connection.getMultipleAccountsInfo(addresses, 'confirmed');
+
+  return accounts.map((account, index) => {
+    if (!account) {
+      throw new Error(`nonce account ${addresses[index].toBase58()} not found`);
+    }
+    return { address: addresses[index], nonce: NonceAccount.fromAccountData(account.data).nonce };
+  });
+};
+
+// the new accounts are funded and owned by the wallet. each transaction is
+// already signed by the nonce keypairs it creates, so only the wallet's
+// signature is missing
+export const buildCreateNonceTransactions = async (
+  connection: NonceConnection,
+  authority: PublicKey,
+  count: number,
+  blockhash: string,
+): Promise<{ transactions: VersionedTransaction[]; addresses: PublicKey[] }> => {
+  const lamports = await connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH);
+  const keypairs = Array.from({ length: count }, () => Keypair.generate());
+
+  const transactions = chunk(keypairs, CREATES_PER_TRANSACTION).map(group => {
+    const transaction = compile(authority, blockhash, group.flatMap(keypair =>
+      SystemProgram.createNonceAccount({
+        fromPubkey: authority,
+        noncePubkey: keypair.publicKey,
+        authorizedPubkey: authority,
+        lamports,
+      }).instructions,
+    ));
+    transaction.sign(group);
+    return transaction;
+  });
+
+  return { transactions, addresses: keypairs.map(keypair => keypair.publicKey) };
+};
+
+// withdrawing the whole balance closes a nonce account, which also voids any
+// presigned transaction that still depends on it
+export const buildReleaseNonceTransactions = async (
+  connection: NonceConnection,
+  authority: PublicKey,
+  addresses: PublicKey[],
+  blockhash: string,
+): Promise<VersionedTransaction[]> => {
+  const accounts = await connection.getMultipleAccountsInfo(addresses, 'confirmed');
+  const open = addresses
+    .map((address, index) => ({ address, lamports: accounts[index]?.lamports ?? 0 }))
+    .filter(account => account.lamports > 0);
+
+  return chunk(open, WITHDRAWS_PER_TRANSACTION).map(group =>
+    compile(authority, blockhash, group.map(account =>
+      SystemProgram.nonceWithdraw({
+        noncePubkey: account.address,
+        authorizedPubkey: authority,
+        toPubkey: authority,
+        lamports: account.lamports,
+      }),
+    )),
+  );
+};
+
+// rebuilds a swap transaction on top of a durable nonce: the nonce becomes
+// the blockhash and advancing it has to be the very first instruction
+export const applyDurableNonce = async (
+  connection: NonceConnection,
+  transaction: VersionedTransaction,
+  nonce: DurableNonce,
+  authority: PublicKey,
+): Promise<VersionedTransaction> => {
+  const lookupTables = await Promise.all(
+    transaction.message.addressTableLookups.map(async (lookup): Promise<AddressLookupTableAccount> => {
+      const { value } = await connection.getAddressLookupTable(lookup.accountKey);
+      if (!value) {
+        throw new Error(`address lookup table ${lookup.accountKey.toBase58()} not found`);
+      }
+      return value;
+    }),
+  );
+
+  const message = TransactionMessage.decompile(transaction.message, {
+    addressLookupTableAccounts: lookupTables,
+  });
+  message.instructions.unshift(SystemProgram.nonceAdvance({
+    noncePubkey: nonce.address,
+    authorizedPubkey: authority,
+  }));
+  message.recentBlockhash = nonce.nonce;
+
+  const rebuilt = new VersionedTransaction(message.compileToV0Message(lookupTables));
+  if (rebuilt.serialize().length > PACKET_DATA_SIZE) {
+    throw new Error('swap route is too large to presign with a durable nonce');
+  }
+  return rebuilt;
+};
@@ -0,0 +1,1005 @@
+import {
+  Connection,
+  PublicKey,
+  TransactionExpiredBlockheightExceededError,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  BundleStatus,
+  JupiterQuoteResponse,
+  LegAssessment,
+  LegPreview,
+  PresignedLeg,
+  PriorityFeeSettings,
+  ProRataToken,
+  QuoteSelectionResult,
+  RouteConstraints,
+  SimulationReport,
+  SwapEngineEvent,
+  SwapGuardrails,
+  SwapMode,
+  SwapResult,
+  TargetOutputPlan,
+} from '../../types/swap';
+import { getRawSwapAmount } from './planner';
+import { SimulationConnection, simulateSwap } from './simulation';
+import { BundleWaitOptions, JitoBundleClient, MAX_SWAPS_PER_BUNDLE, buildTipTransaction } from './jito';
+import { getTransactionSignature } from './signature';
+import { FillConnection, fetchSwapFill } from './fills';
+import { GuardrailBreachError, assessLeg } from './guardrails';
+import { TargetOutputOptions, planTargetOutput } from './targetOutput';
+import { getLegKey } from './outputs';
+import { DurableNonce, NonceConnection, applyDurableNonce } from './durableNonce';
+import { QuoteProvider, createDefaultQuoteProviders } from './quoteProviders';
+import { summarizeRoute } from './routing';
+import {
+  DEFAULT_PRIORITY_FEES,
+  PriorityFeeConnection,
+  PriorityFeeEstimator,
+  escalateComputeUnitPrice,
+  escalateTipLamports,
+  getQuoteAccounts,
+} from './priorityFees';
+import {
+  FailedTransactionError,
+  LifecycleConnection,
+  TransactionOutcome,
+  TransactionTracker,
+  UnresolvedTransactionError,
+} from './lifecycle';
+
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const USDT_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+
+export type SwapConnection = Pick<
+  Connection,
+  'getLatestBlockhash' | 'sendRawTransaction' | 'confirmTransaction' | 'getSignatureStatuses' | 'getSlot'
+> & SimulationConnection & FillConnection & NonceConnection & PriorityFeeConnection
+  & LifecycleConnection;
+
+export interface SwapSigner {
+  publicKey: PublicKey;
+  signTransaction: (
+    transaction: VersionedTransaction,
+    token: ProRataToken,
+  ) => Promise<VersionedTransaction>;
+  signAllTransactions?: (transactions: VersionedTransaction[]) => Promise<VersionedTransaction[]>;
+}
+
+export interface JitoConfig {
+  tipLamports: number;
+  blockEngineUrl?: string;
+  client?: JitoBundleClient;
+  bundleWait?: BundleWaitOptions;
+}
+
+export interface SwapEngineConfig {
+  connection: SwapConnection;
+  signer: SwapSigner;
+  outputMint: string;
+  outputDecimals: number;
+  outputPriceUsd?: number;
+  slippage: number;
+  jupiterApiUrl?: string;
+  fetcher?: typeof fetch;
+  // compared on every quote, defaults to jupiter and raydium
+  quoteProviders?: QuoteProvider[];
+  routeConstraints?: RouteConstraints;
+  priorityFees?: PriorityFeeSettings;
+  // shared between engines so a split batch samples fees once
+  feeEstimator?: PriorityFeeEstimator;
+  // rebroadcasts and settles every blockhash-bound send
+  tracker?: TransactionTracker;
+  maxRetries?: number;
+  legDelayMs?: number;
+  simulate?: boolean;
+  jito?: JitoConfig;
+  guardrails?: SwapGuardrails;
+  // accepted loss per leg, shared between engines when a batch is split
+  // across several outputs so the batch loss limit still covers all of them
+  lossLedger?: Map<string, number>;
+  // asked when a leg breaches a guardrail and breachAction is 'confirm'
+  confirmBreach?: (token: ProRataToken, assessment: LegAssessment) => Promise<boolean>;
+  onEvent?: (event: SwapEngineEvent) => void;
+  // waits out leg delays and retry backoff, injectable so tests skip them
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface BlockhashInfo {
+  blockhash: string;
+  lastValidBlockHeight: number;
+}
+
+interface PreparedLeg extends BlockhashInfo {
+  token: ProRataToken;
+  quoteSelection: QuoteSelectionResult;
+  transaction: VersionedTransaction;
+  computeUnitPrice: number;
+  simulation?: SimulationReport;
+}
+
+type SettledLeg = Pick<PreparedLeg, 'token' | 'quoteSelection' | 'simulation'> &
+  Partial<Pick<PreparedLeg, 'computeUnitPrice'>>;
+
+interface RoundHandlers {
+  round: number;
+  complete: (token: ProRataToken, result: SwapResult) => void;
+  fail: (token: ProRataToken, err: unknown) => void;
+  requeue: (token: ProRataToken, err: unknown) => void;
+}
+
+interface QuoteComparison {
+  quote: JupiterQuoteResponse;
+  provider: QuoteProvider;
+  // output for ExactIn quotes, negated input for ExactOut, so higher is better
+  score: number;
+}
+
+export class SwapEngine {
+  private readonly fetcher: typeof fetch;
+  private readonly quoteProviders: QuoteProvider[];
+  private readonly maxRetries: number;
+  private readonly legDelayMs: number;
+  private readonly lastSimulation = new Map<string, SimulationReport>();
+  private readonly acceptedLossUsd: Map<string, number>;
+  private readonly feeEstimator: PriorityFeeEstimator;
+  private readonly tracker: TransactionTracker;
+  // blockhash expiries per leg, each one bids a higher priority fee
+  private readonly expiries = new Map<string, number>();
+
+  constructor(private config: SwapEngineConfig) {
+    this.fetcher = config.fetcher ?? ((input, init) => fetch(input, init));
+    this.quoteProviders = config.quoteProviders ?? createDefaultQuoteProviders(this.fetcher, config.jupiterApiUrl);
+    this.maxRetries = config.maxRetries ?? 3;
+    this.legDelayMs = config.legDelayMs ?? 2000;
+    this.acceptedLossUsd = config.lossLedger ?? new Map();
+    this.feeEstimator = config.feeEstimator ?? new PriorityFeeEstimator(config.connection);
+    this.tracker = config.tracker ?? new TransactionTracker(config.connection);
+  }
+
+  private emit(event: SwapEngineEvent): void {
+    this.config.onEvent?.(event);
+  }
+
+  private async sleep(ms: number): Promise<void> {
+    if (ms <= 0) return;
+    if (this.config.sleep) {
+      await this.config.sleep(ms);
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private async requestQuote(
+    provider: QuoteProvider,
+    token: ProRataToken,
+    amount: bigint,
+    swapMode: SwapMode,
+  ): Promise<JupiterQuoteResponse | null> {
+    try {
+      if (amount <= BigInt(0)) {
+        return null;
+      }
+
+      return await provider.getQuote({
+        inputMint: token.mint,
+        outputMint: this.config.outputMint,
+        amount,
+        swapMode,
+        slippageBps: Math.floor(this.config.slippage * 100),
+        constraints: this.config.routeConstraints,
+      });
+    } catch {
+      return null;
+    }
+  }
+
+  // asks every provider at once and ranks the answers best first
+  private async compareQuotes(
+    token: ProRataToken,
+    amount: bigint,
+    swapMode: SwapMode,
+  ): Promise<QuoteComparison[]> {
+    const quotes = await Promise.all(
+      this.quoteProviders.map(provider => this.requestQuote(provider, token, amount, swapMode)),
+    );
+
+    return quotes
+      .map((quote, index) => ({ quote, provider: this.quoteProviders[index] }))
+      .filter((entry): entry is { quote: JupiterQuoteResponse; provider: QuoteProvider } => entry.quote !== null)
+      .map(({ quote, provider }) => ({
+        quote,
+        provider,
+        score: swapMode === 'ExactOut'
+          ? -parseInt(quote.inAmount ?? quote.outAmount)
+          : parseInt(quote.outAmount),
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private compareLegQuotes(token: ProRataToken): Promise<QuoteComparison[]> {
+    if (token.swapMode === 'ExactOut' && token.targetOutputRaw) {
+      return this.compareQuotes(token, BigInt(token.targetOutputRaw), 'ExactOut');
+    }
+
+    return this.compareQuotes(token, getRawSwapAmount(token), 'ExactIn');
+  }
+
+  // improvement is measured against the runner-up provider, so a single
+  // answering provider records none
+  async getBestSwapQuote(token: ProRataToken): Promise<QuoteSelectionResult> {
+    this.emit({ type: 'quote', token });
+
+    const [best, runnerUp] = await this.compareLegQuotes(token);
+    if (!best) {
+      throw new Error(`failed to fetch quote for ${token.symbol}: no valid quotes found`);
+    }
+
+    const improvementPct = runnerUp && runnerUp.score !== 0
+      ? ((best.score - runnerUp.score) / Math.abs(runnerUp.score)) * 100
+      : undefined;
+
+    return { quote: best.quote, provider: best.provider.name, improvementPct };
+  }
+
+  // only prices that are actually known count here; the quote-implied rate
+  // would make every loss read as zero
+  private getKnownOutputPriceUsd(): number | undefined {
+    const { outputMint, outputPriceUsd } = this.config;
+    if (outputPriceUsd) return outputPriceUsd;
+    if (outputMint === USDC_MINT || outputMint === USDT_MINT) return 1;
+    return undefined;
+  }
+
+  private getPriorLossUsd(legKey: string): number {
+    let total = 0;
+    this.acceptedLossUsd.forEach((loss, key) => {
+      if (key !== legKey) total += loss;
+    });
+    return total;
+  }
+
+  private assess(token: ProRataToken, quote: JupiterQuoteResponse): LegAssessment {
+    return assessLeg(token, quote, {
+      outputDecimals: this.config.outputDecimals,
+      outputPriceUsd: this.getKnownOutputPriceUsd(),
+      guardrails: this.config.guardrails,
+      priorLossUsd: this.getPriorLossUsd(getLegKey(token)),
+    });
+  }
+
+  private async enforceGuardrails(
+    token: ProRataToken,
+    selection: QuoteSelectionResult,
+  ): Promise<QuoteSelectionResult> {
+    const assessment = this.assess(token, selection.quote);
+
+    if (assessment.breaches.length > 0) {
+      this.emit({ type: 'guardrail', token, assessment });
+
+      const { guardrails, confirmBreach } = this.config;
+      const approved = guardrails?.breachAction === 'confirm' && confirmBreach
+        ? await confirmBreach(token, assessment)
+        : false;
+
+      if (!approved) {
+        throw new GuardrailBreachError(token.symbol, assessment);
+      }
+    }
+
+    this.acceptedLossUsd.set(getLegKey(token), Math.max(assessment.lossUsd ?? 0, 0));
+    return { ...selection, assessment };
+  }
+
+  private async quoteLeg(token: ProRataToken): Promise<QuoteSelectionResult> {
+    return this.enforceGuardrails(token, await this.getBestSwapQuote(token));
+  }
+
+  // quotes every leg once without building transactions so the ui can show
+  // output value, impact and loss before anything is signed
+  async previewLegs(plan: ProRataToken[]): Promise<LegPreview[]> {
+    const previews: LegPreview[] = [];
+    let priorLossUsd = 0;
+
+    for (const token of plan) {
+      const [best] = await this.compareLegQuotes(token);
+      const quote = best?.quote;
+      if (!quote) {
+        previews.push({ mint: token.mint, outputMint: token.outputMint, error: 'no quote available' });
+        continue;
+      }
+
+      const assessment = assessLeg(token, quote, {
+        outputDecimals: this.config.outputDecimals,
+        outputPriceUsd: this.getKnownOutputPriceUsd(),
+        guardrails: this.config.guardrails,
+        priorLossUsd,
+      });
+      priorLossUsd += Math.max(assessment.lossUsd ?? 0, 0);
+      previews.push({
+        mint: token.mint,
+        outputMint: token.outputMint,
+        route: this.summarizeLegRoute(token, quote, best.provider.name),
+        assessment,
+      });
+    }
+
+    return previews;
+  }
+
+  private summarizeLegRoute(token: ProRataToken, quote: JupiterQuoteResponse, provider?: string) {
+    return summarizeRoute(quote, provider, {
+      [token.mint]: token.decimals,
+      [this.config.outputMint]: this.config.outputDecimals,
+    });
+  }
+
+  // sizes the plan so its quoted output adds up to an exact amount of the
+  // output token, preferring ExactOut routes where jupiter offers them
+  async planTargetOutput(
+    plan: ProRataToken[],
+    targetOutput: number,
+    options: Pick<TargetOutputOptions, 'tolerancePct' | 'maxIterations'> = {},
+  ): Promise<TargetOutputPlan> {
+    const { outputDecimals, slippage } = this.config;
+    const targetOutputRaw = BigInt(Math.floor(targetOutput * Math.pow(10, outputDecimals)));
+
+    return planTargetOutput(
+      plan,
+      {
+        ...options,
+        targetOutputRaw,
+        outputDecimals,
+        slippageBps: Math.floor(slippage * 100),
+      },
+      async (token, amount, swapMode) => (await this.compareQuotes(token, amount, swapMode))[0]?.quote ?? null,
+    );
+  }
+
+  // sampled on the pools the quote routes through, then raised for every
+  // time this leg's blockhash has already expired
+  private async getComputeUnitPrice(token: ProRataToken, quote: JupiterQuoteResponse): Promise<number> {
+    const price = await this.feeEstimator.getComputeUnitPrice(
+      this.config.priorityFees ?? DEFAULT_PRIORITY_FEES,
+      getQuoteAccounts(quote),
+    );
+    return escalateComputeUnitPrice(price, this.expiries.get(getLegKey(token)) ?? 0);
+  }
+
+  private noteExpiry(token: ProRataToken): void {
+    const key = getLegKey(token);
+    this.expiries.set(key, (this.expiries.get(key) ?? 0) + 1);
+  }
+
+  // a bundle bids for the leg in it that has expired most often
+  private getTipLamports(tipLamports: number, legs: PreparedLeg[]): number {
+    const expiries = Math.max(0, ...legs.map(leg => this.expiries.get(getLegKey(leg.token)) ?? 0));
+    return escalateTipLamports(tipLamports, expiries);
+  }
+
+  private async buildSwapTransaction(
+    token: ProRataToken,
+    selection: QuoteSelectionResult,
+    blockhash: string,
+    computeUnitPrice: number,
+  ): Promise<VersionedTransaction> {
+    const provider = this.quoteProviders.find(candidate => candidate.name === selection.provider)
+      ?? this.quoteProviders[0];
+
+    return provider.buildSwapTransaction({
+      quote: selection.quote,
+      userPublicKey: this.config.signer.publicKey,
+      recentBlockhash: blockhash,
+      computeUnitPriceMicroLamports: computeUnitPrice,
+      inputTokenProgram: token.tokenProgram,
+    });
+  }
+
+  private getMinimumOutput(quote: JupiterQuoteResponse): bigint {
+    // on ExactOut quotes the threshold bounds the input, the output is fixed
+    if (quote.swapMode === 'ExactOut') {
+      return BigInt(quote.outAmount);
+    }
+    if (quote.otherAmountThreshold) {
+      return BigInt(quote.otherAmountThreshold);
+    }
+    const slippageBps = BigInt(Math.floor(this.config.slippage * 100));
+    return (BigInt(quote.outAmount) * (BigInt(10000) - slippageBps)) / BigInt(10000);
+  }
+
+  private async simulateLeg(
+    token: ProRataToken,
+    transaction: VersionedTransaction,
+    quote: JupiterQuoteResponse,
+  ): Promise<SimulationReport> {
+    this.emit({ type: 'simulate', token });
+
+    const report = await simulateSwap(this.config.connection, transaction, {
+      owner: this.config.signer.publicKey,
+      inputMint: token.mint,
+      inputDecimals: token.decimals,
+      inputTokenProgram: token.tokenProgram,
+      outputMint: this.config.outputMint,
+      outputDecimals: this.config.outputDecimals,
+      minOutputRaw: this.getMinimumOutput(quote),
+    });
+
+    this.lastSimulation.set(getLegKey(token), report);
+    this.emit({ type: 'simulated', token, report });
+
+    if (!report.ok) {
+      throw new Error(`simulation failed for ${token.symbol}: ${report.error}`);
+    }
+
+    return report;
+  }
+
+  private async getBlockhash(): Promise<BlockhashInfo> {
+    try {
+      return await this.config.connection.getLatestBlockhash('confirmed');
+    } catch (err) {
+      console.error('failed to get fresh blockhash:', err);
+      throw new Error('unable to get fresh blockhash');
+    }
+  }
+
+  private async prepareLeg(
+    token: ProRataToken,
+    quoteSelection: QuoteSelectionResult,
+    latestBlockhash: BlockhashInfo,
+  ): Promise<PreparedLeg> {
+    const computeUnitPrice = await this.getComputeUnitPrice(token, quoteSelection.quote);
+    const transaction = await this.buildSwapTransaction(
+      token,
+      quoteSelection,
+      latestBlockhash.blockhash,
+      computeUnitPrice,
+    );
+
+    // a failed or drifting simulation throws before the wallet is prompted,
+    // so the caller re-quotes instead of burning fees on chain
+    const simulation = this.config.simulate === false
+      ? undefined
+      : await this.simulateLeg(token, transaction, quoteSelection.quote);
+
+    return { token, quoteSelection, transaction, computeUnitPrice, simulation, ...latestBlockhash };
+  }
+
+  private async submitLeg(
+    leg: PreparedLeg,
+    signedTransaction: VersionedTransaction,
+    retryCount: number,
+  ): Promise<SwapResult> {
+    const { token, lastValidBlockHeight } = leg;
+    const signature = getTransactionSignature(signedTransaction);
+
+    this.emit({ type: 'send', token });
+    // recorded as in flight before the first broadcast, so an interrupted
+    // batch can always find the signature again
+    this.emit({
+      type: 'submitted',
+      token,
+      signature,
+      lastValidBlockHeight,
+      quotedOutputRaw: leg.quoteSelection.quote.outAmount,
+    });
+    this.emit({ type: 'confirm', token, signature });
+    const outcome = await this.tracker.track(signedTransaction, lastValidBlockHeight, attempt =>
+      this.emit({ type: 'rebroadcast', token, signature, attempt }),
+    );
+
+    // only an expired blockhash proves the signature can no longer land, so
+    // it is the one outcome callers may re-quote after
+    if (outcome.status === 'expired') {
+      throw new TransactionExpiredBlockheightExceededError(signature);
+    }
+    if (outcome.status === 'failed') {
+      throw new FailedTransactionError(signature, outcome.error);
+    }
+
+    return this.buildSuccess(leg, signature, retryCount);
+  }
+
+  // without a known output price the quote's own exchange rate is used, which
+  // keeps non-stable outputs like sol from being valued at the input price
+  private getOutputPriceUsd(leg: SettledLeg, quotedOutput: number): number {
+    const { outputMint, outputPriceUsd } = this.config;
+    if (outputPriceUsd) return outputPriceUsd;
+    if (outputMint === USDC_MINT || outputMint === USDT_MINT) return 1;
+    return quotedOutput > 0 ? leg.token.liquidationAmount / quotedOutput : 0;
+  }
+
+  // values the leg from what actually landed on chain, falling back to the
+  // quoted amounts when the parsed transaction cannot be fetched
+  private async buildSuccess(leg: SettledLeg, signature: string, retryCount: number): Promise<SwapResult> {
+    const { connection, signer, outputMint, outputDecimals } = this.config;
+    const { token, quoteSelection } = leg;
+
+    const quotedOutput = parseInt(quoteSelection.quote.outAmount) / Math.pow(10, outputDecimals);
+    const fill = await fetchSwapFill(connection, signature, {
+      owner: signer.publicKey,
+      inputMint: token.mint,
+      inputDecimals: token.decimals,
+      outputMint,
+      outputDecimals,
+      quotedOutputRaw: quoteSelection.quote.outAmount,
+    });
+
+    const inputAmount = fill?.inputSpent ?? token.swapAmount;
+    const outputAmount = fill?.outputReceived ?? quotedOutput;
+    const outputUsd = outputAmount * this.getOutputPriceUsd(leg, quotedOutput);
+
+    return {
+      symbol: token.symbol,
+      mint: token.mint,
+      decimals: token.decimals,
+      signature,
+      amount: token.price ? inputAmount * token.price : token.liquidationAmount,
+      inputAmount,
+      outputAmount,
+      outputUsd,
+      retryCount,
+      priceUsd: token.price,
+      quoteImprovementPct: quoteSelection.improvementPct,
+      quoteProvider: quoteSelection.provider,
+      route: this.summarizeLegRoute(token, quoteSelection.quote, quoteSelection.provider),
+      simulation: leg.simulation,
+      computeUnitPriceMicroLamports: leg.computeUnitPrice,
+      fill: fill ?? undefined,
+      assessment: quoteSelection.assessment,
+      outputMint,
+    };
+  }
+
+  private buildFailure(token: ProRataToken, error: unknown, retryCount: number): SwapResult {
+    return {
+      symbol: token.symbol,
+      mint: token.mint,
+      decimals: token.decimals,
+      amount: token.liquidationAmount,
+      inputAmount: token.swapAmount,
+      error: error instanceof Error ? error.message : 'unknown error',
+      retryCount,
+      simulation: this.lastSimulation.get(getLegKey(token)),
+      outputMint: this.config.outputMint,
+      ...(error instanceof GuardrailBreachError
+        ? { skipped: true, assessment: error.assessment }
+        : {}),
+      ...(error instanceof UnresolvedTransactionError
+        ? { signature: error.signature, unresolved: true }
+        : {}),
+      ...(error instanceof FailedTransactionError ? { signature: error.signature } : {}),
+    };
+  }
+
+  private async executeLeg(token: ProRataToken, retryCount: number): Promise<SwapResult> {
+    const quoteSelection = await this.quoteLeg(token);
+    const leg = await this.prepareLeg(token, quoteSelection, await this.getBlockhash());
+
+    this.emit({ type: 'sign', token });
+    const signedTransaction = await this.config.signer.signTransaction(leg.transaction, token);
+
+    return this.submitLeg(leg, signedTransaction, retryCount);
+  }
+
+  async execute(plan: ProRataToken[]): Promise<SwapResult[]> {
+    const results: SwapResult[] = [];
+
+    for (const [index, token] of plan.entries()) {
+      if (index > 0) {
+        await this.sleep(this.legDelayMs);
+      }
+
+      this.emit({ type: 'leg-start', token, index, total: plan.length });
+
+      let retryCount = 0;
+      let result: SwapResult | null = null;
+
+      while (!result) {
+        try {
+          if (retryCount > 0) {
+            await this.sleep(Math.min(1000 * Math.pow(2, retryCount), 10000));
+          }
+
+          result = await this.executeLeg(token, retryCount);
+        } catch (err) {
+          // an unresolved signature may still land, so the leg is left for
+          // reconciliation instead of being quoted and sent again
+          if (err instanceof GuardrailBreachError || err instanceof UnresolvedTransactionError) {
+            result = this.buildFailure(token, err, retryCount);
+            break;
+          }
+
+          if (err instanceof TransactionExpiredBlockheightExceededError) {
+            this.noteExpiry(token);
+          }
+          retryCount++;
+
+          if (retryCount > this.maxRetries) {
+            console.error(`failed to swap ${token.symbol} after ${retryCount} attempts:`, err);
+            result = this.buildFailure(token, err, retryCount);
+          } else {
+            const message = err instanceof Error ? err.message : 'unknown error';
+            this.emit({ type: 'retry', token, attempt: retryCount, error: message });
+          }
+        }
+      }
+
+      results.push(result);
+      this.emit({ type: 'leg-complete', result });
+    }
+
+    return results;
+  }
+
+  // builds every leg on its own durable nonce and asks for a single approval.
+  // guardrails are left to send time, when the leg is quoted again
+  async presignLegs(plan: ProRataToken[], nonces: DurableNonce[]): Promise<PresignedLeg[]> {
+    const { connection, signer } = this.config;
+    if (!signer.signAllTransactions) {
+      throw new Error('wallet cannot sign transactions ahead of time');
+    }
+    if (nonces.length < plan.length) {
+      throw new Error(`${plan.length} nonce accounts needed, only ${nonces.length} available`);
+    }
+
+    const unsigned: Array<{
+      token: ProRataToken;
+      selection: QuoteSelectionResult;
+      nonce: DurableNonce;
+      computeUnitPrice: number;
+      transaction: VersionedTransaction;
+    }> = [];
+    for (const [index, token] of plan.entries()) {
+      const selection = await this.getBestSwapQuote(token);
+      const nonce = nonces[index];
+      const computeUnitPrice = await this.getComputeUnitPrice(token, selection.quote);
+      const swap = await this.buildSwapTransaction(token, selection, nonce.nonce, computeUnitPrice);
+      unsigned.push({
+        token,
+        selection,
+        nonce,
+        computeUnitPrice,
+        transaction: await applyDurableNonce(connection, swap, nonce, signer.publicKey),
+      });
+    }
+
+    this.emit({ type: 'sign-all', tokens: plan });
+    const signed = await signer.signAllTransactions(unsigned.map(leg => leg.transaction));
+
+    return unsigned.map((leg, index) => ({
+      token: leg.token,
+      transaction: Buffer.from(signed[index].serialize()).toString('base64'),
+      nonceAccount: leg.nonce.address.toBase58(),
+      nonceValue: leg.nonce.nonce,
+      quote: leg.selection.quote,
+      computeUnitPrice: leg.computeUnitPrice,
+      ...(leg.selection.provider ? { provider: leg.selection.provider } : {}),
+    }));
+  }
+
+  private async sendPresigned(leg: PresignedLeg): Promise<SwapResult> {
+    const { connection } = this.config;
+    const { token } = leg;
+
+    // prices may have moved a long way since signing, so the leg has to pass
+    // the guardrails on a fresh quote before it is sent
+    const { assessment } = await this.quoteLeg(token);
+    const transaction = VersionedTransaction.deserialize(Buffer.from(leg.transaction, 'base64'));
+
+    this.emit({ type: 'send', token });
+    const minContextSlot = await connection.getSlot('confirmed');
+    // preflight stays on so a route whose minimum output can no longer be met
+    // is rejected before it costs fees
+    const signature = await connection.sendRawTransaction(transaction.serialize(), {
+      preflightCommitment: 'confirmed',
+      maxRetries: 3,
+    });
+
+    this.emit({ type: 'submitted', token, signature, quotedOutputRaw: leg.quote.outAmount });
+    this.emit({ type: 'confirm', token, signature });
+    const confirmation = await connection.confirmTransaction(
+      {
+        signature,
+        minContextSlot,
+        nonceAccountPubkey: new PublicKey(leg.nonceAccount),
+        nonceValue: leg.nonceValue,
+      },
+      'confirmed',
+    );
+
+    if (confirmation.value.err) {
+      throw new FailedTransactionError(signature, JSON.stringify(confirmation.value.err));
+    }
+
+    return this.buildSuccess(
+      {
+        token,
+        quoteSelection: { quote: leg.quote, provider: leg.provider, assessment },
+        computeUnitPrice: leg.computeUnitPrice,
+      },
+      signature,
+      0,
+    );
+  }
+
+  // a presigned leg cannot be rebuilt, so a failure is final for this slice
+  // and its nonce stays unused until the schedule releases it
+  async executePresigned(legs: PresignedLeg[]): Promise<SwapResult[]> {
+    const results: SwapResult[] = [];
+
+    for (const [index, leg] of legs.entries()) {
+      if (index > 0) {
+        await this.sleep(this.legDelayMs);
+      }
+
+      this.emit({ type: 'leg-start', token: leg.token, index, total: legs.length });
+
+      let result: SwapResult;
+      try {
+        result = await this.sendPresigned(leg);
+      } catch (err) {
+        result = this.buildFailure(leg.token, err, 0);
+      }
+
+      results.push(result);
+      this.emit({ type: 'leg-complete', result });
+    }
+
+    return results;
+  }
+
+  // quotes and prepares the pending legs against one shared blockhash, hands
+  // them to the round's submitter and re-runs whatever it asked to requeue
+  private async executeRounds(
+    plan: ProRataToken[],
+    submit: (prepared: PreparedLeg[], latestBlockhash: BlockhashInfo, handlers: RoundHandlers) => Promise<boolean>,
+  ): Promise<SwapResult[]> {
+    const results = new Map<ProRataToken, SwapResult>();
+    let pending = plan;
+
+    for (let round = 0; pending.length > 0; round++) {
+      const retryable: ProRataToken[] = [];
+      const complete = (token: ProRataToken, result: SwapResult) => {
+        results.set(token, result);
+        this.emit({ type: 'leg-complete', result });
+      };
+      const fail = (token: ProRataToken, err: unknown) => {
+        complete(token, this.buildFailure(token, err, round));
+      };
+      const requeue = (token: ProRataToken, err: unknown) => {
+        if (round >= this.maxRetries) {
+          console.error(`failed to swap ${token.symbol} after ${this.maxRetries} rounds:`, err);
+          fail(token, err);
+          return;
+        }
+        retryable.push(token);
+        const message = err instanceof Error ? err.message : 'unknown error';
+        this.emit({ type: 'retry', token, attempt: round + 1, error: message });
+      };
+
+      const quoted: Array<{ token: ProRataToken; quoteSelection: QuoteSelectionResult }> = [];
+      for (const [index, token] of pending.entries()) {
+        this.emit({ type: 'leg-start', token, index, total: pending.length });
+        try {
+          quoted.push({ token, quoteSelection: await this.quoteLeg(token) });
+        } catch (err) {
+          if (err instanceof GuardrailBreachError) {
+            fail(token, err);
+          } else {
+            requeue(token, err);
+          }
+        }
+      }
+
+      const latestBlockhash = quoted.length > 0 ? await this.getBlockhash() : null;
+      const prepared: PreparedLeg[] = [];
+      for (const { token, quoteSelection } of quoted) {
+        try {
+          prepared.push(await this.prepareLeg(token, quoteSelection, latestBlockhash as BlockhashInfo));
+        } catch (err) {
+          requeue(token, err);
+        }
+      }
+
+      if (prepared.length > 0) {
+        const shouldContinue = await submit(prepared, latestBlockhash as BlockhashInfo, {
+          round,
+          complete,
+          fail,
+          requeue,
+        });
+        if (!shouldContinue) break;
+      }
+
+      pending = retryable;
+    }
+
+    return plan
+      .map(token => results.get(token))
+      .filter((result): result is SwapResult => result !== undefined);
+  }
+
+  private async signAll(
+    prepared: PreparedLeg[],
+    transactions: VersionedTransaction[],
+    handlers: RoundHandlers,
+  ): Promise<VersionedTransaction[] | null> {
+    const { signAllTransactions } = this.config.signer;
+    this.emit({ type: 'sign-all', tokens: prepared.map(leg => leg.token) });
+
+    try {
+      return await (signAllTransactions as NonNullable<typeof signAllTransactions>)(transactions);
+    } catch (err) {
+      // a rejected approval covers every leg, so retrying would just prompt again
+      prepared.forEach(leg => handlers.fail(leg.token, err));
+      return null;
+    }
+  }
+
+  // quotes and builds every leg up front, asks for a single signAllTransactions
+  // approval and then lands the batch concurrently. only legs whose blockhash
+  // expired (or that could not be prepared) are re-quoted in the next round
+  async executeBatch(plan: ProRataToken[]): Promise<SwapResult[]> {
+    if (!this.config.signer.signAllTransactions) {
+      return this.execute(plan);
+    }
+
+    return this.executeRounds(plan, async (prepared, _latestBlockhash, handlers) => {
+      const signedTransactions = await this.signAll(
+        prepared,
+        prepared.map(leg => leg.transaction),
+        handlers,
+      );
+      if (!signedTransactions) return false;
+
+      await Promise.all(prepared.map(async (leg, index) => {
+        try {
+          handlers.complete(leg.token, await this.submitLeg(leg, signedTransactions[index], handlers.round));
+        } catch (err) {
+          if (err instanceof TransactionExpiredBlockheightExceededError) {
+            this.noteExpiry(leg.token);
+            handlers.requeue(leg.token, err);
+          } else {
+            handlers.fail(leg.token, err);
+          }
+        }
+      }));
+
+      return true;
+    });
+  }
+
+  // groups signed swaps into jito bundles with a trailing tip transfer. a
+  // bundle lands atomically, so legs of a failed or dropped bundle are only
+  // requeued once their blockhash has expired with none of their signatures
+  // on chain
+  async executeBundled(plan: ProRataToken[]): Promise<SwapResult[]> {
+    const { jito, signer } = this.config;
+    if (!jito || !signer.signAllTransactions) {
+      return this.executeBatch(plan);
+    }
+
+    const client = jito.client ?? new JitoBundleClient(jito.blockEngineUrl, this.fetcher);
+
+    return this.executeRounds(plan, async (prepared, latestBlockhash, handlers) => {
+      let tipAccount: PublicKey;
+      try {
+        tipAccount = await client.getTipAccount();
+      } catch (err) {
+        prepared.forEach(leg => handlers.fail(leg.token, err));
+        return false;
+      }
+
+      const bundles: PreparedLeg[][] = [];
+      for (let i = 0; i < prepared.length; i += MAX_SWAPS_PER_BUNDLE) {
+        bundles.push(prepared.slice(i, i + MAX_SWAPS_PER_BUNDLE));
+      }
+
+      const tips = bundles.map(legs => this.getTipLamports(jito.tipLamports, legs));
+      const unsigned = bundles.flatMap((legs, index) => [
+        ...legs.map(leg => leg.transaction),
+        buildTipTransaction(signer.publicKey, tipAccount, tips[index], latestBlockhash.blockhash),
+      ]);
+
+      const signedTransactions = await this.signAll(prepared, unsigned, handlers);
+      if (!signedTransactions) return false;
+
+      let offset = 0;
+      const signedBundles = bundles.map((legs, index) => {
+        const transactions = signedTransactions.slice(offset, offset + legs.length + 1);
+        offset += legs.length + 1;
+        return { legs, transactions, tipLamports: tips[index] };
+      });
+
+      await Promise.all(signedBundles.map(async ({ legs, transactions, tipLamports }) => {
+        const tokens = legs.map(leg => leg.token);
+        const signatures = transactions.slice(0, legs.length).map(getTransactionSignature);
+
+        // recorded as in flight before the bundle is sent, since a request
+        // that errored may still have reached the block engine
+        legs.forEach((leg, index) => this.emit({
+          type: 'submitted',
+          token: leg.token,
+          signature: signatures[index],
+          lastValidBlockHeight: leg.lastValidBlockHeight,
+          quotedOutputRaw: leg.quoteSelection.quote.outAmount,
+        }));
+
+        let bundleId: string | undefined;
+        let status: BundleStatus | 'unsent';
+        try {
+          const sentId = await client.sendBundle(transactions);
+          bundleId = sentId;
+          this.emit({ type: 'bundle-sent', bundleId: sentId, tokens });
+          status = await client
+            .waitForBundle(sentId, jito.bundleWait, update =>
+              this.emit({ type: 'bundle-status', bundleId: sentId, status: update, tokens }),
+            )
+            .catch((err): BundleStatus => {
+              console.warn(`waiting on bundle ${sentId} failed:`, err);
+              return 'pending';
+            });
+        } catch (err) {
+          console.warn('sending bundle failed:', err);
+          status = 'unsent';
+        }
+
+        // the block engine only reports a bundle for a short while, so one it
+        // has lost track of may still land until its blockhash expires
+        if (status !== 'landed') {
+          const { lastValidBlockHeight } = legs[0];
+          let outcome: TransactionOutcome;
+          try {
+            outcome = await this.tracker.watch(signatures, lastValidBlockHeight);
+          } catch (err) {
+            const reason = err instanceof Error ? err.message : 'rpc unavailable';
+            legs.forEach((leg, index) => handlers.fail(
+              leg.token,
+              new UnresolvedTransactionError(signatures[index], lastValidBlockHeight, reason),
+            ));
+            return;
+          }
+
+          if (outcome.status === 'expired') {
+            const reason = bundleId ? `bundle ${bundleId} ${status}` : 'bundle could not be sent';
+            legs.forEach(leg => {
+              this.noteExpiry(leg.token);
+              handlers.requeue(leg.token, new Error(reason));
+            });
+            return;
+          }
+          if (outcome.status === 'failed') {
+            legs.forEach((leg, index) => handlers.fail(
+              leg.token,
+              signatures[index] === outcome.signature
+                ? new FailedTransactionError(outcome.signature, outcome.error)
+                : new Error(`transaction failed: ${outcome.error}`),
+            ));
+            return;
+          }
+        }
+
+        await Promise.all(legs.map(async (leg, index) => {
+          try {
+            handlers.complete(leg.token, {
+              ...(await this.buildSuccess(leg, signatures[index], handlers.round)),
+              ...(bundleId ? { bundleId } : {}),
+              tipLamports,
+            });
+          } catch (err) {
+            // the leg is on chain, so it is left for reconciliation rather
+            // than requeued
+            const reason = err instanceof Error ? err.message : 'unknown error';
+            handlers.fail(
+              leg.token,
+              new UnresolvedTransactionError(signatures[index], leg.lastValidBlockHeight, reason),
+            );
+          }
+        }));
+      }));
+
+      return true;
+    });
+  }
+}
@@ -0,0 +1,130 @@
+import { Connection, ParsedTransactionWithMeta, PublicKey, TokenBalance as ParsedTokenBalance } from '@solana/web3.js';
+import { SwapFill } from '../../types/swap';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const BASE_FEE_LAMPORTS_PER_SIGNATURE = 5000;
+
+export type FillConnection = Pick<Connection, 'getParsedTransaction'>;
+
+export interface FillLeg {
+  owner: PublicKey;
+  inputMint: string;
+  inputDecimals: number;
+  outputMint: string;
+  outputDecimals: number;
+  quotedOutputRaw: string;
+}
+
+export interface FillFetchOptions {
+  attempts?: number;
+  delayMs?: number;
+}
+
+const ZERO = BigInt(0);
+
+const sumOwnerBalance = (
+  balances: ParsedTokenBalance[] | null | undefined,
+  owner: string,
+  mint: string,
+): bigint =>
+  (balances ?? [])
+    .filter(balance => balance.owner === owner && balance.mint === mint)
+    .reduce((sum, balance) => sum + BigInt(balance.uiTokenAmount.amount), ZERO);
+
+// wrapped sol accounts are opened and closed inside the swap, so the net
+// movement shows up on the wallet lamports. the network fee is added back so
+// it is reported separately instead of being counted as swap input or output
+const getMintChange = (
+  transaction: ParsedTransactionWithMeta,
+  owner: string,
+  mint: string,
+): bigint => {
+  const meta = transaction.meta!;
+  const tokenChange =
+    sumOwnerBalance(meta.postTokenBalances, owner, mint) -
+    sumOwnerBalance(meta.preTokenBalances, owner, mint);
+
+  if (mint !== SOL_MINT) {
+    return tokenChange;
+  }
+
+  const ownerIndex = transaction.transaction.message.accountKeys.findIndex(
+    key => key.pubkey.toBase58() === owner,
+  );
+  if (ownerIndex < 0) {
+    return tokenChange;
+  }
+
+  const lamportChange =
+    BigInt(meta.postBalances[ownerIndex]) - BigInt(meta.preBalances[ownerIndex]) + BigInt(meta.fee);
+  return tokenChange + lamportChange;
+};
+
+const toUi = (raw: bigint, decimals: number): number => Number(raw) / Math.pow(10, decimals);
+
+export const parseSwapFill = (transaction: ParsedTransactionWithMeta, leg: FillLeg): SwapFill => {
+  if (!transaction.meta) {
+    throw new Error('transaction metadata unavailable');
+  }
+  if (transaction.meta.err) {
+    throw new Error(`transaction failed: ${JSON.stringify(transaction.meta.err)}`);
+  }
+
+  const owner = leg.owner.toBase58();
+  const inputSpent = -getMintChange(transaction, owner, leg.inputMint);
+  const outputReceived = getMintChange(transaction, owner, leg.outputMint);
+
+  const networkFeeLamports = transaction.meta.fee;
+  const signatureCount = transaction.transaction.signatures.length;
+  const priorityFeeLamports = Math.max(
+    0,
+    networkFeeLamports - signatureCount * BASE_FEE_LAMPORTS_PER_SIGNATURE,
+  );
+
+  const quoted = BigInt(leg.quotedOutputRaw);
+  const realizedSlippagePct =
+    quoted > ZERO ? (Number(quoted - outputReceived) / Number(quoted)) * 100 : 0;
+
+  return {
+    inputSpent: toUi(inputSpent, leg.inputDecimals),
+    inputRaw: inputSpent.toString(),
+    outputReceived: toUi(outputReceived, leg.outputDecimals),
+    outputRaw: outputReceived.toString(),
+    quotedOutput: toUi(quoted, leg.outputDecimals),
+    networkFeeLamports,
+    priorityFeeLamports,
+    realizedSlippagePct,
+  };
+};
+
+// rpc nodes can answer a confirmed signature before the parsed transaction is
+// queryable, so a null response is retried a few times before giving up
+export const fetchSwapFill = async (
+  connection: FillConnection,
+  signature: string,
+  leg: FillLeg,
+  options: FillFetchOptions = {},
+): Promise<SwapFill | null> => {
+  const attempts = options.attempts ?? 5;
+  const delayMs = options.delayMs ?? 1000;
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (attempt > 0) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+
+    try {
+      const transaction = await connection.getParsedTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      if (transaction?.meta) {
+        return parseSwapFill(transaction, leg);
+      }
+    } catch (err) {
+      console.warn(`failed to fetch fill for ${signature}:`, err);
+    }
+  }
+
+  return null;
+};
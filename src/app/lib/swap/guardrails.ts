@@ -0,0 +1,59 @@
+import { JupiterQuoteResponse, LegAssessment, ProRataToken, SwapGuardrails } from '../../types/swap';
+
+export const DEFAULT_GUARDRAILS: SwapGuardrails = {
+  maxPriceImpactPct: 5,
+  maxLegLossUsd: null,
+  maxBatchLossUsd: null,
+  breachAction: 'confirm',
+};
+
+export class GuardrailBreachError extends Error {
+  constructor(symbol: string, readonly assessment: LegAssessment) {
+    super(`${symbol} skipped: ${assessment.breaches.join(', ')}`);
+    this.name = 'GuardrailBreachError';
+  }
+}
+
+export interface AssessOptions {
+  outputDecimals: number;
+  outputPriceUsd?: number;
+  guardrails?: SwapGuardrails;
+  // loss already accepted on the other legs of the batch
+  priorLossUsd?: number;
+}
+
+const formatUsd = (value: number): string => `$${value.toFixed(2)}`;
+
+// jupiter reports price impact as a fraction, so 0.05 is a 5% impact. loss is
+// the usd value being sold minus the quoted output value, and is only known
+// when the output token has a price
+export const assessLeg = (
+  token: ProRataToken,
+  quote: JupiterQuoteResponse,
+  options: AssessOptions,
+): LegAssessment => {
+  const quotedOutput = Number(quote.outAmount) / Math.pow(10, options.outputDecimals);
+  const quotedOutputUsd = options.outputPriceUsd ? quotedOutput * options.outputPriceUsd : undefined;
+  const priceImpactPct = Math.abs(parseFloat(quote.priceImpactPct ?? '0') || 0) * 100;
+  const lossUsd = quotedOutputUsd !== undefined ? token.liquidationAmount - quotedOutputUsd : undefined;
+
+  const breaches: string[] = [];
+  const guardrails = options.guardrails;
+
+  if (guardrails?.maxPriceImpactPct != null && priceImpactPct > guardrails.maxPriceImpactPct) {
+    breaches.push(`price impact ${priceImpactPct.toFixed(2)}% exceeds ${guardrails.maxPriceImpactPct}%`);
+  }
+
+  if (lossUsd !== undefined) {
+    if (guardrails?.maxLegLossUsd != null && lossUsd > guardrails.maxLegLossUsd) {
+      breaches.push(`loss of ${formatUsd(lossUsd)} exceeds ${formatUsd(guardrails.maxLegLossUsd)} per swap`);
+    }
+
+    const batchLossUsd = (options.priorLossUsd ?? 0) + Math.max(lossUsd, 0);
+    if (guardrails?.maxBatchLossUsd != null && batchLossUsd > guardrails.maxBatchLossUsd) {
+      breaches.push(`batch loss of ${formatUsd(batchLossUsd)} would exceed ${formatUsd(guardrails.maxBatchLossUsd)}`);
+    }
+  }
+
+  return { quotedOutput, quotedOutputUsd, priceImpactPct, lossUsd, breaches };
+};
@@ -0,0 +1,158 @@
+import {
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { BundleStatus } from '../../types/swap';
+
+export const DEFAULT_BLOCK_ENGINE_URL =
+  process.env.NEXT_PUBLIC_JITO_BLOCK_ENGINE_URL || 'https://mainnet.block-engine.jito.wtf';
+
+// the block engine rejects bundles with more than five transactions, and one
+// slot is always taken by the tip transfer
+export const BUNDLE_TRANSACTION_LIMIT = 5;
+export const MAX_SWAPS_PER_BUNDLE = BUNDLE_TRANSACTION_LIMIT - 1;
+
+interface JsonRpcResponse<T> {
+  result?: T;
+  error?: { code?: number; message?: string };
+}
+
+interface InflightBundleStatus {
+  bundle_id: string;
+  status: 'Invalid' | 'Pending' | 'Failed' | 'Landed';
+  landed_slot?: number | null;
+}
+
+export interface BundleWaitOptions {
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+export const buildTipTransaction = (
+  payer: PublicKey,
+  tipAccount: PublicKey,
+  lamports: number,
+  recentBlockhash: string,
+): VersionedTransaction => {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash,
+    instructions: [
+      SystemProgram.transfer({ fromPubkey: payer, toPubkey: tipAccount, lamports }),
+    ],
+  }).compileToV0Message();
+
+  return new VersionedTransaction(message);
+};
+
+export class JitoBundleClient {
+  private tipAccounts: string[] = [];
+  private readonly fetcher: typeof fetch;
+
+  constructor(private blockEngineUrl: string = DEFAULT_BLOCK_ENGINE_URL, fetcher?: typeof fetch) {
+    this.blockEngineUrl = blockEngineUrl.replace(/\/+$/, '');
+    this.fetcher = fetcher ?? ((input, init) => fetch(input, init));
+  }
+
+  private async request<T>(path: string, method: string, params: unknown[]): Promise<T> {
+    const response = await this.fetcher(`${this.blockEngineUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`block engine ${method} failed: ${response.status}`);
+    }
+
+    const data: JsonRpcResponse<T> = await response.json();
+    if (data.error) {
+      throw new Error(`block engine ${method} failed: ${data.error.message || 'unknown error'}`);
+    }
+    if (data.result === undefined) {
+      throw new Error(`block engine ${method} returned no result`);
+    }
+
+    return data.result;
+  }
+
+  async getTipAccount(): Promise<PublicKey> {
+    if (this.tipAccounts.length === 0) {
+      this.tipAccounts = await this.request<string[]>('/api/v1/bundles', 'getTipAccounts', []);
+    }
+    if (this.tipAccounts.length === 0) {
+      throw new Error('block engine returned no tip accounts');
+    }
+
+    const index = Math.floor(Math.random() * this.tipAccounts.length);
+    return new PublicKey(this.tipAccounts[index]);
+  }
+
+  async sendBundle(transactions: VersionedTransaction[]): Promise<string> {
+    if (transactions.length === 0 || transactions.length > BUNDLE_TRANSACTION_LIMIT) {
+      throw new Error(`bundles must contain between 1 and ${BUNDLE_TRANSACTION_LIMIT} transactions`);
+    }
+
+    const encoded = transactions.map(transaction =>
+      Buffer.from(transaction.serialize()).toString('base64'),
+    );
+
+    return this.request<string>('/api/v1/bundles', 'sendBundle', [encoded, { encoding: 'base64' }]);
+  }
+
+  async getBundleStatus(bundleId: string): Promise<BundleStatus> {
+    const result = await this.request<{ value: InflightBundleStatus[] }>(
+      '/api/v1/getInflightBundleStatuses',
+      'getInflightBundleStatuses',
+      [[bundleId]],
+    );
+
+    const entry = result.value?.find(status => status.bundle_id === bundleId);
+    switch (entry?.status) {
+      case 'Landed':
+        return 'landed';
+      case 'Failed':
+        return 'failed';
+      case 'Pending':
+        return 'pending';
+      default:
+        return 'dropped';
+    }
+  }
+
+  async waitForBundle(
+    bundleId: string,
+    options: BundleWaitOptions = {},
+    onStatus?: (status: BundleStatus) => void,
+  ): Promise<BundleStatus> {
+    const timeoutMs = options.timeoutMs ?? 60000;
+    const pollIntervalMs = options.pollIntervalMs ?? 2000;
+    const startedAt = Date.now();
+    let status: BundleStatus = 'pending';
+
+    while (Date.now() - startedAt < timeoutMs) {
+      try {
+        status = await this.getBundleStatus(bundleId);
+      } catch (error) {
+        console.warn('bundle status check failed:', error);
+        status = 'pending';
+      }
+
+      onStatus?.(status);
+      // a bundle that is not yet in the in-flight window also reads as
+      // unknown, so only treat it as dropped once it has had time to show up
+      if (status === 'landed' || status === 'failed') {
+        return status;
+      }
+      if (status === 'dropped' && Date.now() - startedAt > pollIntervalMs * 5) {
+        return status;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    }
+
+    return status === 'pending' ? 'dropped' : status;
+  }
+}
@@ -0,0 +1,183 @@
+import { Connection, SignatureStatus, VersionedTransaction } from '@solana/web3.js';
+import { getTransactionSignature } from './signature';
+
+export type LifecycleConnection = Pick<Connection, 'sendRawTransaction' | 'getSignatureStatuses' | 'getBlockHeight'>;
+
+export type TransactionOutcome =
+  | { status: 'landed'; signature: string; slot: number }
+  | { status: 'failed'; signature: string; slot: number; error: string }
+  // the blockhash expired with the signature nowhere on chain, so the leg
+  // can safely be quoted and sent again
+  | { status: 'expired'; signature: string };
+
+export interface TrackerOptions {
+  rebroadcastIntervalMs?: number;
+  pollIntervalMs?: number;
+  // consecutive rpc failures tolerated before giving up on the signature
+  maxPollErrors?: number;
+  // injectable so the tracker can run against a fake rpc and clock
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+// the rpc stopped answering before the transaction settled. its signature
+// may still land, so the leg must not be re-quoted until it is reconciled
+export class UnresolvedTransactionError extends Error {
+  constructor(readonly signature: string, readonly lastValidBlockHeight: number, reason: string) {
+    super(`${signature} unresolved: ${reason}`);
+    this.name = 'UnresolvedTransactionError';
+  }
+}
+
+// the transaction landed and its instructions failed. the signature is kept
+// so the fee it burned can still be looked up and shown
+export class FailedTransactionError extends Error {
+  constructor(readonly signature: string, reason: string) {
+    super(`transaction failed: ${reason}`);
+    this.name = 'FailedTransactionError';
+  }
+}
+
+const isSettled = (status: SignatureStatus | null): status is SignatureStatus =>
+  status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized';
+
+const toOutcome = (signature: string, status: SignatureStatus): TransactionOutcome =>
+  status.err
+    ? { status: 'failed', signature, slot: status.slot, error: JSON.stringify(status.err) }
+    : { status: 'landed', signature, slot: status.slot };
+
+// sends a signed transaction and keeps rebroadcasting it until it settles on
+// chain or its blockhash expires. rpc nodes drop transactions under load, and
+// resending the same signed bytes can never land twice
+export class TransactionTracker {
+  private readonly rebroadcastIntervalMs: number;
+  private readonly pollIntervalMs: number;
+  private readonly maxPollErrors: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly now: () => number;
+
+  constructor(private connection: LifecycleConnection, options: TrackerOptions = {}) {
+    this.rebroadcastIntervalMs = options.rebroadcastIntervalMs ?? 2000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.maxPollErrors = options.maxPollErrors ?? 10;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  // a failed send is not fatal: the bytes may have reached a leader anyway,
+  // and the next rebroadcast or status poll will tell
+  private async broadcast(raw: Uint8Array, signature: string, attempt: number): Promise<void> {
+    try {
+      await this.connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+    } catch (error) {
+      console.warn(`broadcast ${attempt} of ${signature} failed:`, error);
+    }
+  }
+
+  private async getStatus(signature: string, searchHistory: boolean): Promise<SignatureStatus | null> {
+    const { value } = await this.connection.getSignatureStatuses(
+      [signature],
+      { searchTransactionHistory: searchHistory },
+    );
+    return value[0] ?? null;
+  }
+
+  async track(
+    transaction: VersionedTransaction,
+    lastValidBlockHeight: number,
+    onRebroadcast?: (attempt: number) => void,
+  ): Promise<TransactionOutcome> {
+    const signature = getTransactionSignature(transaction);
+    const raw = transaction.serialize();
+
+    let attempt = 0;
+    await this.broadcast(raw, signature, attempt);
+    let lastBroadcastAt = this.now();
+    let pollErrors = 0;
+
+    for (;;) {
+      await this.sleep(this.pollIntervalMs);
+
+      try {
+        const status = await this.getStatus(signature, false);
+        if (isSettled(status)) {
+          return toOutcome(signature, status);
+        }
+
+        // a transaction cannot be processed once its blockhash has expired,
+        // so one last look through history settles it for good. one only
+        // seen as processed may still confirm, so keep watching it
+        const blockHeight = await this.connection.getBlockHeight('confirmed');
+        if (blockHeight > lastValidBlockHeight) {
+          const finalStatus = status ?? await this.getStatus(signature, true);
+          if (!finalStatus) {
+            return { status: 'expired', signature };
+          }
+          if (isSettled(finalStatus)) {
+            return toOutcome(signature, finalStatus);
+          }
+        }
+
+        pollErrors = 0;
+      } catch (error) {
+        pollErrors++;
+        console.warn(`status poll for ${signature} failed:`, error);
+        if (pollErrors >= this.maxPollErrors) {
+          throw new UnresolvedTransactionError(
+            signature,
+            lastValidBlockHeight,
+            error instanceof Error ? error.message : 'rpc unavailable',
+          );
+        }
+      }
+
+      if (this.now() - lastBroadcastAt >= this.rebroadcastIntervalMs) {
+        attempt++;
+        onRebroadcast?.(attempt);
+        await this.broadcast(raw, signature, attempt);
+        lastBroadcastAt = this.now();
+      }
+    }
+  }
+
+  // watches signatures someone else sent, such as a block engine, until one
+  // of them settles or their shared blockhash expires with none on chain
+  async watch(signatures: string[], lastValidBlockHeight: number): Promise<TransactionOutcome> {
+    let pollErrors = 0;
+
+    for (;;) {
+      try {
+        // the height is read first, so anything that landed before it passed
+        // the last valid block is already in the statuses that follow
+        const blockHeight = await this.connection.getBlockHeight('confirmed');
+        const expired = blockHeight > lastValidBlockHeight;
+        const { value } = await this.connection.getSignatureStatuses(
+          signatures,
+          { searchTransactionHistory: expired },
+        );
+
+        const index = value.findIndex(isSettled);
+        if (index >= 0) {
+          return toOutcome(signatures[index], value[index] as SignatureStatus);
+        }
+        if (expired && value.every(status => !status)) {
+          return { status: 'expired', signature: signatures[0] };
+        }
+
+        pollErrors = 0;
+      } catch (error) {
+        pollErrors++;
+        console.warn(`status poll for ${signatures[0]} failed:`, error);
+        if (pollErrors >= this.maxPollErrors) {
+          throw new UnresolvedTransactionError(
+            signatures[0],
+            lastValidBlockHeight,
+            error instanceof Error ? error.message : 'rpc unavailable',
+          );
+        }
+      }
+
+      await this.sleep(this.pollIntervalMs);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { TokenBalance } from '../../types/token';
+import { OutputAllocation, SwapGuardrails } from '../../types/swap';
+import {
+  LiquidationOrder,
+  OrderKind,
+  OrderOutcome,
+  OrderStatus,
+  OrderStatusChange,
+} from '../../types/orders';
+
+export interface OrderInput {
+  wallet: string;
+  hashedWallet: string;
+  kind: OrderKind;
+  thresholdUsd: number;
+  percentage: number;
+  tokens: TokenBalance[];
+  outputs: OutputAllocation[];
+  slippage: number;
+  guardrails: SwapGuardrails;
+  expiresInMs?: number | null;
+}
+
+// statuses an order can still move on from
+export const isOrderOpen = (order: LiquidationOrder): boolean =>
+  order.status === 'active' || order.status === 'triggered' || order.status === 'executing';
+
+export const createOrder = (input: OrderInput): LiquidationOrder => {
+  const now = Date.now();
+  return {
+    orderId: typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : `${now}`,
+    wallet: input.wallet,
+    hashedWallet: input.hashedWallet,
+    createdAt: now,
+    updatedAt: now,
+    kind: input.kind,
+    thresholdUsd: input.thresholdUsd,
+    percentage: input.percentage,
+    tokens: input.tokens.map(token => ({
+      mint: token.mint,
+      symbol: token.symbol,
+      decimals: token.decimals,
+      uiAmount: token.uiAmount,
+    })),
+    outputs: input.outputs,
+    slippage: input.slippage,
+    guardrails: input.guardrails,
+    expiresAt: input.expiresInMs ? now + input.expiresInMs : null,
+    status: 'active',
+    history: [{ status: 'active', at: now }],
+  };
+};
+
+export const transitionOrder = (
+  order: LiquidationOrder,
+  status: OrderStatus,
+  details: Omit<OrderStatusChange, 'status' | 'at'> = {},
+): LiquidationOrder => {
+  const now = Date.now();
+  const change: OrderStatusChange = { status, at: now };
+  if (details.basketValueUsd !== undefined) change.basketValueUsd = details.basketValueUsd;
+  if (details.note) change.note = details.note;
+
+  return { ...order, status, updatedAt: now, history: [...order.history, change] };
+};
+
+// a basket with any token missing a price has no value, rather than a
+// partial one that could fire a stop on its own
+export const getBasketValueUsd = (order: LiquidationOrder, priced: TokenBalance[]): number | null => {
+  let total = 0;
+  for (const token of order.tokens) {
+    const price = priced.find(entry => entry.mint === token.mint)?.price;
+    if (!price) return null;
+    total += token.uiAmount * price;
+  }
+  return total;
+};
+
+export const isOrderTriggered = (order: LiquidationOrder, valueUsd: number): boolean =>
+  order.kind === 'stop-loss' ? valueUsd <= order.thresholdUsd : valueUsd >= order.thresholdUsd;
+
+export const isOrderExpired = (order: LiquidationOrder, now: number = Date.now()): boolean =>
+  order.expiresAt !== null && now >= order.expiresAt;
+
+export const settleOrder = (order: LiquidationOrder, outcome: OrderOutcome): LiquidationOrder => {
+  const settled = transitionOrder(
+    order,
+    outcome.error ? 'failed' : 'executed',
+    outcome.error ? { note: outcome.error } : {},
+  );
+  return outcome.batchId ? { ...settled, batchId: outcome.batchId } : settled;
+};
+
+export const describeOrder = (order: Pick<LiquidationOrder, 'kind' | 'thresholdUsd' | 'percentage' | 'tokens'>): string =>
+  `${order.kind === 'stop-loss' ? 'stop' : 'take profit'}: sell ${order.percentage}% of ` +
+  `${order.tokens.map(token => token.symbol).join('+')} ${order.kind === 'stop-loss' ? 'below' : 'above'} ` +
+  `$${order.thresholdUsd.toFixed(2)}`;
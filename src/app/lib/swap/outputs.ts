@@ -0,0 +1,158 @@
+import { OutputAllocation, ProRataToken } from '../../types/swap';
+import { getRawSwapAmount, rawToUiAmount, usdToUnits } from './planner';
+
+const ZERO = BigInt(0);
+const DUST_USD = 0.01;
+
+// an input can be routed to several outputs, so legs are keyed by both mints
+export const getLegKey = (leg: { mint: string; outputMint?: string }): string =>
+  leg.outputMint ? `${leg.mint}:${leg.outputMint}` : leg.mint;
+
+export const normalizeAllocations = (allocations: OutputAllocation[]): OutputAllocation[] => {
+  const merged = new Map<string, OutputAllocation>();
+  allocations
+    .filter(allocation => allocation.weight > 0)
+    .forEach(allocation => {
+      const existing = merged.get(allocation.mint);
+      merged.set(allocation.mint, existing
+        ? { ...existing, weight: existing.weight + allocation.weight }
+        : { ...allocation });
+    });
+
+  const list = Array.from(merged.values());
+  const total = list.reduce((sum, allocation) => sum + allocation.weight, 0);
+  return total > 0
+    ? list.map(allocation => ({ ...allocation, weight: (allocation.weight / total) * 100 }))
+    : [];
+};
+
+interface Chunk {
+  outputMint: string;
+  units: bigint;
+}
+
+const buildChunkLeg = (
+  leg: ProRataToken,
+  rawAmount: bigint,
+  allocation: OutputAllocation,
+  sharePct: number,
+): ProRataToken => {
+  const swapAmount = rawToUiAmount(rawAmount, leg.decimals);
+  return {
+    ...leg,
+    swapAmount,
+    rawSwapAmount: rawAmount.toString(),
+    liquidationAmount: leg.price ? swapAmount * leg.price : (leg.liquidationAmount * sharePct) / 100,
+    outputMint: allocation.mint,
+    rationale: [leg.rationale, `${sharePct.toFixed(1)}% routed to ${allocation.symbol}`]
+      .filter(Boolean)
+      .join(', '),
+  };
+};
+
+// fills each output's share of the proceeds in turn, largest legs first, so
+// a leg is only split when it straddles two outputs. that keeps the number of
+// swaps at most legs + outputs - 1 while matching the weights by value
+export const routeToOutputs = (
+  legs: ProRataToken[],
+  allocations: OutputAllocation[],
+): ProRataToken[] => {
+  const outputs = normalizeAllocations(allocations);
+  if (outputs.length === 0) return [];
+  if (outputs.length === 1) {
+    return legs.map(leg => ({ ...leg, outputMint: outputs[0].mint }));
+  }
+
+  const ordered = [...legs].sort((a, b) => b.liquidationAmount - a.liquidationAmount);
+  const legUnits = ordered.map(leg => usdToUnits(leg.liquidationAmount));
+  const totalUnits = legUnits.reduce((sum, units) => sum + units, ZERO);
+
+  const capacity = outputs.map(output =>
+    (totalUnits * BigInt(Math.round(output.weight * 10000))) / BigInt(1000000),
+  );
+  let outputIndex = 0;
+
+  return ordered.flatMap((leg, legIndex) => {
+    const units = legUnits[legIndex];
+    const chunks: Chunk[] = [];
+    let remaining = units;
+
+    while (remaining > ZERO) {
+      // rounding can leave the last output a few units short, it absorbs the rest
+      const isLastOutput = outputIndex === outputs.length - 1;
+      const available = isLastOutput ? remaining : capacity[outputIndex];
+      const take = remaining < available ? remaining : available;
+
+      if (take > ZERO) {
+        chunks.push({ outputMint: outputs[outputIndex].mint, units: take });
+        capacity[outputIndex] -= take;
+        remaining -= take;
+      }
+      if (!isLastOutput && capacity[outputIndex] <= ZERO) {
+        outputIndex++;
+      }
+    }
+
+    // fold chunks too small to trade into the largest one for this leg
+    const dust = usdToUnits(DUST_USD);
+    const kept = chunks.filter(chunk => chunk.units >= dust);
+    const largest = kept.length > 0
+      ? kept.reduce((max, chunk) => (chunk.units > max.units ? chunk : max))
+      : chunks[0];
+    if (!largest) return [];
+    chunks
+      .filter(chunk => !kept.includes(chunk) && chunk !== largest)
+      .forEach(chunk => {
+        largest.units += chunk.units;
+      });
+    const finalChunks = kept.includes(largest) ? kept : [largest];
+
+    const rawTotal = getRawSwapAmount(leg);
+    let rawAssigned = ZERO;
+
+    return finalChunks.map((chunk, index) => {
+      const allocation = outputs.find(output => output.mint === chunk.outputMint) as OutputAllocation;
+      const raw = index === finalChunks.length - 1
+        ? rawTotal - rawAssigned
+        : units > ZERO ? (rawTotal * chunk.units) / units : ZERO;
+      rawAssigned += raw;
+      const sharePct = units > ZERO ? Number((chunk.units * BigInt(10000)) / units) / 100 : 100;
+      return buildChunkLeg(leg, raw, allocation, sharePct);
+    });
+  });
+};
+
+// splits one input amount across outputs in the proportions of an earlier
+// plan, used when re-planning legs against fresh balances
+export const splitLegAcross = (
+  leg: ProRataToken,
+  parts: Array<{ allocation: OutputAllocation; share: number }>,
+): ProRataToken[] => {
+  const totalShare = parts.reduce((sum, part) => sum + part.share, 0);
+  if (parts.length === 0 || totalShare <= 0) return [];
+  if (parts.length === 1) return [{ ...leg, outputMint: parts[0].allocation.mint }];
+
+  const rawTotal = getRawSwapAmount(leg);
+  let rawAssigned = ZERO;
+
+  return parts.map((part, index) => {
+    const sharePct = (part.share / totalShare) * 100;
+    const raw = index === parts.length - 1
+      ? rawTotal - rawAssigned
+      : (rawTotal * BigInt(Math.round(sharePct * 10000))) / BigInt(1000000);
+    rawAssigned += raw;
+    return buildChunkLeg(leg, raw, part.allocation, sharePct);
+  });
+};
+
+// each output needs its own engine, legs without an output go to the first one
+export const groupByOutput = (
+  legs: ProRataToken[],
+  outputs: OutputAllocation[],
+): Array<{ output: OutputAllocation; legs: ProRataToken[] }> =>
+  outputs
+    .map(output => ({
+      output,
+      legs: legs.filter(leg => (leg.outputMint ?? outputs[0].mint) === output.mint),
+    }))
+    .filter(group => group.legs.length > 0);
@@ -0,0 +1,149 @@
+import { TokenBalance } from '../../types/token';
+import { ProRataPlan, ProRataToken } from '../../types/swap';
+
+// values are carried as integer "usd units" of 1e-18 dollars so that every
+// step of the split stays in bigint space
+const USD_DECIMALS = 18;
+const ZERO = BigInt(0);
+const TEN = BigInt(10);
+
+interface FixedPoint {
+  digits: bigint;
+  exponent: number;
+}
+
+export interface PlanOptions {
+  excludeMint?: string;
+  excludeMints?: string[];
+  percentage?: number;
+  targetValueUsd?: number;
+}
+
+const pow10 = (exponent: number): bigint => TEN ** BigInt(exponent);
+
+const toFixedPoint = (value: number): FixedPoint => {
+  const [mantissa, exponent] = value.toExponential(14).split('e');
+  return {
+    digits: BigInt(mantissa.replace('.', '')),
+    exponent: Number(exponent) - 14,
+  };
+};
+
+const fixedPointToUnits = (value: FixedPoint): bigint => {
+  const shift = value.exponent + USD_DECIMALS;
+  return shift >= 0 ? value.digits * pow10(shift) : value.digits / pow10(-shift);
+};
+
+export const toRawBalance = (token: TokenBalance): bigint => {
+  if (token.rawAmount) return BigInt(token.rawAmount);
+  if (typeof token.balance === 'number' && Number.isInteger(token.balance)) {
+    return BigInt(token.balance);
+  }
+  return BigInt(Math.floor(token.uiAmount * Math.pow(10, token.decimals)));
+};
+
+export const rawToUsdUnits = (raw: bigint, price: number, decimals: number): bigint => {
+  const { digits, exponent } = toFixedPoint(price);
+  const shift = exponent + USD_DECIMALS - decimals;
+  return shift >= 0 ? raw * digits * pow10(shift) : (raw * digits) / pow10(-shift);
+};
+
+export const usdUnitsToRaw = (units: bigint, price: number, decimals: number): bigint => {
+  const { digits, exponent } = toFixedPoint(price);
+  const shift = exponent + USD_DECIMALS - decimals;
+  return shift >= 0 ? units / (digits * pow10(shift)) : (units * pow10(-shift)) / digits;
+};
+
+export const usdToUnits = (valueUsd: number): bigint =>
+  valueUsd > 0 ? fixedPointToUnits(toFixedPoint(valueUsd)) : ZERO;
+
+export const unitsToUsd = (units: bigint): number => Number(units) / Math.pow(10, USD_DECIMALS);
+
+export const rawToUiAmount = (raw: bigint, decimals: number): number =>
+  Number(raw) / Math.pow(10, decimals);
+
+export const isPriced = (token: TokenBalance): boolean =>
+  typeof token.price === 'number' && Number.isFinite(token.price) && token.price > 0;
+
+// splits a usd target across the priced tokens in proportion to their value.
+// per-leg amounts are rounded down to whole base units and never exceed the
+// wallet balance; tokens without a price are reported instead of guessed at
+export const planProRata = <T extends TokenBalance>(
+  tokens: T[],
+  options: PlanOptions,
+): ProRataPlan<T> => {
+  const candidates = tokens.filter(token =>
+    token.mint !== options.excludeMint && !options.excludeMints?.includes(token.mint),
+  );
+  const unpriced = candidates.filter(token => !isPriced(token));
+
+  const priced = candidates
+    .filter(isPriced)
+    .map(token => {
+      const rawBalance = toRawBalance(token);
+      return {
+        token,
+        rawBalance,
+        valueUnits: rawToUsdUnits(rawBalance, token.price as number, token.decimals),
+      };
+    })
+    .filter(entry => entry.valueUnits > ZERO);
+
+  const pricedUnits = priced.reduce((sum, entry) => sum + entry.valueUnits, ZERO);
+
+  let targetUnits =
+    options.targetValueUsd !== undefined
+      ? usdToUnits(options.targetValueUsd)
+      : (pricedUnits * BigInt(Math.round((options.percentage ?? 0) * 100))) / BigInt(10000);
+  if (targetUnits > pricedUnits) targetUnits = pricedUnits;
+
+  const legs = priced.map(({ token, rawBalance, valueUnits }) => {
+    const price = token.price as number;
+    const legTargetUnits = pricedUnits > ZERO ? (targetUnits * valueUnits) / pricedUnits : ZERO;
+
+    let rawSwap = usdUnitsToRaw(legTargetUnits, price, token.decimals);
+    const capped = rawSwap >= rawBalance;
+    if (capped) rawSwap = rawBalance;
+
+    const plannedUnits = rawToUsdUnits(rawSwap, price, token.decimals);
+    const sharePpm = pricedUnits > ZERO ? (valueUnits * BigInt(1000000)) / pricedUnits : ZERO;
+    const sharePct = Number(sharePpm) / 10000;
+
+    const rationale = [
+      `${sharePct.toFixed(2)}% of priced selection`,
+      `$${unitsToUsd(legTargetUnits).toFixed(2)} target at $${price}`,
+      capped ? 'capped at full balance' : `rounded down to ${token.decimals} decimals`,
+    ].join(', ');
+
+    const leg: T & ProRataToken = {
+      ...token,
+      swapAmount: rawToUiAmount(rawSwap, token.decimals),
+      rawSwapAmount: rawSwap.toString(),
+      percentage: sharePct,
+      liquidationAmount: unitsToUsd(plannedUnits),
+      originalAmount: token.uiAmount,
+      rationale,
+    };
+
+    return { leg, plannedUnits };
+  });
+
+  const plannedUnits = legs.reduce((sum, entry) => sum + entry.plannedUnits, ZERO);
+
+  return {
+    legs: legs.map(entry => entry.leg),
+    unpriced: unpriced.map(token => ({
+      token,
+      reason: `${token.symbol} has no price, excluded from sizing`,
+    })),
+    targetValueUsd: unitsToUsd(targetUnits),
+    plannedValueUsd: unitsToUsd(plannedUnits),
+    pricedValueUsd: unitsToUsd(pricedUnits),
+    shortfallUsd: unitsToUsd(targetUnits > plannedUnits ? targetUnits - plannedUnits : ZERO),
+  };
+};
+
+export const getRawSwapAmount = (token: ProRataToken): bigint =>
+  token.rawSwapAmount
+    ? BigInt(token.rawSwapAmount)
+    : BigInt(Math.floor(token.swapAmount * Math.pow(10, token.decimals)));
@@ -0,0 +1,74 @@
+import { PresignedLeg } from '../../types/swap';
+
+const DB_NAME = 'presigned-slices';
+const DB_VERSION = 1;
+const STORE_NAME = 'schedules';
+
+export interface PresignedSchedule {
+  scheduleId: string;
+  slices: Array<{ index: number; legs: PresignedLeg[] }>;
+}
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// signed transactions never leave the browser, only the schedule itself is
+// stored remotely. losing them just means the slices can no longer be sent
+export class PresignedSliceStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('indexeddb is not available'));
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'scheduleId' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, mode);
+    return promisifyRequest(action(transaction.objectStore(STORE_NAME)));
+  }
+
+  async save(schedule: PresignedSchedule): Promise<void> {
+    await this.withStore('readwrite', store => store.put(schedule));
+  }
+
+  async getSlice(scheduleId: string, index: number): Promise<PresignedLeg[] | null> {
+    const schedule = await this.withStore<PresignedSchedule | undefined>('readonly', store =>
+      store.get(scheduleId),
+    );
+    return schedule?.slices.find(slice => slice.index === index)?.legs ?? null;
+  }
+
+  async remove(scheduleId: string): Promise<void> {
+    await this.withStore('readwrite', store => store.delete(scheduleId));
+  }
+}
+
+export const presignedSliceStore = new PresignedSliceStore();
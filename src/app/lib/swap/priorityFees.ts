@@ -0,0 +1,93 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { JupiterQuoteResponse, PriorityFeeLevels, PriorityFeeSettings } from '../../types/swap';
+
+export type PriorityFeeConnection = Pick<Connection, 'getRecentPrioritizationFees'>;
+
+export const DEFAULT_PRIORITY_FEES: PriorityFeeSettings = {
+  level: 'medium',
+  customMicroLamports: null,
+};
+
+// percentiles of the recent per-slot fees paid on the swap's accounts
+const LEVEL_PERCENTILES = { low: 25, medium: 50, high: 75 } as const;
+
+// a typical routed swap, used to turn a unit price into lamports
+export const ESTIMATED_SWAP_COMPUTE_UNITS = 300000;
+// the fixed cap swaps used to be sent with, now the ceiling for escalation
+export const MAX_PRIORITY_FEE_LAMPORTS = 1000000;
+const MIN_COMPUTE_UNIT_PRICE = 1000;
+const MAX_COMPUTE_UNIT_PRICE = Math.floor((MAX_PRIORITY_FEE_LAMPORTS * 1e6) / ESTIMATED_SWAP_COMPUTE_UNITS);
+const ESCALATION_FACTOR = 1.5;
+// the rpc caps locked accounts per request
+const MAX_SAMPLED_ACCOUNTS = 128;
+const CACHE_MS = 10000;
+
+const clampPrice = (price: number): number =>
+  Math.min(MAX_COMPUTE_UNIT_PRICE, Math.max(MIN_COMPUTE_UNIT_PRICE, Math.ceil(price)));
+
+const percentile = (sorted: number[], pct: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.floor((pct / 100) * sorted.length));
+  return sorted[index];
+};
+
+export const estimatePriorityFeeLamports = (
+  computeUnitPrice: number,
+  computeUnits: number = ESTIMATED_SWAP_COMPUTE_UNITS,
+): number => Math.ceil((computeUnitPrice * computeUnits) / 1e6);
+
+// each blockhash expiry bids higher, up to the old fixed cap
+export const escalateComputeUnitPrice = (price: number, expiries: number): number =>
+  clampPrice(price * Math.pow(ESCALATION_FACTOR, expiries));
+
+// a jito tip is bid up on the same curve, it has no compute price cap
+export const escalateTipLamports = (tipLamports: number, expiries: number): number =>
+  Math.ceil(tipLamports * Math.pow(ESCALATION_FACTOR, expiries));
+
+// the pools a quote routes through are the contended writable accounts
+export const getQuoteAccounts = (quote: JupiterQuoteResponse): string[] =>
+  Array.from(new Set((quote.routePlan ?? []).map(step => step.swapInfo.ammKey)));
+
+export class PriorityFeeEstimator {
+  private readonly cache = new Map<string, { at: number; levels: PriorityFeeLevels }>();
+
+  constructor(private connection: PriorityFeeConnection) {}
+
+  async getFeeLevels(accounts: string[] = []): Promise<PriorityFeeLevels> {
+    const sampled = Array.from(new Set(accounts)).sort().slice(0, MAX_SAMPLED_ACCOUNTS);
+    const key = sampled.join(',');
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.at < CACHE_MS) {
+      return cached.levels;
+    }
+
+    const fees = await this.connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: sampled.map(account => new PublicKey(account)),
+    });
+    const sorted = fees.map(fee => fee.prioritizationFee).sort((a, b) => a - b);
+
+    const levels: PriorityFeeLevels = {
+      low: clampPrice(percentile(sorted, LEVEL_PERCENTILES.low)),
+      medium: clampPrice(percentile(sorted, LEVEL_PERCENTILES.medium)),
+      high: clampPrice(percentile(sorted, LEVEL_PERCENTILES.high)),
+    };
+    this.cache.set(key, { at: Date.now(), levels });
+    return levels;
+  }
+
+  // a failed sample falls back to the floor rather than blocking the swap
+  async getComputeUnitPrice(settings: PriorityFeeSettings, accounts: string[] = []): Promise<number> {
+    if (settings.level === 'custom' && settings.customMicroLamports !== null) {
+      return clampPrice(settings.customMicroLamports);
+    }
+
+    // a custom level without a price falls back to the median
+    const level = settings.level === 'custom' ? 'medium' : settings.level;
+    try {
+      return (await this.getFeeLevels(accounts))[level];
+    } catch (error) {
+      console.warn('failed to sample priority fees:', error);
+      return MIN_COMPUTE_UNIT_PRICE;
+    }
+  }
+}
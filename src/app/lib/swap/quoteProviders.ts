@@ -0,0 +1,284 @@
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { JupiterQuoteResponse, JupiterSwapResponse, RouteConstraints, SwapMode } from '../../types/swap';
+import { TOKEN_PROGRAM_ID } from '../tokenExtensions';
+
+const JUPITER_SWAP_API = 'https://lite-api.jup.ag/swap/v1';
+const RAYDIUM_TRADE_API = 'https://transaction-v1.raydium.io';
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+// jupiter labels raydium pools 'Raydium', 'Raydium CLMM', 'Raydium CP' and so on
+const RAYDIUM_LABEL = 'Raydium';
+
+export interface QuoteRequest {
+  inputMint: string;
+  outputMint: string;
+  // input for ExactIn, output for ExactOut, in raw units
+  amount: bigint;
+  swapMode: SwapMode;
+  slippageBps: number;
+  constraints?: RouteConstraints;
+}
+
+export interface SwapTransactionRequest {
+  quote: JupiterQuoteResponse;
+  userPublicKey: PublicKey;
+  recentBlockhash: string;
+  // priority fee bid, estimated by the engine for every build
+  computeUnitPriceMicroLamports: number;
+  inputTokenProgram?: string;
+}
+
+// every provider returns quotes in the jupiter shape so guardrails, fills and
+// simulation can read them without knowing where they came from. outAmount
+// and inAmount are net of route and platform fees, so quotes from different
+// providers compare directly
+export interface QuoteProvider {
+  readonly name: string;
+  getQuote(request: QuoteRequest): Promise<JupiterQuoteResponse | null>;
+  buildSwapTransaction(request: SwapTransactionRequest): Promise<VersionedTransaction>;
+}
+
+export class JupiterQuoteProvider implements QuoteProvider {
+  readonly name = 'jupiter';
+  private readonly fetcher: typeof fetch;
+
+  constructor(private apiUrl: string = JUPITER_SWAP_API, fetcher?: typeof fetch) {
+    this.fetcher = fetcher ?? ((input, init) => fetch(input, init));
+  }
+
+  private getRouteParams(constraints?: RouteConstraints): Record<string, string> {
+    if (!constraints) return {};
+
+    const params: Record<string, string> = {};
+    if (constraints.dexes.length > 0) params.dexes = constraints.dexes.join(',');
+    if (constraints.excludeDexes.length > 0) params.excludeDexes = constraints.excludeDexes.join(',');
+    if (constraints.onlyDirectRoutes) params.onlyDirectRoutes = 'true';
+    if (constraints.maxAccounts !== null) params.maxAccounts = constraints.maxAccounts.toString();
+    if (constraints.restrictIntermediateTokens) params.restrictIntermediateTokens = 'true';
+    return params;
+  }
+
+  async getQuote(request: QuoteRequest): Promise<JupiterQuoteResponse | null> {
+    const quoteUrl = `${this.apiUrl}/quote?` + new URLSearchParams({
+      inputMint: request.inputMint,
+      outputMint: request.outputMint,
+      amount: request.amount.toString(),
+      slippageBps: request.slippageBps.toString(),
+      swapMode: request.swapMode,
+      ...this.getRouteParams(request.constraints),
+    });
+
+    const response = await this.fetcher(quoteUrl);
+    if (!response.ok) {
+      return null;
+    }
+
+    const quoteData: JupiterQuoteResponse = await response.json();
+    return quoteData?.outAmount ? quoteData : null;
+  }
+
+  async buildSwapTransaction(request: SwapTransactionRequest): Promise<VersionedTransaction> {
+    const swapResponse = await this.fetcher(`${this.apiUrl}/swap`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        quoteResponse: request.quote,
+        userPublicKey: request.userPublicKey.toString(),
+        dynamicComputeUnitLimit: true,
+        dynamicSlippage: true,
+        computeUnitPriceMicroLamports: request.computeUnitPriceMicroLamports,
+        wrapAndUnwrapSol: true,
+        asLegacyTransaction: false,
+        useSharedAccounts: true,
+        configs: {
+          recentBlockhash: request.recentBlockhash,
+        },
+      }),
+    });
+
+    if (!swapResponse.ok) {
+      const errorData = await swapResponse.json().catch(() => ({}));
+      throw new Error(`swap build failed: ${errorData.error || swapResponse.statusText}`);
+    }
+
+    const swapData: JupiterSwapResponse = await swapResponse.json();
+
+    if (!swapData.swapTransaction) {
+      throw new Error('no swap transaction returned from jupiter');
+    }
+
+    return VersionedTransaction.deserialize(Buffer.from(swapData.swapTransaction, 'base64'));
+  }
+}
+
+interface RaydiumResponse<T> {
+  success: boolean;
+  msg?: string;
+  data: T;
+}
+
+interface RaydiumSwapCompute {
+  swapType: 'BaseIn' | 'BaseOut';
+  inputMint: string;
+  inputAmount: string;
+  outputMint: string;
+  outputAmount: string;
+  otherAmountThreshold: string;
+  slippageBps: number;
+  // raydium reports a percentage, jupiter a fraction
+  priceImpactPct: number;
+  routePlan: Array<{
+    poolId: string;
+    inputMint: string;
+    outputMint: string;
+    feeMint: string;
+    feeAmount: string;
+  }>;
+}
+
+// quotes raydium pools directly through its trade api. the compute response
+// is kept on the quote because the transaction endpoint wants it back as is
+export class RaydiumQuoteProvider implements QuoteProvider {
+  readonly name = 'raydium';
+  private readonly fetcher: typeof fetch;
+
+  constructor(private apiUrl: string = RAYDIUM_TRADE_API, fetcher?: typeof fetch) {
+    this.apiUrl = apiUrl.replace(/\/+$/, '');
+    this.fetcher = fetcher ?? ((input, init) => fetch(input, init));
+  }
+
+  private getRoute(swapMode: SwapMode | undefined): string {
+    return swapMode === 'ExactOut' ? 'swap-base-out' : 'swap-base-in';
+  }
+
+  // the trade api takes no routing options, so raydium sits out any request
+  // whose dex filters or account cap it cannot honour
+  private isExcluded(constraints?: RouteConstraints): boolean {
+    if (!constraints) return false;
+    const isRaydium = (label: string) => label.startsWith(RAYDIUM_LABEL);
+    return (
+      (constraints.dexes.length > 0 && !constraints.dexes.some(isRaydium)) ||
+      constraints.excludeDexes.some(isRaydium) ||
+      constraints.maxAccounts !== null
+    );
+  }
+
+  async getQuote(request: QuoteRequest): Promise<JupiterQuoteResponse | null> {
+    if (this.isExcluded(request.constraints)) {
+      return null;
+    }
+
+    const quoteUrl = `${this.apiUrl}/compute/${this.getRoute(request.swapMode)}?` + new URLSearchParams({
+      inputMint: request.inputMint,
+      outputMint: request.outputMint,
+      amount: request.amount.toString(),
+      slippageBps: request.slippageBps.toString(),
+      txVersion: 'V0',
+    });
+
+    const response = await this.fetcher(quoteUrl);
+    if (!response.ok) {
+      return null;
+    }
+
+    const compute: RaydiumResponse<RaydiumSwapCompute> = await response.json();
+    if (!compute?.success || !compute.data?.outputAmount) {
+      return null;
+    }
+
+    const { data } = compute;
+    // multi-hop routes pass through whatever pool token raydium picks
+    const multiHop = data.routePlan.length > 1;
+    if (multiHop && (request.constraints?.onlyDirectRoutes || request.constraints?.restrictIntermediateTokens)) {
+      return null;
+    }
+
+    return {
+      inputMint: data.inputMint,
+      outputMint: data.outputMint,
+      inAmount: data.inputAmount,
+      outAmount: data.outputAmount,
+      swapMode: request.swapMode,
+      otherAmountThreshold: data.otherAmountThreshold,
+      priceImpactPct: String((data.priceImpactPct ?? 0) / 100),
+      // raydium only reports amounts for the route as a whole
+      routePlan: data.routePlan.map((step, index) => ({
+        swapInfo: {
+          ammKey: step.poolId,
+          label: RAYDIUM_LABEL,
+          inputMint: step.inputMint,
+          outputMint: step.outputMint,
+          inAmount: index === 0 ? data.inputAmount : '0',
+          outAmount: index === data.routePlan.length - 1 ? data.outputAmount : '0',
+          feeAmount: step.feeAmount,
+          feeMint: step.feeMint,
+        },
+        percent: 100,
+      })),
+      raydiumCompute: compute,
+    };
+  }
+
+  async buildSwapTransaction(request: SwapTransactionRequest): Promise<VersionedTransaction> {
+    const { quote, userPublicKey } = request;
+    const compute = quote.raydiumCompute as RaydiumResponse<RaydiumSwapCompute> | undefined;
+    if (!compute) {
+      throw new Error('quote was not issued by raydium');
+    }
+
+    const inputMint = compute.data.inputMint;
+    const outputMint = compute.data.outputMint;
+    const inputAccount = inputMint === SOL_MINT
+      ? undefined
+      : getAssociatedTokenAddressSync(
+        new PublicKey(inputMint),
+        userPublicKey,
+        true,
+        new PublicKey(request.inputTokenProgram ?? TOKEN_PROGRAM_ID),
+      ).toBase58();
+
+    const swapResponse = await this.fetcher(`${this.apiUrl}/transaction/${this.getRoute(quote.swapMode)}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        computeUnitPriceMicroLamports: String(request.computeUnitPriceMicroLamports),
+        swapResponse: compute,
+        txVersion: 'V0',
+        wallet: userPublicKey.toBase58(),
+        wrapSol: inputMint === SOL_MINT,
+        unwrapSol: outputMint === SOL_MINT,
+        inputAccount,
+      }),
+    });
+
+    if (!swapResponse.ok) {
+      throw new Error(`swap build failed: ${swapResponse.statusText}`);
+    }
+
+    const swapData: RaydiumResponse<Array<{ transaction: string }>> = await swapResponse.json();
+    if (!swapData.success || !swapData.data?.length) {
+      throw new Error(`swap build failed: ${swapData.msg || 'no swap transaction returned from raydium'}`);
+    }
+    // the engine signs, simulates and confirms one transaction per leg
+    if (swapData.data.length > 1) {
+      throw new Error('raydium returned a multi-transaction swap');
+    }
+
+    const transaction = VersionedTransaction.deserialize(Buffer.from(swapData.data[0].transaction, 'base64'));
+    // raydium picks its own blockhash, confirmation expects ours
+    transaction.message.recentBlockhash = request.recentBlockhash;
+    return transaction;
+  }
+}
+
+export const createDefaultQuoteProviders = (
+  fetcher?: typeof fetch,
+  jupiterApiUrl?: string,
+): QuoteProvider[] => [
+  new JupiterQuoteProvider(jupiterApiUrl, fetcher),
+  new RaydiumQuoteProvider(undefined, fetcher),
+];
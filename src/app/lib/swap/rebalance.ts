@@ -0,0 +1,213 @@
+import { TokenBalance } from '../../types/token';
+import { OutputAllocation, ProRataToken } from '../../types/swap';
+import { RebalancePlan, RebalancePosition, RebalanceTarget } from '../../types/rebalance';
+import {
+  isPriced,
+  rawToUiAmount,
+  rawToUsdUnits,
+  toRawBalance,
+  unitsToUsd,
+  usdToUnits,
+  usdUnitsToRaw,
+} from './planner';
+
+export interface RebalanceOptions {
+  // how far a weight may drift, in percentage points, before it is traded
+  driftBandPct: number;
+  minTradeUsd?: number;
+  // holdings whose price is not confirmed yet, left out like unpriced ones
+  unconfirmedMints?: string[];
+}
+
+interface Flow {
+  token: TokenBalance;
+  position: RebalancePosition;
+  remainingUsd: number;
+}
+
+const ZERO = BigInt(0);
+
+// spreads an amount over flows in proportion to their room, never past it
+const absorb = (flows: Flow[], amountUsd: number): number => {
+  const room = flows.reduce((sum, flow) => sum + flow.remainingUsd, 0);
+  if (room <= 0 || amountUsd <= 0) return 0;
+
+  const absorbed = Math.min(room, amountUsd);
+  flows.forEach(flow => {
+    flow.remainingUsd = (flow.remainingUsd / room) * absorbed;
+  });
+  return absorbed;
+};
+
+const scale = (flows: Flow[], factor: number) => {
+  flows.forEach(flow => {
+    flow.remainingUsd *= factor;
+  });
+};
+
+// only positions that drifted out of the band are traded back to target. the
+// imbalance between their sells and buys is taken up by in-band positions on
+// the side that needs it, then sells are paired directly with buys so every
+// trade is a single swap and no value passes through an intermediate token
+export const planRebalance = (
+  holdings: TokenBalance[],
+  targets: RebalanceTarget[],
+  options: RebalanceOptions,
+): RebalancePlan => {
+  const minTradeUsd = options.minTradeUsd ?? 1;
+  const universe = holdings.filter(token => targets.some(target => target.mint === token.mint));
+  const isConfirmed = (token: TokenBalance) => !options.unconfirmedMints?.includes(token.mint);
+  const unpriced = universe
+    .filter(token => !isPriced(token) || !isConfirmed(token))
+    .map(token => ({
+      token,
+      reason: isPriced(token)
+        ? `${token.symbol} price is not confirmed, cannot be rebalanced`
+        : `${token.symbol} has no price, cannot be rebalanced`,
+    }));
+  const priced = universe.filter(token => isPriced(token) && isConfirmed(token));
+  const unheld = targets
+    .filter(target => target.weight > 0 && !universe.some(token => token.mint === target.mint))
+    .map(target => ({
+      target,
+      reason: `${target.symbol} is not held, its ${target.weight}% target is left out`,
+    }));
+
+  const totalWeight = priced.reduce(
+    (sum, token) => sum + (targets.find(target => target.mint === token.mint)?.weight ?? 0),
+    0,
+  );
+  const valued = priced.map(token => ({
+    token,
+    rawBalance: toRawBalance(token),
+    valueUsd: unitsToUsd(rawToUsdUnits(toRawBalance(token), token.price as number, token.decimals)),
+  }));
+  const totalValueUsd = valued.reduce((sum, entry) => sum + entry.valueUsd, 0);
+
+  const positions: RebalancePosition[] = valued.map(({ token, valueUsd }) => {
+    const weight = targets.find(target => target.mint === token.mint)?.weight ?? 0;
+    const targetWeight = totalWeight > 0 ? (weight / totalWeight) * 100 : 0;
+    const currentWeight = totalValueUsd > 0 ? (valueUsd / totalValueUsd) * 100 : 0;
+    return {
+      mint: token.mint,
+      symbol: token.symbol,
+      currentValueUsd: valueUsd,
+      currentWeight,
+      targetWeight,
+      targetValueUsd: (totalValueUsd * targetWeight) / 100,
+      driftPct: currentWeight - targetWeight,
+      action: 'hold',
+      tradeValueUsd: 0,
+    };
+  });
+
+  const flows = positions.map((position, index): Flow & { outOfBand: boolean; deltaUsd: number } => ({
+    token: valued[index].token,
+    position,
+    remainingUsd: 0,
+    outOfBand: Math.abs(position.driftPct) > options.driftBandPct,
+    deltaUsd: position.targetValueUsd - position.currentValueUsd,
+  }));
+
+  const sells = flows
+    .filter(flow => flow.outOfBand && flow.deltaUsd <= -minTradeUsd)
+    .map(flow => Object.assign(flow, { remainingUsd: -flow.deltaUsd }));
+  const buys = flows
+    .filter(flow => flow.outOfBand && flow.deltaUsd >= minTradeUsd)
+    .map(flow => Object.assign(flow, { remainingUsd: flow.deltaUsd }));
+
+  const sellUsd = sells.reduce((sum, flow) => sum + flow.remainingUsd, 0);
+  const buyUsd = buys.reduce((sum, flow) => sum + flow.remainingUsd, 0);
+
+  if (sellUsd > buyUsd) {
+    const extra = flows
+      .filter(flow => !flow.outOfBand && flow.deltaUsd > 0)
+      .map(flow => Object.assign(flow, { remainingUsd: flow.deltaUsd }));
+    const absorbed = absorb(extra, sellUsd - buyUsd);
+    buys.push(...extra.filter(flow => flow.remainingUsd > 0));
+    if (sellUsd > 0) scale(sells, (buyUsd + absorbed) / sellUsd);
+  } else if (buyUsd > sellUsd) {
+    const extra = flows
+      .filter(flow => !flow.outOfBand && flow.deltaUsd < 0)
+      .map(flow => Object.assign(flow, { remainingUsd: -flow.deltaUsd }));
+    const absorbed = absorb(extra, buyUsd - sellUsd);
+    sells.push(...extra.filter(flow => flow.remainingUsd > 0));
+    if (buyUsd > 0) scale(buys, (sellUsd + absorbed) / buyUsd);
+  }
+
+  sells.sort((a, b) => b.remainingUsd - a.remainingUsd);
+  buys.sort((a, b) => b.remainingUsd - a.remainingUsd);
+
+  const rawLeft = new Map(valued.map(entry => [entry.token.mint, entry.rawBalance]));
+  const legs: ProRataToken[] = [];
+  let sellIndex = 0;
+  let buyIndex = 0;
+
+  while (sellIndex < sells.length && buyIndex < buys.length) {
+    const sell = sells[sellIndex];
+    const buy = buys[buyIndex];
+    const amountUsd = Math.min(sell.remainingUsd, buy.remainingUsd);
+
+    if (amountUsd >= minTradeUsd) {
+      const { token } = sell;
+      const price = token.price as number;
+      const available = rawLeft.get(token.mint) ?? ZERO;
+      const closesOut = sell.position.targetWeight === 0 && sell.remainingUsd - amountUsd < minTradeUsd;
+
+      let raw = closesOut ? available : usdUnitsToRaw(usdToUnits(amountUsd), price, token.decimals);
+      if (raw > available) raw = available;
+
+      if (raw > ZERO) {
+        rawLeft.set(token.mint, available - raw);
+        const valueUsd = unitsToUsd(rawToUsdUnits(raw, price, token.decimals));
+        const balance = toRawBalance(token);
+
+        legs.push({
+          ...token,
+          swapAmount: rawToUiAmount(raw, token.decimals),
+          rawSwapAmount: raw.toString(),
+          percentage: balance > ZERO ? Number((raw * BigInt(10000)) / balance) / 100 : 0,
+          liquidationAmount: valueUsd,
+          originalAmount: token.uiAmount,
+          outputMint: buy.token.mint,
+          rationale: [
+            `${sell.position.currentWeight.toFixed(2)}% → ${sell.position.targetWeight.toFixed(2)}% target`,
+            `buys ${buy.token.symbol} at ${buy.position.currentWeight.toFixed(2)}% → ${buy.position.targetWeight.toFixed(2)}%`,
+          ].join(', '),
+        });
+
+        sell.position.action = 'sell';
+        sell.position.tradeValueUsd += valueUsd;
+        buy.position.action = 'buy';
+        buy.position.tradeValueUsd += valueUsd;
+      }
+    }
+
+    sell.remainingUsd -= amountUsd;
+    buy.remainingUsd -= amountUsd;
+    if (sell.remainingUsd < minTradeUsd) sellIndex++;
+    if (buy.remainingUsd < minTradeUsd) buyIndex++;
+  }
+
+  const turnoverUsd = legs.reduce((sum, leg) => sum + leg.liquidationAmount, 0);
+  const outputs: OutputAllocation[] = buys
+    .filter(flow => flow.position.tradeValueUsd > 0)
+    .map(flow => ({
+      mint: flow.token.mint,
+      symbol: flow.token.symbol,
+      decimals: flow.token.decimals,
+      weight: turnoverUsd > 0 ? (flow.position.tradeValueUsd / turnoverUsd) * 100 : 0,
+    }));
+
+  return {
+    totalValueUsd,
+    positions,
+    legs,
+    outputs,
+    turnoverUsd,
+    withinBand: unheld.length === 0
+      && positions.every(position => Math.abs(position.driftPct) <= options.driftBandPct),
+    unpriced,
+    unheld,
+  };
+};
@@ -0,0 +1,122 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { OutputAllocation, PersistedSwapBatch, PersistedSwapLeg, SwapResult } from '../../types/swap';
+import { FillConnection, fetchSwapFill } from './fills';
+
+export type RecoveryConnection = Pick<Connection, 'getSignatureStatuses' | 'getBlockHeight'> & FillConnection;
+
+export interface BatchProgress {
+  landed: PersistedSwapLeg[];
+  failed: PersistedSwapLeg[];
+  inFlight: PersistedSwapLeg[];
+  remaining: PersistedSwapLeg[];
+}
+
+export const getBatchProgress = (batch: PersistedSwapBatch): BatchProgress => ({
+  landed: batch.legs.filter(leg => leg.status === 'landed'),
+  failed: batch.legs.filter(leg => leg.status === 'failed'),
+  inFlight: batch.legs.filter(leg => leg.status === 'submitted'),
+  remaining: batch.legs.filter(leg => leg.status === 'pending'),
+});
+
+export const getBatchResults = (batch: PersistedSwapBatch): SwapResult[] =>
+  batch.legs.flatMap(leg => (leg.result ? [leg.result] : []));
+
+// legs planned before outputs could be split carry no output mint of their own
+export const getLegOutput = (batch: PersistedSwapBatch, leg: PersistedSwapLeg): OutputAllocation =>
+  batch.outputs.find(output => output.mint === leg.token.outputMint) ?? batch.outputs[0];
+
+const buildLandedResult = async (
+  connection: RecoveryConnection,
+  batch: PersistedSwapBatch,
+  leg: PersistedSwapLeg,
+  signature: string,
+): Promise<SwapResult> => {
+  const { token } = leg;
+  const output = getLegOutput(batch, leg);
+  const quotedOutputRaw = leg.quotedOutputRaw ?? '0';
+  const fill = await fetchSwapFill(connection, signature, {
+    owner: new PublicKey(batch.wallet),
+    inputMint: token.mint,
+    inputDecimals: token.decimals,
+    outputMint: output.mint,
+    outputDecimals: output.decimals,
+    quotedOutputRaw,
+  });
+
+  const inputAmount = fill?.inputSpent ?? token.swapAmount;
+
+  return {
+    symbol: token.symbol,
+    mint: token.mint,
+    decimals: token.decimals,
+    signature,
+    amount: token.price ? inputAmount * token.price : token.liquidationAmount,
+    inputAmount,
+    outputAmount: fill?.outputReceived ?? Number(quotedOutputRaw) / Math.pow(10, output.decimals),
+    priceUsd: token.price,
+    fill: fill ?? undefined,
+    outputMint: output.mint,
+  };
+};
+
+// settles every submitted leg against the chain. a signature that is not
+// found stays in flight until its blockhash expires, after which the leg can
+// safely be quoted and sent again
+export const reconcileBatch = async (
+  connection: RecoveryConnection,
+  batch: PersistedSwapBatch,
+): Promise<PersistedSwapBatch> => {
+  const submitted = batch.legs.filter(leg => leg.status === 'submitted' && leg.signature);
+  if (submitted.length === 0) {
+    return batch;
+  }
+
+  const [statuses, blockHeight] = await Promise.all([
+    connection.getSignatureStatuses(
+      submitted.map(leg => leg.signature as string),
+      { searchTransactionHistory: true },
+    ),
+    connection.getBlockHeight('confirmed'),
+  ]);
+
+  const legs = await Promise.all(batch.legs.map(async (leg): Promise<PersistedSwapLeg> => {
+    const index = submitted.indexOf(leg);
+    if (index < 0) return leg;
+
+    const status = statuses.value[index];
+    const signature = leg.signature as string;
+
+    if (status?.err) {
+      return {
+        ...leg,
+        status: 'failed',
+        result: {
+          symbol: leg.token.symbol,
+          mint: leg.token.mint,
+          decimals: leg.token.decimals,
+          signature,
+          amount: leg.token.liquidationAmount,
+          inputAmount: leg.token.swapAmount,
+          error: `transaction failed: ${JSON.stringify(status.err)}`,
+          outputMint: getLegOutput(batch, leg).mint,
+        },
+      };
+    }
+
+    if (status) {
+      return {
+        ...leg,
+        status: 'landed',
+        result: await buildLandedResult(connection, batch, leg, signature),
+      };
+    }
+
+    if (leg.lastValidBlockHeight !== undefined && blockHeight > leg.lastValidBlockHeight) {
+      return { ...leg, status: 'pending', signature: undefined, lastValidBlockHeight: undefined };
+    }
+
+    return leg;
+  }));
+
+  return { ...batch, legs };
+};
@@ -0,0 +1,84 @@
+import { JupiterQuoteResponse, RouteConstraints, RouteHop, RouteSummary } from '../../types/swap';
+
+const JUPITER_LABELS_API = 'https://lite-api.jup.ag/swap/v1/program-id-to-label';
+
+export const DEFAULT_ROUTE_CONSTRAINTS: RouteConstraints = {
+  dexes: [],
+  excludeDexes: [],
+  onlyDirectRoutes: false,
+  maxAccounts: null,
+  restrictIntermediateTokens: false,
+};
+
+export const hasRouteConstraints = (constraints: RouteConstraints): boolean =>
+  constraints.dexes.length > 0 ||
+  constraints.excludeDexes.length > 0 ||
+  constraints.onlyDirectRoutes ||
+  constraints.maxAccounts !== null ||
+  constraints.restrictIntermediateTokens;
+
+export const describeRouteConstraints = (constraints: RouteConstraints): string[] => {
+  const parts: string[] = [];
+  if (constraints.dexes.length > 0) parts.push(`only ${constraints.dexes.join(', ')}`);
+  if (constraints.excludeDexes.length > 0) parts.push(`no ${constraints.excludeDexes.join(', ')}`);
+  if (constraints.onlyDirectRoutes) parts.push('direct only');
+  if (constraints.maxAccounts !== null) parts.push(`≤ ${constraints.maxAccounts} accounts`);
+  if (constraints.restrictIntermediateTokens) parts.push('major intermediates');
+  return parts;
+};
+
+// fee amounts are converted for the mints whose decimals the caller knows,
+// usually the leg's input and output
+export const summarizeRoute = (
+  quote: JupiterQuoteResponse,
+  provider: string | undefined,
+  decimalsByMint: Record<string, number>,
+): RouteSummary => {
+  const toUiAmount = (raw: string, mint: string): number | undefined =>
+    decimalsByMint[mint] !== undefined ? Number(raw) / Math.pow(10, decimalsByMint[mint]) : undefined;
+
+  const hops: RouteHop[] = (quote.routePlan ?? []).map(({ swapInfo, percent }) => {
+    const feeAmount = toUiAmount(swapInfo.feeAmount, swapInfo.feeMint);
+    return {
+      label: swapInfo.label,
+      ammKey: swapInfo.ammKey,
+      inputMint: swapInfo.inputMint,
+      outputMint: swapInfo.outputMint,
+      percent,
+      feeMint: swapInfo.feeMint,
+      feeRaw: swapInfo.feeAmount,
+      ...(feeAmount !== undefined ? { feeAmount } : {}),
+    };
+  });
+
+  // jupiter takes platform fees from the output on ExactIn and the input on
+  // ExactOut
+  const platformFee = quote.platformFee && quote.platformFee.feeBps > 0 ? quote.platformFee : null;
+  const feeMint = quote.swapMode === 'ExactOut' ? quote.inputMint : quote.outputMint;
+  const platformFeeAmount = platformFee && typeof feeMint === 'string'
+    ? toUiAmount(platformFee.amount, feeMint)
+    : undefined;
+
+  return {
+    ...(provider ? { provider } : {}),
+    hops,
+    priceImpactPct: Math.abs(parseFloat(quote.priceImpactPct ?? '0') || 0) * 100,
+    ...(platformFee ? { platformFeeBps: platformFee.feeBps } : {}),
+    ...(platformFeeAmount !== undefined ? { platformFeeAmount } : {}),
+  };
+};
+
+// distinct amms in route order
+export const getRouteVenues = (route: RouteSummary): string[] =>
+  Array.from(new Set(route.hops.map(hop => hop.label)));
+
+// every amm label jupiter can route through, for the dex filters
+export const fetchDexLabels = async (fetcher: typeof fetch = fetch): Promise<string[]> => {
+  const response = await fetcher(JUPITER_LABELS_API);
+  if (!response.ok) {
+    throw new Error(`failed to load dex labels: ${response.status}`);
+  }
+
+  const labels: Record<string, string> = await response.json();
+  return Array.from(new Set(Object.values(labels))).sort((a, b) => a.localeCompare(b));
+};
@@ -0,0 +1,251 @@
+import { TokenBalance } from '../../types/token';
+import { OutputAllocation, ProRataToken, SwapGuardrails, SwapResult } from '../../types/swap';
+import { ScheduleOptions, ScheduledSlice, ScheduledToken, SwapSchedule } from '../../types/schedule';
+import { getRawSwapAmount, isPriced, rawToUiAmount, rawToUsdUnits, toRawBalance, unitsToUsd } from './planner';
+import { routeToOutputs } from './outputs';
+
+export interface ScheduleInput {
+  scheduleId?: string;
+  wallet: string;
+  hashedWallet: string;
+  legs: ProRataToken[];
+  outputs: OutputAllocation[];
+  liquidationPct: number;
+  slippage: number;
+  guardrails: SwapGuardrails;
+}
+
+export interface SliceOutcome {
+  batchId?: string;
+  results: SwapResult[];
+  error?: string;
+}
+
+const ZERO = BigInt(0);
+
+const isOpen = (slice: ScheduledSlice): boolean =>
+  slice.status === 'pending' || slice.status === 'running';
+
+const getIntervalMs = (schedule: Pick<SwapSchedule, 'windowMs' | 'slices'>): number =>
+  schedule.slices.length > 0 ? schedule.windowMs / schedule.slices.length : 0;
+
+// slices are spaced evenly from the start, so 12 slices over 48 hours run
+// every 4 hours with the first one due straight away
+export const createSchedule = (input: ScheduleInput, options: ScheduleOptions): SwapSchedule => {
+  const now = Date.now();
+  const startAt = options.startAt ?? now;
+  const sliceCount = Math.max(1, Math.floor(options.sliceCount));
+  const intervalMs = options.windowMs / sliceCount;
+
+  const tokens: ScheduledToken[] = input.legs
+    .filter(leg => getRawSwapAmount(leg) > ZERO)
+    .map(leg => ({
+      mint: leg.mint,
+      symbol: leg.symbol,
+      decimals: leg.decimals,
+      rawTotal: getRawSwapAmount(leg).toString(),
+      soldRaw: '0',
+    }));
+
+  return {
+    scheduleId: input.scheduleId
+      ?? (typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : `${now}`),
+    wallet: input.wallet,
+    hashedWallet: input.hashedWallet,
+    createdAt: now,
+    updatedAt: now,
+    status: 'active',
+    execution: options.execution,
+    outputs: input.outputs,
+    tokens,
+    liquidationPct: input.liquidationPct,
+    windowMs: options.windowMs,
+    slippage: input.slippage,
+    guardrails: input.guardrails,
+    slices: Array.from({ length: sliceCount }, (_, index) => ({
+      index,
+      scheduledAt: Math.round(startAt + index * intervalMs),
+      status: 'pending',
+    })),
+  };
+};
+
+export const getInterruptedSlice = (schedule: SwapSchedule): ScheduledSlice | undefined =>
+  schedule.slices.find(slice => slice.status === 'running');
+
+// nothing is due while a slice is still running, since what it sold decides
+// what the next one has left to sell
+export const getDueSlice = (schedule: SwapSchedule, now: number = Date.now()): ScheduledSlice | undefined =>
+  schedule.status === 'active' && !getInterruptedSlice(schedule)
+    ? schedule.slices.find(slice => slice.status === 'pending' && slice.scheduledAt <= now)
+    : undefined;
+
+export const getNextSlice = (schedule: SwapSchedule): ScheduledSlice | undefined =>
+  schedule.slices.find(slice => slice.status === 'pending');
+
+// whatever earlier slices failed to sell is spread over the ones still open
+export const getSliceAmount = (schedule: SwapSchedule, token: ScheduledToken): bigint => {
+  const remaining = BigInt(token.rawTotal) - BigInt(token.soldRaw);
+  const open = schedule.slices.filter(isOpen).length;
+  if (remaining <= ZERO || open === 0) return ZERO;
+  return open === 1 ? remaining : remaining / BigInt(open);
+};
+
+const buildSliceLeg = (token: TokenBalance, raw: bigint, rationale: string): ProRataToken => {
+  const balance = toRawBalance(token);
+  const swapAmount = rawToUiAmount(raw, token.decimals);
+  return {
+    ...token,
+    swapAmount,
+    rawSwapAmount: raw.toString(),
+    percentage: balance > ZERO ? Number((raw * BigInt(10000)) / balance) / 100 : 0,
+    liquidationAmount: isPriced(token)
+      ? unitsToUsd(rawToUsdUnits(raw, token.price as number, token.decimals))
+      : 0,
+    originalAmount: token.uiAmount,
+    rationale,
+  };
+};
+
+// sizes a live slice against fresh balances and prices, capped at what the
+// wallet still holds, and routes it to the schedule's outputs
+export const buildSliceLegs = (
+  schedule: SwapSchedule,
+  slice: ScheduledSlice,
+  freshTokens: TokenBalance[],
+): ProRataToken[] => {
+  const rationale = `slice ${slice.index + 1} of ${schedule.slices.length}`;
+  const legs = schedule.tokens.flatMap(scheduled => {
+    const token = freshTokens.find(fresh => fresh.mint === scheduled.mint);
+    if (!token) return [];
+
+    const balance = toRawBalance(token);
+    let raw = getSliceAmount(schedule, scheduled);
+    if (raw > balance) raw = balance;
+    return raw > ZERO ? [buildSliceLeg(token, raw, rationale)] : [];
+  });
+
+  return routeToOutputs(legs, schedule.outputs);
+};
+
+// presigned slices are fixed when they are signed, so every slice gets an
+// equal share of the total and the last one takes the rounding remainder
+export const buildPresignedSlices = (
+  schedule: SwapSchedule,
+  tokens: TokenBalance[],
+): ProRataToken[][] => {
+  const count = BigInt(schedule.slices.length);
+
+  return schedule.slices.map(slice => {
+    const rationale = `slice ${slice.index + 1} of ${schedule.slices.length}, presigned`;
+    const isLast = slice.index === schedule.slices.length - 1;
+    const legs = schedule.tokens.flatMap(scheduled => {
+      const token = tokens.find(existing => existing.mint === scheduled.mint);
+      if (!token) return [];
+
+      const total = BigInt(scheduled.rawTotal);
+      const share = total / count;
+      const raw = isLast ? total - share * (count - BigInt(1)) : share;
+      return raw > ZERO ? [buildSliceLeg(token, raw, rationale)] : [];
+    });
+
+    return routeToOutputs(legs, schedule.outputs);
+  });
+};
+
+const getSoldRaw = (result: SwapResult): bigint => {
+  if (result.fill?.inputRaw) return BigInt(result.fill.inputRaw);
+  return BigInt(Math.round(result.inputAmount * Math.pow(10, result.decimals)));
+};
+
+// the batch id is kept on the slice before anything is sent, so a slice cut
+// short by a reload can still find what its batch landed
+export const startSlice = (schedule: SwapSchedule, index: number, batchId: string): SwapSchedule => ({
+  ...schedule,
+  updatedAt: Date.now(),
+  slices: schedule.slices.map(slice => (slice.index === index ? { ...slice, status: 'running', batchId } : slice)),
+});
+
+// a slice counts as done when any of its legs landed, the rest of its amount
+// rolls over into the slices still to come
+export const recordSlice = (schedule: SwapSchedule, index: number, outcome: SliceOutcome): SwapSchedule => {
+  const landed = outcome.results.filter(result => !result.error && result.signature);
+  const failed = outcome.results.find(result => result.error);
+  const now = Date.now();
+
+  const tokens = schedule.tokens.map(token => {
+    const sold = landed
+      .filter(result => result.mint === token.mint)
+      .reduce((sum, result) => sum + getSoldRaw(result), ZERO);
+    return sold > ZERO ? { ...token, soldRaw: (BigInt(token.soldRaw) + sold).toString() } : token;
+  });
+
+  const slices = schedule.slices.map((slice): ScheduledSlice => {
+    if (slice.index !== index) return slice;
+    return {
+      ...slice,
+      status: landed.length > 0 ? 'done' : 'failed',
+      ...(outcome.batchId ? { batchId: outcome.batchId } : {}),
+      executedAt: now,
+      valueUsd: landed.reduce((sum, result) => sum + result.amount, 0),
+      ...(landed.length === 0 ? { error: outcome.error ?? failed?.error ?? 'nothing was sold' } : {}),
+    };
+  });
+
+  const finished = !slices.some(isOpen);
+  return {
+    ...schedule,
+    tokens,
+    slices,
+    updatedAt: now,
+    status: finished && schedule.status === 'active' ? 'completed' : schedule.status,
+  };
+};
+
+export const pauseSchedule = (schedule: SwapSchedule): SwapSchedule => ({
+  ...schedule,
+  status: 'paused',
+  updatedAt: Date.now(),
+});
+
+// pending slices keep their spacing but restart from now, so a long pause
+// does not fire every missed slice at once
+export const resumeSchedule = (schedule: SwapSchedule, now: number = Date.now()): SwapSchedule => {
+  const intervalMs = getIntervalMs(schedule);
+  let position = 0;
+
+  return {
+    ...schedule,
+    status: 'active',
+    updatedAt: now,
+    slices: schedule.slices.map(slice => {
+      if (slice.status !== 'pending') return slice;
+      return { ...slice, scheduledAt: Math.round(now + intervalMs * position++) };
+    }),
+  };
+};
+
+export const cancelSchedule = (schedule: SwapSchedule): SwapSchedule => ({
+  ...schedule,
+  status: 'cancelled',
+  updatedAt: Date.now(),
+  slices: schedule.slices.map(slice => (slice.status === 'pending' ? { ...slice, status: 'cancelled' } : slice)),
+});
+
+export const markNoncesReleased = (schedule: SwapSchedule): SwapSchedule => ({
+  ...schedule,
+  noncesReleased: true,
+  updatedAt: Date.now(),
+});
+
+// a slice left running by a reload never reported back. it is closed out
+// with whatever its batch was reconciled to, so legs that landed still count
+// toward what later slices sell
+export const settleInterruptedSlice = (schedule: SwapSchedule, outcome: SliceOutcome): SwapSchedule => {
+  const running = getInterruptedSlice(schedule);
+  if (!running) return schedule;
+  return recordSlice(schedule, running.index, {
+    ...outcome,
+    error: outcome.error ?? 'interrupted before the slice finished',
+  });
+};
@@ -0,0 +1,12 @@
+import { VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+// the fee payer signature doubles as the transaction id, so it is known as
+// soon as the wallet signs and before anything is sent
+export const getTransactionSignature = (transaction: VersionedTransaction): string => {
+  const signature = transaction.signatures[0];
+  if (!signature || signature.every(byte => byte === 0)) {
+    throw new Error('transaction is not signed');
+  }
+  return bs58.encode(signature);
+};
@@ -0,0 +1,131 @@
+import { Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { SimulationReport } from '../../types/swap';
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '../tokenExtensions';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const TOKEN_AMOUNT_OFFSET = 64;
+
+export type SimulationConnection = Pick<
+  Connection,
+  'simulateTransaction' | 'getMultipleAccountsInfo' | 'getFeeForMessage'
+>;
+
+export interface SimulationLeg {
+  owner: PublicKey;
+  inputMint: string;
+  inputDecimals: number;
+  inputTokenProgram?: string;
+  outputMint: string;
+  outputDecimals: number;
+  minOutputRaw: bigint;
+}
+
+interface BalanceTarget {
+  addresses: PublicKey[];
+  native: boolean;
+}
+
+const ZERO = BigInt(0);
+
+const resolveBalanceTarget = (owner: PublicKey, mint: string, tokenPrograms: string[]): BalanceTarget => {
+  if (mint === SOL_MINT) {
+    return { addresses: [owner], native: true };
+  }
+
+  const mintKey = new PublicKey(mint);
+  return {
+    addresses: tokenPrograms.map(program =>
+      getAssociatedTokenAddressSync(mintKey, owner, true, new PublicKey(program)),
+    ),
+    native: false,
+  };
+};
+
+const readTokenAmount = (data: Buffer | undefined): bigint => {
+  if (!data || data.length < TOKEN_AMOUNT_OFFSET + 8) return ZERO;
+  return data.readBigUInt64LE(TOKEN_AMOUNT_OFFSET);
+};
+
+// sums balances across every candidate address for one side of the swap so
+// that ata creation or an unexpected token program does not hide the change
+const sumBalance = (
+  target: BalanceTarget,
+  accounts: Array<{ lamports: number; data?: Buffer } | null>,
+): bigint =>
+  accounts.reduce((sum, account) => {
+    if (!account) return sum;
+    return sum + (target.native ? BigInt(account.lamports) : readTokenAmount(account.data));
+  }, ZERO);
+
+const toUi = (raw: bigint, decimals: number): number => Number(raw) / Math.pow(10, decimals);
+
+export const simulateSwap = async (
+  connection: SimulationConnection,
+  transaction: VersionedTransaction,
+  leg: SimulationLeg,
+): Promise<SimulationReport> => {
+  const inputTarget = resolveBalanceTarget(leg.owner, leg.inputMint, [leg.inputTokenProgram ?? TOKEN_PROGRAM_ID]);
+  const outputTarget = resolveBalanceTarget(leg.owner, leg.outputMint, [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]);
+  const addresses = [...inputTarget.addresses, ...outputTarget.addresses];
+
+  const [preAccounts, simulation, fee] = await Promise.all([
+    connection.getMultipleAccountsInfo(addresses, 'confirmed'),
+    connection.simulateTransaction(transaction, {
+      sigVerify: false,
+      commitment: 'confirmed',
+      accounts: {
+        encoding: 'base64',
+        addresses: addresses.map(address => address.toBase58()),
+      },
+    }),
+    connection.getFeeForMessage(transaction.message, 'confirmed').catch(() => null),
+  ]);
+
+  const { err, logs, unitsConsumed, accounts } = simulation.value;
+  const feeLamports = fee?.value ?? 0;
+
+  if (err) {
+    return {
+      ok: false,
+      error: typeof err === 'string' ? err : JSON.stringify(err),
+      unitsConsumed,
+      feeLamports,
+      logs: logs ?? [],
+    };
+  }
+
+  const postAccounts = (accounts ?? []).map(account =>
+    account
+      ? { lamports: account.lamports, data: Buffer.from(account.data[0], 'base64') }
+      : null,
+  );
+
+  const inputCount = inputTarget.addresses.length;
+  const preInput = sumBalance(inputTarget, preAccounts.slice(0, inputCount));
+  const postInput = sumBalance(inputTarget, postAccounts.slice(0, inputCount));
+  const preOutput = sumBalance(outputTarget, preAccounts.slice(inputCount));
+  const postOutput = sumBalance(outputTarget, postAccounts.slice(inputCount));
+
+  // native sol moves on the wallet itself, which also pays the network fee
+  const feeAdjustment = BigInt(feeLamports);
+  const inputSpent = preInput - postInput - (inputTarget.native ? feeAdjustment : ZERO);
+  const outputReceived = postOutput - preOutput + (outputTarget.native ? feeAdjustment : ZERO);
+
+  const report: SimulationReport = {
+    ok: true,
+    unitsConsumed,
+    feeLamports,
+    inputChange: -toUi(inputSpent, leg.inputDecimals),
+    outputChange: toUi(outputReceived, leg.outputDecimals),
+    outputRaw: outputReceived.toString(),
+    logs: logs ?? [],
+  };
+
+  if (outputReceived < leg.minOutputRaw) {
+    report.ok = false;
+    report.error = `simulated output ${report.outputChange} is below the slippage bound of ${toUi(leg.minOutputRaw, leg.outputDecimals)}`;
+  }
+
+  return report;
+};
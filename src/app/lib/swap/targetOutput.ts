@@ -0,0 +1,178 @@
+import { JupiterQuoteResponse, ProRataToken, SwapMode, TargetOutputPlan } from '../../types/swap';
+import { getRawSwapAmount, rawToUiAmount, toRawBalance } from './planner';
+
+export type LegQuoter = (
+  token: ProRataToken,
+  amount: bigint,
+  swapMode: SwapMode,
+) => Promise<JupiterQuoteResponse | null>;
+
+export interface TargetOutputOptions {
+  targetOutputRaw: bigint;
+  outputDecimals: number;
+  slippageBps: number;
+  tolerancePct?: number;
+  maxIterations?: number;
+}
+
+interface LegState {
+  token: ProRataToken;
+  balanceRaw: bigint;
+  inputRaw: bigint;
+  outputRaw: bigint;
+  swapMode: SwapMode;
+  capped: boolean;
+  failed: boolean;
+}
+
+const ZERO = BigInt(0);
+const BPS = BigInt(10000);
+const WEIGHT_SCALE = 1000000;
+
+const toWeight = (token: ProRataToken): bigint =>
+  BigInt(Math.max(1, Math.round(token.liquidationAmount * WEIGHT_SCALE)));
+
+const splitByWeight = (total: bigint, legs: LegState[]): bigint[] => {
+  const weights = legs.map(leg => toWeight(leg.token));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, ZERO);
+  return weights.map(weight => (totalWeight > ZERO ? (total * weight) / totalWeight : ZERO));
+};
+
+const isWithin = (actual: bigint, desired: bigint, toleranceBps: bigint): boolean => {
+  const diff = actual > desired ? actual - desired : desired - actual;
+  return diff * BPS <= desired * toleranceBps;
+};
+
+// asks for the exact output first. the route's worst-case input has to fit in
+// the balance, otherwise the leg falls back to scaling an ExactIn amount
+// towards the desired output
+const quoteTowards = async (
+  leg: LegState,
+  desiredOut: bigint,
+  quote: LegQuoter,
+  options: Required<Pick<TargetOutputOptions, 'slippageBps' | 'maxIterations'>> & { toleranceBps: bigint },
+): Promise<void> => {
+  if (desiredOut <= ZERO) return;
+
+  const exactOut = await quote(leg.token, desiredOut, 'ExactOut');
+  if (exactOut?.inAmount) {
+    const inAmount = BigInt(exactOut.inAmount);
+    const maxIn = exactOut.otherAmountThreshold
+      ? BigInt(exactOut.otherAmountThreshold)
+      : (inAmount * (BPS + BigInt(options.slippageBps))) / BPS;
+
+    if (maxIn <= leg.balanceRaw) {
+      Object.assign(leg, {
+        inputRaw: inAmount,
+        outputRaw: BigInt(exactOut.outAmount),
+        swapMode: 'ExactOut',
+        capped: false,
+        failed: false,
+      });
+      return;
+    }
+  }
+
+  let inputRaw = leg.inputRaw > ZERO ? leg.inputRaw : getRawSwapAmount(leg.token);
+  if (inputRaw > leg.balanceRaw) inputRaw = leg.balanceRaw;
+
+  for (let i = 0; i < options.maxIterations && inputRaw > ZERO; i++) {
+    const exactIn = await quote(leg.token, inputRaw, 'ExactIn');
+    if (!exactIn) {
+      leg.failed = leg.outputRaw === ZERO;
+      return;
+    }
+
+    const outputRaw = BigInt(exactIn.outAmount);
+    Object.assign(leg, { inputRaw, outputRaw, swapMode: 'ExactIn', failed: false });
+    leg.capped = inputRaw >= leg.balanceRaw && outputRaw < desiredOut;
+
+    if (leg.capped || outputRaw === ZERO || isWithin(outputRaw, desiredOut, options.toleranceBps)) {
+      return;
+    }
+
+    let next = (inputRaw * desiredOut) / outputRaw;
+    if (next > leg.balanceRaw) next = leg.balanceRaw;
+    if (next === inputRaw) return;
+    inputRaw = next;
+  }
+};
+
+// splits an output target across the legs by value, quotes each one and then
+// moves any shortfall onto the legs that still have balance to spare until
+// the quoted total lands within the tolerance
+export const planTargetOutput = async (
+  legs: ProRataToken[],
+  options: TargetOutputOptions,
+  quote: LegQuoter,
+): Promise<TargetOutputPlan> => {
+  const tolerancePct = options.tolerancePct ?? 0.5;
+  const maxIterations = options.maxIterations ?? 4;
+  const toleranceBps = BigInt(Math.round(tolerancePct * 100));
+  const quoteOptions = { slippageBps: options.slippageBps, maxIterations, toleranceBps };
+  const target = options.targetOutputRaw;
+
+  const states: LegState[] = legs.map(token => ({
+    token,
+    balanceRaw: toRawBalance(token),
+    inputRaw: ZERO,
+    outputRaw: ZERO,
+    swapMode: 'ExactIn',
+    capped: false,
+    failed: false,
+  }));
+
+  const shares = splitByWeight(target, states);
+  for (const [index, leg] of states.entries()) {
+    await quoteTowards(leg, shares[index], quote, quoteOptions);
+  }
+
+  let iterations = 1;
+  const totalOutput = () => states.reduce((sum, leg) => sum + leg.outputRaw, ZERO);
+
+  while (iterations < maxIterations) {
+    const total = totalOutput();
+    if (total >= target || isWithin(total, target, toleranceBps)) break;
+
+    const open = states.filter(leg => !leg.capped && !leg.failed);
+    if (open.length === 0) break;
+
+    const extra = splitByWeight(target - total, open);
+    for (const [index, leg] of open.entries()) {
+      await quoteTowards(leg, leg.outputRaw + extra[index], quote, quoteOptions);
+    }
+    iterations++;
+  }
+
+  const quotedRaw = totalOutput();
+  const shortfallRaw = quotedRaw < target ? target - quotedRaw : ZERO;
+
+  const plannedLegs = states
+    .filter(leg => !leg.failed && leg.inputRaw > ZERO)
+    .map(leg => {
+      const swapAmount = rawToUiAmount(leg.inputRaw, leg.token.decimals);
+      const output = rawToUiAmount(leg.outputRaw, options.outputDecimals);
+      return {
+        ...leg.token,
+        swapAmount,
+        rawSwapAmount: leg.inputRaw.toString(),
+        liquidationAmount: leg.token.price ? swapAmount * leg.token.price : leg.token.liquidationAmount,
+        swapMode: leg.swapMode,
+        targetOutputRaw: leg.swapMode === 'ExactOut' ? leg.outputRaw.toString() : undefined,
+        quotedOutputRaw: leg.outputRaw.toString(),
+        rationale: [
+          `${leg.swapMode === 'ExactOut' ? 'exact output' : 'scaled input'} for ${output.toFixed(4)}`,
+          leg.capped ? 'capped at full balance' : null,
+        ].filter(Boolean).join(', '),
+      };
+    });
+
+  return {
+    legs: plannedLegs,
+    targetOutput: rawToUiAmount(target, options.outputDecimals),
+    quotedOutput: rawToUiAmount(quotedRaw, options.outputDecimals),
+    shortfall: rawToUiAmount(shortfallRaw, options.outputDecimals),
+    withinTolerance: shortfallRaw === ZERO || isWithin(quotedRaw, target, toleranceBps),
+    iterations,
+  };
+};
@@ -0,0 +1,84 @@
+import { TokenBalance, TransferFeeConfig } from '../types/token';
+
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+const BASIS_POINTS_DIVISOR = BigInt(10000);
+
+interface ParsedTransferFee {
+  epoch: number;
+  maximumFee: number | string;
+  transferFeeBasisPoints: number;
+}
+
+export interface ParsedExtension {
+  extension: string;
+  state?: {
+    olderTransferFee?: ParsedTransferFee;
+    newerTransferFee?: ParsedTransferFee;
+    [key: string]: unknown;
+  };
+}
+
+export interface MintExtensionInfo {
+  transferFee: TransferFeeConfig | null;
+  nonTransferable: boolean;
+}
+
+export const isToken2022 = (token: Pick<TokenBalance, 'tokenProgram'>): boolean =>
+  token.tokenProgram === TOKEN_2022_PROGRAM_ID;
+
+// the newer fee only applies once its epoch is reached
+export const parseMintExtensions = (
+  extensions: ParsedExtension[] | undefined,
+  currentEpoch: number,
+): MintExtensionInfo => {
+  const info: MintExtensionInfo = { transferFee: null, nonTransferable: false };
+
+  for (const entry of extensions ?? []) {
+    if (entry.extension === 'nonTransferable') {
+      info.nonTransferable = true;
+    } else if (entry.extension === 'transferFeeConfig' && entry.state) {
+      const { olderTransferFee, newerTransferFee } = entry.state;
+      const activeFee =
+        newerTransferFee && currentEpoch >= newerTransferFee.epoch
+          ? newerTransferFee
+          : olderTransferFee;
+
+      if (activeFee && activeFee.transferFeeBasisPoints > 0) {
+        info.transferFee = {
+          transferFeeBasisPoints: activeFee.transferFeeBasisPoints,
+          maximumFee: String(activeFee.maximumFee),
+        };
+      }
+    }
+  }
+
+  return info;
+};
+
+export const calculateTransferFee = (token: TokenBalance, rawAmount: bigint): bigint => {
+  const fee = token.transferFee;
+  if (!fee || rawAmount <= BigInt(0)) return BigInt(0);
+
+  const numerator = rawAmount * BigInt(fee.transferFeeBasisPoints);
+  const rawFee = (numerator + BASIS_POINTS_DIVISOR - BigInt(1)) / BASIS_POINTS_DIVISOR;
+  const maximumFee = BigInt(fee.maximumFee);
+
+  return rawFee > maximumFee ? maximumFee : rawFee;
+};
+
+export const getNetUiAmount = (token: TokenBalance, uiAmount: number): number => {
+  if (!token.transferFee || uiAmount <= 0) return uiAmount;
+
+  const rawAmount = BigInt(Math.floor(uiAmount * Math.pow(10, token.decimals)));
+  const fee = calculateTransferFee(token, rawAmount);
+
+  return Number(rawAmount - fee) / Math.pow(10, token.decimals);
+};
+
+export const getTransferBlockReason = (token: TokenBalance): string | null => {
+  if (token.nonTransferable) return `${token.symbol} is non-transferable`;
+  if (token.frozen) return `${token.symbol} account is frozen`;
+  return null;
+};
@@ -16,6 +16,8 @@ import { db } from './lib/firebase';
 import { encryptionService } from './lib/encryption';
 import { HistoricalPortfolio } from './components/ViewHistory';
 import { SwapHistoryPanel } from './components/SwapHistoryPanel';
+import { LiquidationOrdersPanel } from './components/LiquidationOrdersPanel';
+import { RpcStatusPanel } from './components/RpcStatusPanel';
 import { useColumnState } from './hooks/useColumnState';
 
 import '@solana/wallet-adapter-react-ui/styles.css';
@@ -33,6 +35,7 @@ export default function Home() {
   
   const [tokens, setTokens] = useState<TokenBalance[]>([]);
   const [loading, setLoading] = useState(false);
+  const [refreshingPrices, setRefreshingPrices] = useState(false);
   const [error, setError] = useState<string>('');
   const [showSettings, setShowSettings] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
@@ -211,6 +214,15 @@ secureLog.info('portfolio history updated', {
 
     const tokensWithBalance = tokenBalances.filter(token => token.uiAmount > 0);
     setTotalToProcess(tokensWithBalance.length);
+
+    // show the last known prices straight away and refresh them behind the table
+    const lastKnown = await tokenService.getLastKnownPrices(tokensWithBalance);
+    const showedLastKnown = lastKnown.some(token => token.priceTimestamp !== undefined);
+    if (showedLastKnown) {
+      setTokens(lastKnown);
+      setLoading(false);
+      setRefreshingPrices(true);
+    }
     
     const tokensWithPrices = await tokenService.getTokenPrices(
       tokensWithBalance,
@@ -220,7 +232,13 @@ secureLog.info('portfolio history updated', {
       }
     );
 
-    setTokens(tokensWithPrices);
+    // keep selections made while the fresh prices were loading
+    setTokens(prev => showedLastKnown
+      ? tokensWithPrices.map(token => ({
+        ...token,
+        selected: prev.find(t => t.mint === token.mint)?.selected ?? token.selected,
+      }))
+      : tokensWithPrices);
     
     const totalValue = tokensWithPrices.reduce((sum, token) => sum + (token.value || 0), 0);
     
@@ -232,6 +250,7 @@ secureLog.info('portfolio history updated', {
     setError(err instanceof Error ? err.message : 'failed to fetch tokens');
   } finally {
     setLoading(false);
+    setRefreshingPrices(false);
   }
 }, [publicKey, savePortfolioHistory]);
 
@@ -370,6 +389,7 @@ secureLog.info('portfolio history updated', {
           <TokenTable
             tokens={tokens}
             loading={loading}
+            refreshingPrices={refreshingPrices}
             onTokenSelect={handleTokenSelect}
             onSelectAll={handleSelectAll}
             selectedTokens={selectedTokens}
@@ -497,8 +517,10 @@ secureLog.info('portfolio history updated', {
 
           {currentView === 'main' && (
           <div className="mb-8 relative z-20 space-y-6 -mx-4 sm:mx-0">
+            <LiquidationOrdersPanel />
             <SwapHistoryPanel />
             <HistoricalPortfolio />
+            <RpcStatusPanel />
           </div>
           )}
           <footer className="mt-8 pt-6 border-t border-gray-700/30 relative z-20 mobile-full-width">
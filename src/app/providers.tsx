@@ -10,15 +10,20 @@ import {
 } from '@solana/wallet-adapter-wallets';
 import { clusterApiUrl } from '@solana/web3.js';
 import { ThemeProvider } from 'next-themes';
-import { ReactNode, useMemo, useEffect } from 'react';
+import { ReactNode, useMemo, useEffect, useState } from 'react';
+import { LiquidationOrdersProvider } from './contexts/ordersContext';
+import { rpcManager } from './lib/rpcManager';
 
 import '@solana/wallet-adapter-react-ui/styles.css';
 
 export function Providers({ children }: { children: ReactNode }) {
-  const endpoint = useMemo(() => {
-    return process.env.NEXT_PUBLIC_RPC_ENDPOINT_1 || 
-           process.env.NEXT_PUBLIC_RPC_ENDPOINT_2 ||
-           'https://api.mainnet-beta.solana.com';
+  // http calls are routed per call by the rpc manager, the endpoint only
+  // decides where websocket subscriptions go
+  const [endpoint, setEndpoint] = useState(() => rpcManager.getPrimaryEndpoint());
+  const connectionConfig = useMemo(() => rpcManager.getConnectionConfig(), []);
+
+  useEffect(() => {
+    return rpcManager.subscribe(() => setEndpoint(rpcManager.getPrimaryEndpoint()));
   }, []);
 
   const wallets = useMemo(
@@ -61,7 +66,7 @@ export function Providers({ children }: { children: ReactNode }) {
 
   return (
     <ThemeProvider attribute="class" defaultTheme="dark">
-      <ConnectionProvider endpoint={endpoint}>
+      <ConnectionProvider endpoint={endpoint} config={connectionConfig}>
         <WalletProvider wallets={wallets} autoConnect>
           <WalletModalProvider>
             <style jsx global>{`
@@ -137,7 +142,9 @@ export function Providers({ children }: { children: ReactNode }) {
                 }
               }
             `}</style>
-            {children}
+            <LiquidationOrdersProvider>
+              {children}
+            </LiquidationOrdersProvider>
           </WalletModalProvider>
         </WalletProvider>
       </ConnectionProvider>
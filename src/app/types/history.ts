@@ -1,3 +1,5 @@
+import { RouteSummary } from './swap';
+
 export interface SwapTokenInput {
   mint: string;
   symbol: string;
@@ -9,14 +11,26 @@ export interface SwapTokenInput {
   outputAmount?: number;
   outputUsd?: number;
   quoteImprovementPct?: number;
+  quoteProvider?: string;
+  // the venues and fees the swap was routed through
+  route?: RouteSummary;
+  quotedOutputAmount?: number;
+  realizedSlippagePct?: number;
+  networkFeeLamports?: number;
+  priorityFeeLamports?: number;
+  computeUnitPriceMicroLamports?: number;
 }
 
+export type SwapBatchType = 'liquidation' | 'swap' | 'rebalance';
+
   export interface SwapBatchRecord {
     batchId: string;
     wallet: string;
     hashedWallet: string;
     timestamp: number;
-    outputToken: {
+    outputTokens: SwapBatchOutput[];
+    // records written before proceeds could be split held a single output
+    outputToken?: {
       mint: string;
       symbol: string;
     };
@@ -25,11 +39,30 @@ export interface SwapTokenInput {
     totals: {
       valueUsdIn: number;
       valueUsdOut: number;
+      // network fees paid across the landed legs, priority fees included
+      feesLamports?: number;
     };
     tokensIn: SwapTokenInput[];
     status: 'success' | 'partial';
+    // batches recorded before rebalancing existed carry no type
+    type?: SwapBatchType;
     quoteImprovementPct?: number;
     chartIndicators: ChartIndicator[];
+    bundles?: SwapBundleRecord[];
+  }
+
+  export interface SwapBatchOutput {
+    mint: string;
+    symbol: string;
+    weight: number;
+    amountOut: number;
+    valueUsdOut: number;
+  }
+
+  export interface SwapBundleRecord {
+    bundleId: string;
+    tipLamports: number;
+    signatures: string[];
   }
 
   export interface ChartIndicator {
@@ -40,7 +73,9 @@ export interface SwapTokenInput {
     timestamp: number;
     signature: string;
     outputToken: string;
-    type: 'liquidation' | 'swap';
+    outputSymbol?: string;
+    outputValueUsd?: number;
+    type: SwapBatchType;
   }
 
 export interface SwapBatchRecordWithId extends SwapBatchRecord {
@@ -53,14 +88,24 @@ export interface HistorySummaryPoint {
   totalValue: number;
 }
 
+// value routed at least partly through a venue over the summary range
+export interface HistoryVenueSummary {
+  label: string;
+  swaps: number;
+  valueUsd: number;
+}
+
 export interface HistorySummaryResponse {
   points: HistorySummaryPoint[];
+  venues?: HistoryVenueSummary[];
   sellIndicators: {
     timestamp: number;
     valueUsd: number;
     token: string;
     outputToken?: string;
-    type?: 'liquidation' | 'swap';
+    outputSymbol?: string;
+    outputValueUsd?: number;
+    type?: SwapBatchType;
   }[];
 }
 
@@ -0,0 +1,59 @@
+import { OutputAllocation, SwapGuardrails } from './swap';
+
+// a stop fires when the basket falls to the threshold, take profit when it
+// rises to it
+export type OrderKind = 'stop-loss' | 'take-profit';
+
+export type OrderStatus =
+  | 'active'
+  | 'triggered'
+  | 'executing'
+  | 'executed'
+  | 'failed'
+  | 'cancelled'
+  | 'expired';
+
+export interface OrderToken {
+  mint: string;
+  symbol: string;
+  decimals: number;
+  // holdings when the order was placed, the basket is valued at these amounts
+  uiAmount: number;
+}
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  at: number;
+  basketValueUsd?: number;
+  note?: string;
+}
+
+export interface LiquidationOrder {
+  orderId: string;
+  wallet: string;
+  hashedWallet: string;
+  createdAt: number;
+  updatedAt: number;
+  kind: OrderKind;
+  thresholdUsd: number;
+  percentage: number;
+  tokens: OrderToken[];
+  outputs: OutputAllocation[];
+  slippage: number;
+  guardrails: SwapGuardrails;
+  expiresAt: number | null;
+  status: OrderStatus;
+  history: OrderStatusChange[];
+  // the batch that filled the order, recorded in swapHistory
+  batchId?: string;
+}
+
+export interface OrderOutcome {
+  batchId?: string;
+  error?: string;
+}
+
+export interface BasketQuote {
+  valueUsd: number;
+  checkedAt: number;
+}
@@ -0,0 +1,46 @@
+import { TokenBalance } from './token';
+import { OutputAllocation, PlanExclusion, ProRataToken } from './swap';
+
+export interface RebalanceTarget {
+  mint: string;
+  symbol: string;
+  // percent of the rebalanced value, targets are normalized to sum to 100
+  weight: number;
+}
+
+export interface RebalanceTemplate {
+  id: string;
+  name: string;
+  targets: RebalanceTarget[];
+  driftBandPct: number;
+  updatedAt: number;
+}
+
+export type RebalanceAction = 'buy' | 'sell' | 'hold';
+
+export interface RebalancePosition {
+  mint: string;
+  symbol: string;
+  currentValueUsd: number;
+  currentWeight: number;
+  targetWeight: number;
+  targetValueUsd: number;
+  // current minus target weight, in percentage points
+  driftPct: number;
+  action: RebalanceAction;
+  tradeValueUsd: number;
+}
+
+export interface RebalancePlan {
+  totalValueUsd: number;
+  positions: RebalancePosition[];
+  // each leg sells one token into the token named by its outputMint
+  legs: ProRataToken[];
+  outputs: OutputAllocation[];
+  turnoverUsd: number;
+  withinBand: boolean;
+  unpriced: PlanExclusion<TokenBalance>[];
+  // targets the wallet holds none of. buying a token needs its decimals and
+  // price, which only come with a balance, so these are left out of sizing
+  unheld: Array<{ target: RebalanceTarget; reason: string }>;
+}
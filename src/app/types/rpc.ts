@@ -0,0 +1,35 @@
+// closed takes traffic, open is skipped until its cooldown ends, half-open
+// lets a single probe through to decide which way it goes
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// each kind of call is routed under its own policy
+export type RpcCallKind = 'send' | 'confirm' | 'read' | 'das';
+
+// das calls have their own endpoints, since most rpcs do not serve them
+export type RpcPool = 'general' | 'das';
+
+export interface RpcSettings {
+  endpoints: string[];
+  dasEndpoints: string[];
+  // send transactions through every healthy endpoint rather than the best one
+  broadcastSends: boolean;
+}
+
+export interface EndpointHealth {
+  name: string;
+  pool?: RpcPool;
+  circuit: CircuitState;
+  // smoothed over recent calls, null until the first one returns
+  latencyMs: number | null;
+  // share of the recent calls that failed
+  errorRate: number;
+  samples: number;
+  // slots behind the freshest endpoint at the last probe
+  slotLag: number | null;
+  // lower is better, the balancer tries endpoints in this order
+  score: number;
+  unsupportedMethods: string[];
+  lastError?: string;
+  // when an open circuit next lets a probe through
+  retryAt?: number;
+}
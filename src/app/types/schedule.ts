@@ -0,0 +1,56 @@
+import { OutputAllocation, SwapGuardrails } from './swap';
+
+export type ScheduleStatus = 'active' | 'paused' | 'cancelled' | 'completed';
+
+export type ScheduleSliceStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// live slices are quoted and signed when they come due, presigned ones were
+// signed up front against durable nonces and only need sending
+export type ScheduleExecution = 'live' | 'presigned';
+
+export interface ScheduledToken {
+  mint: string;
+  symbol: string;
+  decimals: number;
+  // raw amount the whole schedule sells, spread over the slices
+  rawTotal: string;
+  soldRaw: string;
+}
+
+export interface ScheduledSlice {
+  index: number;
+  scheduledAt: number;
+  status: ScheduleSliceStatus;
+  // each slice runs as its own batch, so it has its own history record
+  batchId?: string;
+  executedAt?: number;
+  valueUsd?: number;
+  error?: string;
+}
+
+export interface SwapSchedule {
+  scheduleId: string;
+  wallet: string;
+  hashedWallet: string;
+  createdAt: number;
+  updatedAt: number;
+  status: ScheduleStatus;
+  execution: ScheduleExecution;
+  outputs: OutputAllocation[];
+  tokens: ScheduledToken[];
+  liquidationPct: number;
+  windowMs: number;
+  slippage: number;
+  guardrails: SwapGuardrails;
+  slices: ScheduledSlice[];
+  // nonce accounts backing presigned slices, closed once the schedule ends
+  nonceAccounts?: string[];
+  noncesReleased?: boolean;
+}
+
+export interface ScheduleOptions {
+  sliceCount: number;
+  windowMs: number;
+  execution: ScheduleExecution;
+  startAt?: number;
+}
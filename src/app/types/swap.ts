@@ -0,0 +1,261 @@
+import { PlatformFee, RoutePlanStep, TokenBalance } from './token';
+import { SwapBatchType } from './history';
+
+export interface ProRataToken extends TokenBalance {
+  swapAmount: number;
+  rawSwapAmount?: string;
+  percentage: number;
+  liquidationAmount: number;
+  originalAmount: number;
+  rationale?: string;
+  swapMode?: SwapMode;
+  // exact output to request when swapMode is ExactOut
+  targetOutputRaw?: string;
+  quotedOutputRaw?: string;
+  // destination mint when proceeds are split across several outputs
+  outputMint?: string;
+}
+
+export interface OutputAllocation {
+  mint: string;
+  symbol: string;
+  decimals: number;
+  // percent of proceeds, allocations are normalized to sum to 100
+  weight: number;
+}
+
+export type SwapMode = 'ExactIn' | 'ExactOut';
+
+export interface PlanExclusion<T extends TokenBalance = TokenBalance> {
+  token: T;
+  reason: string;
+}
+
+export interface ProRataPlan<T extends TokenBalance = TokenBalance> {
+  legs: Array<T & ProRataToken>;
+  unpriced: PlanExclusion<T>[];
+  targetValueUsd: number;
+  plannedValueUsd: number;
+  pricedValueUsd: number;
+  shortfallUsd: number;
+}
+
+export interface TargetOutputPlan {
+  legs: ProRataToken[];
+  targetOutput: number;
+  quotedOutput: number;
+  shortfall: number;
+  withinTolerance: boolean;
+  iterations: number;
+}
+
+export interface SwapResult {
+  symbol: string;
+  mint: string;
+  decimals: number;
+  signature?: string;
+  amount: number;
+  error?: string;
+  inputAmount: number;
+  outputAmount?: number;
+  retryCount?: number;
+  priceUsd?: number;
+  outputUsd?: number;
+  quoteImprovementPct?: number;
+  quoteProvider?: string;
+  route?: RouteSummary;
+  simulation?: SimulationReport;
+  bundleId?: string;
+  tipLamports?: number;
+  // priority fee bid, escalated after blockhash expiries
+  computeUnitPriceMicroLamports?: number;
+  fill?: SwapFill;
+  assessment?: LegAssessment;
+  skipped?: boolean;
+  // sent but never settled, the leg stays in flight until reconciled
+  unresolved?: boolean;
+  outputMint?: string;
+}
+
+export type GuardrailBreachAction = 'skip' | 'confirm';
+
+// null limits are disabled
+export interface SwapGuardrails {
+  maxPriceImpactPct: number | null;
+  maxLegLossUsd: number | null;
+  maxBatchLossUsd: number | null;
+  breachAction: GuardrailBreachAction;
+}
+
+// routing limits passed to every quote request. dex names are jupiter amm
+// labels, an empty allow list means any dex
+export interface RouteConstraints {
+  dexes: string[];
+  excludeDexes: string[];
+  onlyDirectRoutes: boolean;
+  maxAccounts: number | null;
+  restrictIntermediateTokens: boolean;
+}
+
+export type PriorityFeeLevel = 'low' | 'medium' | 'high' | 'custom';
+
+// compute unit prices in micro-lamports sampled from recent slots
+export interface PriorityFeeLevels {
+  low: number;
+  medium: number;
+  high: number;
+}
+
+export interface PriorityFeeSettings {
+  level: PriorityFeeLevel;
+  // only used by the custom level
+  customMicroLamports: number | null;
+}
+
+export interface LegAssessment {
+  quotedOutput: number;
+  quotedOutputUsd?: number;
+  priceImpactPct: number;
+  lossUsd?: number;
+  breaches: string[];
+}
+
+export interface RouteHop {
+  label: string;
+  ammKey: string;
+  inputMint: string;
+  outputMint: string;
+  // share of the hop's input that goes through this amm
+  percent: number;
+  feeMint: string;
+  feeRaw: string;
+  // only set when the fee mint's decimals are known
+  feeAmount?: number;
+}
+
+// the route a quote takes, kept with previews, results and history
+export interface RouteSummary {
+  provider?: string;
+  hops: RouteHop[];
+  priceImpactPct: number;
+  platformFeeBps?: number;
+  platformFeeAmount?: number;
+}
+
+export interface LegPreview {
+  mint: string;
+  outputMint?: string;
+  route?: RouteSummary;
+  assessment?: LegAssessment;
+  error?: string;
+}
+
+export interface SwapFill {
+  inputSpent: number;
+  inputRaw: string;
+  outputReceived: number;
+  outputRaw: string;
+  quotedOutput: number;
+  networkFeeLamports: number;
+  priorityFeeLamports: number;
+  realizedSlippagePct: number;
+}
+
+export type BundleStatus = 'pending' | 'landed' | 'failed' | 'dropped';
+
+export interface SimulationReport {
+  ok: boolean;
+  error?: string;
+  unitsConsumed?: number;
+  feeLamports?: number;
+  inputChange?: number;
+  outputChange?: number;
+  outputRaw?: string;
+  logs: string[];
+}
+
+export interface JupiterQuoteResponse {
+  inAmount?: string;
+  outAmount: string;
+  swapMode?: SwapMode;
+  otherAmountThreshold?: string;
+  priceImpactPct?: string;
+  routePlan?: RoutePlanStep[];
+  platformFee?: PlatformFee | null;
+  [key: string]: unknown;
+}
+
+export interface JupiterSwapResponse {
+  swapTransaction: string;
+  [key: string]: unknown;
+}
+
+// quotes from every provider share the jupiter shape
+export interface QuoteSelectionResult {
+  quote: JupiterQuoteResponse;
+  // name of the quote provider that won
+  provider?: string;
+  // output edge over the next best provider
+  improvementPct?: number;
+  assessment?: LegAssessment;
+}
+
+// a leg signed ahead of time against a durable nonce instead of a blockhash
+export interface PresignedLeg {
+  token: ProRataToken;
+  // base64 serialized, signed transaction
+  transaction: string;
+  nonceAccount: string;
+  nonceValue: string;
+  quote: JupiterQuoteResponse;
+  provider?: string;
+  // legs presigned before fees were estimated carry none
+  computeUnitPrice?: number;
+}
+
+export type SwapEngineEvent =
+  | { type: 'leg-start'; token: ProRataToken; index: number; total: number }
+  | { type: 'quote'; token: ProRataToken }
+  | { type: 'simulate'; token: ProRataToken }
+  | { type: 'simulated'; token: ProRataToken; report: SimulationReport }
+  | { type: 'guardrail'; token: ProRataToken; assessment: LegAssessment }
+  | { type: 'sign'; token: ProRataToken }
+  | { type: 'sign-all'; tokens: ProRataToken[] }
+  | { type: 'bundle-sent'; bundleId: string; tokens: ProRataToken[] }
+  | { type: 'bundle-status'; bundleId: string; status: BundleStatus; tokens: ProRataToken[] }
+  | { type: 'send'; token: ProRataToken }
+  // durable nonce transactions do not expire, so they carry no block height
+  | { type: 'submitted'; token: ProRataToken; signature: string; lastValidBlockHeight?: number; quotedOutputRaw: string }
+  | { type: 'confirm'; token: ProRataToken; signature: string }
+  | { type: 'rebroadcast'; token: ProRataToken; signature: string; attempt: number }
+  | { type: 'retry'; token: ProRataToken; attempt: number; error: string }
+  | { type: 'leg-complete'; result: SwapResult };
+
+export type PersistedLegStatus = 'pending' | 'submitted' | 'landed' | 'failed';
+
+export interface PersistedSwapLeg {
+  token: ProRataToken;
+  status: PersistedLegStatus;
+  signature?: string;
+  lastValidBlockHeight?: number;
+  quotedOutputRaw?: string;
+  result?: SwapResult;
+}
+
+export type PersistedBatchState = 'in-progress' | 'completed' | 'abandoned';
+
+export interface PersistedSwapBatch {
+  batchId: string;
+  wallet: string;
+  timestamp: number;
+  updatedAt: number;
+  outputs: OutputAllocation[];
+  liquidationPct: number;
+  type?: SwapBatchType;
+  slippage: number;
+  state: PersistedBatchState;
+  recorded: boolean;
+  legs: PersistedSwapLeg[];
+  // set when the batch runs a schedule slice, which settles it on recovery
+  scheduleId?: string;
+}
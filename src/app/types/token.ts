@@ -3,12 +3,44 @@ export interface TokenBalance {
   symbol: string;
   name: string;
   balance?: number;
+  rawAmount?: string;
   decimals: number;
   uiAmount: number;
   price?: number;
+  // name of the price source that answered, and when it priced the token
+  priceSource?: string;
+  priceTimestamp?: number;
   value: number;
   selected: boolean;
   logoURI?: string | null;
+  tokenProgram?: string;
+  transferFee?: TransferFeeConfig | null;
+  nonTransferable?: boolean;
+  frozen?: boolean;
+}
+
+export interface PriceReference {
+  source: string;
+  price: number;
+}
+
+// a token's price checked against independent references before it is used
+// to size a swap
+export interface PriceCheck {
+  mint: string;
+  // the price that was checked, a later reprice makes the check stale
+  price: number;
+  priceSource?: string;
+  references: PriceReference[];
+  // widest disagreement between the price and any reference
+  spreadPct: number;
+  lowConfidence: boolean;
+  checkedAt: number;
+}
+
+export interface TransferFeeConfig {
+  transferFeeBasisPoints: number;
+  maximumFee: string;
 }
 
 export interface TokenInfo {